@@ -0,0 +1,105 @@
+/**
+ * Unit tests for recognizing the course and tee of a scorecard
+ */
+
+import {
+  applyCourseLayout,
+  applyStoredHoleValues,
+  courseNameSimilarity,
+  matchCourse,
+} from '@/lib/courseMatching';
+import { createCourse, lookupCourse, parseCourseInput } from '@/lib/courses';
+import { createInMemoryCourseStore } from '@/lib/courseStore';
+import type { Course, ExtractedScorecard } from '@/lib/types';
+
+const PARS = [4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 3, 5, 4, 4, 3, 4, 4, 5];
+
+function tee(name: string, extraYards: number) {
+  return {
+    name,
+    courseRating: 70 + extraYards / 100,
+    slopeRating: 120 + extraYards / 10,
+    holes: PARS.map((par, i) => ({ holeNumber: i + 1, par, yardage: par * 90 + i + extraYards, handicap: ((i * 7) % 18) + 1 })),
+  };
+}
+
+const oakHills: Course = {
+  id: 'oak',
+  name: 'Oak Hills Golf Club',
+  aliases: ['OHGC'],
+  tees: [tee('White', 0), tee('Blue', 30)],
+  createdAt: '',
+  updatedAt: '',
+};
+
+const pineValley: Course = {
+  id: 'pine',
+  name: 'Pine Valley Country Club',
+  aliases: [],
+  tees: [{ ...tee('White', 0), holes: tee('White', 0).holes.map((h) => ({ ...h, par: 4 })) }],
+  createdAt: '',
+  updatedAt: '',
+};
+
+function card(courseName: string, holes = tee('Blue', 30).holes): ExtractedScorecard {
+  return {
+    courseName,
+    holes: holes.map(({ holeNumber, par, yardage }) => ({ holeNumber, par, yardage })),
+    players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: 4 }] }],
+  };
+}
+
+describe('Course matching', () => {
+  it('should compare course names without filler words', () => {
+    expect(courseNameSimilarity('OAK HILLS G.C.', 'Oak Hills Golf Club')).toBe(1);
+    expect(courseNameSimilarity('Pine Hills', 'Pine Valley Country Club')).toBe(0.5);
+    expect(courseNameSimilarity('Golf Club', 'Oak Hills Golf Club')).toBe(0);
+  });
+
+  it('should recognize the course by name and the tee by yardage', () => {
+    const found = matchCourse(card('OAK HILLS GOLF'), [pineValley, oakHills]);
+
+    expect(found?.course.id).toBe('oak');
+    expect(found?.tee.name).toBe('Blue');
+    expect(found?.score).toBe(1);
+  });
+
+  it('should recognize the course from its layout when the name is unreadable', () => {
+    expect(matchCourse(card('Unknown Course'), [pineValley, oakHills])?.course.id).toBe('oak');
+    expect(matchCourse(card('Unknown Course', tee('Blue', 30).holes.slice(0, 5)), [oakHills])).toBeNull();
+    expect(matchCourse(card('Maple Ridge'), [pineValley])).toBeNull();
+  });
+
+  it('should fill missing values and flag disagreements without overwriting', () => {
+    const extracted = card('Oak Hills');
+    extracted.holes[0] = { holeNumber: 1, par: 5, yardage: 390 }; // stored: par 4, 390 yards
+    extracted.holes[1] = { holeNumber: 2, par: 4 }; // yardage unreadable
+
+    const blue = oakHills.tees[1];
+    const { scorecard, match } = applyCourseLayout(extracted, oakHills, blue, 0.9);
+
+    expect(scorecard.courseName).toBe('Oak Hills Golf Club');
+    expect(scorecard.teeName).toBe('Blue');
+    expect(scorecard.slopeRating).toBe(123);
+    expect(scorecard.holes[0].par).toBe(5);
+    expect(scorecard.holes[1].yardage).toBe(blue.holes[1].yardage);
+    expect(match.filled).toBe(18 + 1); // every stroke index plus one yardage
+    expect(match.disagreements).toEqual([{ holeNumber: 1, field: 'par', extracted: 5, stored: 4 }]);
+
+    expect(applyStoredHoleValues(scorecard, match.disagreements).holes[0].par).toBe(4);
+  });
+
+  it('should validate, store and look up courses', async () => {
+    expect(() => parseCourseInput({ name: 'Oak Hills', tees: [] }, true)).toThrow();
+    expect(() => parseCourseInput({ name: 'Oak Hills', tees: [{ name: 'White', holes: [{ holeNumber: 1, par: 9 }] }] }, true)).toThrow();
+    expect(parseCourseInput({ location: ' Springfield ' }, false)).toEqual({ location: 'Springfield' });
+
+    const store = createInMemoryCourseStore();
+    const { id, createdAt, updatedAt, ...layout } = oakHills;
+    const course = await createCourse(layout, store);
+
+    const lookup = await lookupCourse(card('Oak Hills GC'), store);
+    expect(lookup?.match).toMatchObject({ courseId: course.id, teeName: 'Blue', disagreements: [] });
+    expect(await lookupCourse(card('Somewhere Else', []), store)).toBeNull();
+  });
+});
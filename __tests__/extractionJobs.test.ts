@@ -0,0 +1,109 @@
+/**
+ * Unit tests for asynchronous extraction jobs and the in-memory job store
+ */
+
+import { createInMemoryJobStore } from '@/lib/jobStore';
+import { runExtractionJob, toJobStatus } from '@/lib/extractionJobs';
+import type { OcrProvider } from '@/lib/ocrProvider';
+import type { ExtractedScorecard } from '@/lib/types';
+
+const scorecard: ExtractedScorecard = {
+  courseName: 'Test Course',
+  holes: [{ holeNumber: 1, par: 4 }, { holeNumber: 2, par: 3 }],
+  players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: 3 }] }],
+};
+
+function createJob(id: string) {
+  const now = new Date().toISOString();
+  return { id, status: 'queued' as const, progress: 0, provider: 'fake', createdAt: now, updatedAt: now };
+}
+
+describe('Extraction Jobs', () => {
+  it('should record stages and the result of a successful job', async () => {
+    const store = createInMemoryJobStore();
+    await store.create(createJob('job-1'));
+
+    const stages: string[] = [];
+    const provider: OcrProvider = {
+      name: 'fake',
+      description: 'Test provider',
+      async analyze(_buffer, _hints, onProgress) {
+        onProgress?.({ stage: 'textract', message: 'Reading table' });
+        stages.push((await store.get('job-1'))!.stage!);
+        onProgress?.({ stage: 'vision', message: 'Reading handwriting' });
+        stages.push((await store.get('job-1'))!.stage!);
+        return { scorecard, provenance: [] };
+      },
+    };
+
+    await runExtractionJob('job-1', Buffer.from(''), provider, {}, store);
+    const job = await store.get('job-1');
+
+    expect(stages).toEqual(['textract', 'vision']);
+    expect(job?.status).toBe('completed');
+    expect(job?.progress).toBe(100);
+    expect(job?.result?.extracted.players[0].total).toBe(8);
+    expect(job?.result?.provider).toBe('fake');
+    expect(toJobStatus(job!)).not.toHaveProperty('result');
+  });
+
+  it('should not let a late progress write overwrite the completed job', async () => {
+    const store = createInMemoryJobStore();
+    await store.create(createJob('job-3'));
+
+    // Progress writes take longer than the extraction itself
+    const slowStore = {
+      ...store,
+      async update(id: string, changes: Parameters<typeof store.update>[1]) {
+        if (changes.stage) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        return store.update(id, changes);
+      },
+    };
+    const provider: OcrProvider = {
+      name: 'fake',
+      description: 'Test provider',
+      async analyze(_buffer, _hints, onProgress) {
+        onProgress?.({ stage: 'vision', message: 'Reading handwriting' });
+        return { scorecard, provenance: [] };
+      },
+    };
+
+    await runExtractionJob('job-3', Buffer.from(''), provider, {}, slowStore);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    const job = await store.get('job-3');
+
+    expect(job?.status).toBe('completed');
+    expect(job?.progress).toBe(100);
+  });
+
+  it('should record the error of a failed job', async () => {
+    const store = createInMemoryJobStore();
+    await store.create(createJob('job-2'));
+
+    const provider: OcrProvider = {
+      name: 'fake',
+      description: 'Test provider',
+      async analyze() {
+        throw new Error('Textract timed out');
+      },
+    };
+
+    await runExtractionJob('job-2', Buffer.from(''), provider, {}, store);
+    const job = await store.get('job-2');
+
+    expect(job?.status).toBe('failed');
+    expect(job?.error).toContain('Textract timed out');
+  });
+
+  it('should drop jobs older than the TTL', async () => {
+    const store = createInMemoryJobStore(1000);
+    await store.create({ ...createJob('old'), updatedAt: new Date(Date.now() - 5000).toISOString() });
+    await store.create(createJob('new'));
+
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('new')).not.toBeNull();
+    expect(await store.update('missing', { progress: 50 })).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for relation to par, handicap stroke allocation and net scoring
+ */
+
+import { allocateHandicapStrokes, calculateDerivedScoring, calculateRelationToPar } from '@/lib/golfScoring';
+import type { ExtractedScorecard, HoleInfo } from '@/lib/types';
+
+// Stroke index 1 on hole 1, 2 on hole 2, ... for easy reading
+const holes18: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 }));
+
+describe('Golf Scoring', () => {
+  describe('calculateRelationToPar', () => {
+    it('should recognize albatrosses and condors', () => {
+      expect(calculateRelationToPar(3, 5)).toBe('eagle');
+      expect(calculateRelationToPar(2, 5)).toBe('albatross');
+      expect(calculateRelationToPar(1, 4)).toBe('albatross');
+      expect(calculateRelationToPar(1, 5)).toBe('condor');
+      expect(calculateRelationToPar(1, 3)).toBe('eagle');
+    });
+
+    it('should count aces, albatrosses and condors separately from eagles', () => {
+      const scorecard: ExtractedScorecard = {
+        courseName: 'Test Course',
+        holes: [
+          { holeNumber: 1, par: 3 },
+          { holeNumber: 2, par: 4 },
+          { holeNumber: 3, par: 5 },
+          { holeNumber: 4, par: 5 },
+        ],
+        players: [
+          {
+            name: 'Jay',
+            scores: [
+              { holeNumber: 1, score: 1 },
+              { holeNumber: 2, score: 1 },
+              { holeNumber: 3, score: 2 },
+              { holeNumber: 4, score: 3 },
+            ],
+          },
+        ],
+      };
+
+      const derived = calculateDerivedScoring(scorecard);
+
+      expect(derived.players[0]).toMatchObject({ holesInOne: 2, condors: 0, albatrosses: 2, eagles: 2 });
+      expect(derived.holes[1].playerResults[0]).toMatchObject({ relationToPar: 'albatross', holeInOne: true });
+      expect(derived.holes[2].playerResults[0].holeInOne).toBeUndefined();
+    });
+  });
+
+  describe('allocateHandicapStrokes', () => {
+    it('should give one stroke on the hardest holes', () => {
+      const strokes = allocateHandicapStrokes(5, holes18);
+
+      expect([1, 2, 3, 4, 5].map((h) => strokes.get(h))).toEqual([1, 1, 1, 1, 1]);
+      expect(strokes.get(6)).toBe(0);
+      expect(Array.from(strokes.values()).reduce((a, b) => a + b, 0)).toBe(5);
+    });
+
+    it('should go around again for handicaps above 18', () => {
+      const strokes = allocateHandicapStrokes(22, holes18);
+
+      expect(strokes.get(1)).toBe(2);
+      expect(strokes.get(4)).toBe(2);
+      expect(strokes.get(5)).toBe(1);
+      expect(strokes.get(18)).toBe(1);
+    });
+
+    it('should give strokes back on the easiest holes for plus handicaps', () => {
+      const strokes = allocateHandicapStrokes(-2, holes18);
+
+      expect(strokes.get(18)).toBe(-1);
+      expect(strokes.get(17)).toBe(-1);
+      expect(strokes.get(16)).toBe(0);
+      expect(strokes.get(1)).toBe(0);
+    });
+
+    it('should rank 9-hole rounds by relative stroke index', () => {
+      // Odd indexes on the front nine of an 18-hole card
+      const front: HoleInfo[] = [9, 1, 5, 17, 3, 11, 15, 7, 13].map((handicap, i) => ({
+        holeNumber: i + 1,
+        par: 4,
+        handicap,
+      }));
+      const strokes = allocateHandicapStrokes(3, front);
+
+      expect(strokes.get(2)).toBe(1); // SI 1
+      expect(strokes.get(5)).toBe(1); // SI 3
+      expect(strokes.get(3)).toBe(1); // SI 5
+      expect(strokes.get(1)).toBe(0); // SI 9
+    });
+  });
+
+  describe('calculateDerivedScoring', () => {
+    const scorecard: ExtractedScorecard = {
+      courseName: 'Test Course',
+      holes: [
+        { holeNumber: 1, par: 4, handicap: 2 },
+        { holeNumber: 2, par: 3, handicap: 1 },
+        { holeNumber: 3, par: 5, handicap: 3 },
+      ],
+      players: [
+        {
+          name: 'Jay',
+          courseHandicap: 2,
+          scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: 4 }, { holeNumber: 3, score: null }],
+        },
+        { name: 'Sam', scores: [{ holeNumber: 1, score: 4 }, { holeNumber: 2, score: 3 }, { holeNumber: 3, score: 5 }] },
+      ],
+    };
+
+    it('should compute net scores for players with a course handicap', () => {
+      const derived = calculateDerivedScoring(scorecard);
+      const jay = derived.players.find((p) => p.name === 'Jay')!;
+
+      expect(jay.courseHandicap).toBe(2);
+      expect(jay.netScore).toBe(7);
+      expect(jay.netToPar).toBe(0);
+
+      const hole2 = derived.holes[1].playerResults.find((r) => r.playerName === 'Jay')!;
+      expect(hole2).toMatchObject({ strokesReceived: 1, netScore: 3, netRelationToPar: 'par', relationToPar: 'bogey' });
+
+      const hole3 = derived.holes[2].playerResults.find((r) => r.playerName === 'Jay')!;
+      expect(hole3).toMatchObject({ strokesReceived: 0, netScore: null, netRelationToPar: null });
+    });
+
+    it('should leave net fields out without a course handicap', () => {
+      const derived = calculateDerivedScoring(scorecard);
+      const sam = derived.players.find((p) => p.name === 'Sam')!;
+
+      expect(sam.netScore).toBe(undefined);
+      expect(derived.holes[0].playerResults[1]).not.toHaveProperty('netScore');
+    });
+  });
+});
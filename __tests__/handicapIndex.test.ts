@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the WHS handicap index and its revisions
+ */
+
+import {
+  applyHandicapCaps,
+  calculateHandicapHistory,
+  calculateIndexFromDifferentials,
+  exceptionalScoreReduction,
+  type PostableRound,
+} from '@/lib/handicapIndex';
+import { buildHandicapRecord, refreshHandicapIndexes } from '@/lib/handicaps';
+import { calculateDerivedScoring } from '@/lib/golfScoring';
+import { createInMemoryPlayerStore } from '@/lib/playerStore';
+import { createInMemoryRoundStore } from '@/lib/roundStore';
+import type { ExtractedScorecard, HoleInfo, PlayerProfile, SavedRound } from '@/lib/types';
+
+// Par 72 of par 4s, rated 72.0 / 113 so the differential is the score over par
+const holes: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 }));
+const tee = { courseRating: 72, slopeRating: 113, par: 72 };
+
+// Hole scores `overPar` over par: one over on the first holes, two over beyond 18
+function scoresOver(overPar: number, count = 18) {
+  return Array.from({ length: count }, (_, i) => ({
+    holeNumber: i + 1,
+    score: 4 + (overPar > i ? 1 : 0) + (overPar - 18 > i ? 1 : 0),
+  }));
+}
+
+function postable(id: string, playedAt: string, overPar: number, count = 18): PostableRound {
+  return {
+    roundId: id,
+    playedAt,
+    courseName: 'Oak Hills',
+    player: { name: 'Jay', scores: scoresOver(overPar, count) },
+    holes: holes.slice(0, count),
+    tee: count === 18 ? tee : { courseRating: 36, slopeRating: 113, par: 36 },
+  };
+}
+
+const day = (month: number, date: number) => `2024-${String(month).padStart(2, '0')}-${String(date).padStart(2, '0')}`;
+
+describe('Handicap index', () => {
+  it('should average the lowest differentials of the last 20', () => {
+    const diffs = (values: number[]) => values.map((differential, i) => ({ id: `r${i}`, differential }));
+
+    expect(calculateIndexFromDifferentials(diffs([20, 15]))).toBeNull();
+    expect(calculateIndexFromDifferentials(diffs([20, 15, 18]))?.index).toBe(13);
+    expect(calculateIndexFromDifferentials(diffs([10, 12, 14, 16, 18, 20]))?.index).toBe(10);
+    expect(calculateIndexFromDifferentials(diffs([60, 60, 60]))?.index).toBe(54);
+
+    // Two old scores roll out; the best 8 of the other 20 are 6-13
+    const record = calculateIndexFromDifferentials(diffs([0, 0, ...Array.from({ length: 20 }, (_, i) => i + 6)]));
+    expect(record?.index).toBe(9.5);
+    expect(record?.used).toHaveLength(8);
+    expect(record?.used).not.toContain('r0');
+  });
+
+  it('should cap increases over the low handicap index', () => {
+    expect(applyHandicapCaps(12, 10)).toEqual({ index: 12, cap: null });
+    expect(applyHandicapCaps(14, 10)).toEqual({ index: 13.5, cap: 'soft' });
+    expect(applyHandicapCaps(20, 10)).toEqual({ index: 15, cap: 'hard' });
+    expect(applyHandicapCaps(20, null)).toEqual({ index: 20, cap: null });
+  });
+
+  it('should reduce the index after an exceptional score', () => {
+    expect(exceptionalScoreReduction(8, 15)).toBe(-1);
+    expect(exceptionalScoreReduction(5, 15)).toBe(-2);
+    expect(exceptionalScoreReduction(8.1, 15)).toBe(0);
+    expect(exceptionalScoreReduction(0, null)).toBe(0);
+
+    const { scores, revisions } = calculateHandicapHistory([
+      postable('nine', day(1, 1), 2, 9), // 9 holes without an index: not posted
+      postable('a', day(1, 2), 20),
+      postable('b', day(1, 3), 18),
+      postable('c', day(1, 4), 16),
+      postable('d', day(1, 5), 6),
+    ]);
+
+    expect(scores[0]).toMatchObject({ posted: false, usedInIndex: false });
+    expect(revisions.map((r) => r.handicapIndex)).toEqual([14, 4]);
+    expect(revisions[1]).toMatchObject({ date: day(1, 5), esr: -1, differentialsUsed: ['d'] });
+    expect(scores[4]).toMatchObject({ scoreDifferential: 6, indexBefore: 14, esrAdjustment: -1, usedInIndex: true });
+    expect(scores[1].esrAdjustment).toBe(-1);
+  });
+
+  it('should apply the soft and hard cap once 20 scores are posted', () => {
+    const good = Array.from({ length: 20 }, (_, i) => postable(`good-${i}`, day(1, i + 1), 10));
+    const bad = Array.from({ length: 20 }, (_, i) => postable(`bad-${i}`, day(2, i + 1), 30));
+    const { revisions } = calculateHandicapHistory([...bad, ...good]);
+
+    const on = (date: string) => revisions.find((r) => r.date === date)!;
+    expect(on(day(1, 3)).handicapIndex).toBe(8);
+    expect(on(day(1, 19)).lowHandicapIndex).toBeNull();
+    expect(on(day(1, 20))).toMatchObject({ handicapIndex: 10, lowHandicapIndex: 8, cap: null });
+
+    // 7 of the 10s left among the last 20: (7 × 10 + 30) / 8 = 12.5
+    expect(on(day(2, 13))).toMatchObject({ handicapIndex: 11.8, cap: 'soft' });
+    expect(on(day(2, 20))).toMatchObject({ handicapIndex: 13, cap: 'hard' });
+  });
+
+  it('should post rated saved rounds and keep the index on the profile', async () => {
+    const player: PlayerProfile = { id: 'jay', name: 'Jay Patel', aliases: [], handicapIndex: 20, createdAt: '', updatedAt: '' };
+    const playerStore = createInMemoryPlayerStore();
+    const roundStore = createInMemoryRoundStore();
+    await playerStore.create(player);
+
+    const saved = (id: string, date: string, overPar: number, rated = true): SavedRound => {
+      const scorecard: ExtractedScorecard = {
+        courseName: 'Oak Hills',
+        date,
+        holes,
+        players: [{ name: 'JP', playerId: 'jay', scores: scoresOver(overPar) }],
+        ...(rated ? { courseRating: 72, slopeRating: 113 } : {}),
+      };
+      return { id, scorecard, derived: calculateDerivedScoring(scorecard), history: [], createdAt: '', updatedAt: '' };
+    };
+    const rounds = [saved('a', day(3, 1), 12), saved('b', day(3, 2), 14), saved('c', day(3, 3), 16), saved('d', day(3, 4), 2, false)];
+    for (const round of rounds) {
+      await roundStore.create(round);
+    }
+
+    const record = buildHandicapRecord(player, rounds);
+    expect(record).toMatchObject({ playerId: 'jay', handicapIndex: 10, unratedRounds: 1 });
+    expect(record.scores).toHaveLength(3);
+
+    await refreshHandicapIndexes(['jay', 'someone-else'], playerStore, roundStore);
+    expect((await playerStore.get('jay'))?.handicapIndex).toBe(10);
+
+    // Deleting a round leaves 2 posted scores: no index any more
+    await roundStore.delete('a');
+    await refreshHandicapIndexes(['jay'], playerStore, roundStore);
+    expect((await playerStore.get('jay'))?.handicapIndex).toBeNull();
+  });
+});
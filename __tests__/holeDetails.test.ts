@@ -0,0 +1,96 @@
+/**
+ * Unit tests for putts, fairways, greens in regulation and penalties
+ */
+
+import {
+  applyDetailRows,
+  detectDetailRow,
+  isGreenInRegulation,
+  normalizeHoleDetails,
+  parseFairway,
+  summarizeHoleDetails,
+} from '@/lib/holeDetails';
+import { calculateDerivedScoring } from '@/lib/golfScoring';
+import type { ExtractedScorecard, HoleInfo, PlayerHoleScore } from '@/lib/types';
+
+const holes: HoleInfo[] = [
+  { holeNumber: 1, par: 4 },
+  { holeNumber: 2, par: 3 },
+  { holeNumber: 3, par: 5 },
+];
+
+describe('Hole details', () => {
+  it('should recognize detail row labels', () => {
+    expect(detectDetailRow('Putts')).toBe('putts');
+    expect(detectDetailRow('# Putts')).toBe('putts');
+    expect(detectDetailRow('FIR')).toBe('fairway');
+    expect(detectDetailRow('Fairways')).toBe('fairway');
+    expect(detectDetailRow('Pen')).toBe('penalties');
+    expect(detectDetailRow('Patrick')).toBeNull();
+  });
+
+  it('should parse fairway marks', () => {
+    expect(parseFairway('✓')).toBe('hit');
+    expect(parseFairway('L')).toBe('left');
+    expect(parseFairway('→')).toBe('right');
+    expect(parseFairway('-')).toBe('na');
+    expect(parseFairway('')).toBeUndefined();
+    expect(parseFairway('?')).toBeUndefined();
+  });
+
+  it('should add detail row cells to hole entries', () => {
+    const entry = applyDetailRows(
+      { holeNumber: 1, score: 5 },
+      { putts: ['2', '12'], fairway: ['L', null] },
+      0
+    );
+
+    expect(entry).toEqual({ holeNumber: 1, score: 5, putts: 2, fairway: 'left' });
+    expect(applyDetailRows<PlayerHoleScore>({ holeNumber: 2, score: 3 }, { putts: ['2', '12'] }, 1).putts).toBeNull();
+    expect(normalizeHoleDetails({ putts: 3, fairway: 'hit', penalties: null })).toEqual({ putts: 3, fairway: 'hit' });
+  });
+
+  it('should derive greens in regulation from strokes and putts', () => {
+    expect(isGreenInRegulation(4, 2, 4)).toBe(true);
+    expect(isGreenInRegulation(5, 2, 4)).toBe(false);
+    expect(isGreenInRegulation(3, 2, 3)).toBe(true);
+    expect(isGreenInRegulation(3, 1, 3)).toBe(false);
+    expect(isGreenInRegulation(4, null, 4)).toBeNull();
+  });
+
+  it('should summarize details and add them to the derived scoring', () => {
+    const scorecard: ExtractedScorecard = {
+      courseName: 'Test Course',
+      holes,
+      players: [
+        {
+          name: 'Jay',
+          scores: [
+            { holeNumber: 1, score: 4, putts: 2, fairway: 'hit' },
+            { holeNumber: 2, score: 4, putts: 3, fairway: 'na' },
+            { holeNumber: 3, score: 6, putts: 1, fairway: 'right', penalties: 1 },
+          ],
+        },
+        { name: 'Sam', scores: [{ holeNumber: 1, score: 4 }] },
+      ],
+    };
+
+    expect(summarizeHoleDetails(scorecard.players[0], holes)).toMatchObject({
+      putts: 6,
+      puttsPerHole: 2,
+      onePutts: 1,
+      threePutts: 1,
+      fairwaysHit: 1,
+      fairwaysRight: 1,
+      fairwayChances: 2,
+      greensInRegulation: 2,
+      girChances: 3,
+      penalties: 1,
+    });
+
+    const derived = calculateDerivedScoring(scorecard);
+    expect(derived.holes[0].playerResults[0].greenInRegulation).toBe(true);
+    expect(derived.holes[2].playerResults[0].greenInRegulation).toBe(false);
+    expect(derived.players[1]).not.toHaveProperty('holeDetails');
+  });
+});
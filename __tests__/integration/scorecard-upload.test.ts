@@ -2,25 +2,44 @@
  * Integration tests for scorecard upload and OCR processing
  * 
  * These tests validate the end-to-end flow with real test images
- * to catch regressions in OCR accuracy and notation handling
+ * to catch regressions in OCR accuracy and notation handling.
+ *
+ * They run offline from recorded Textract/Vision responses (see lib/ocrFixtures.ts)
+ * when fixtures exist for an image, and against the live services when credentials
+ * are available. Record fixtures with:
+ *   OCR_FIXTURE_MODE=record npm test -- integration/
+ *
+ * The fixtures of 9hole-standard-D-M-X-J.jpeg are hand-built
+ * (scripts/build-ocr-fixtures.ts), so those tests always run.
  */
 
-import { readFileSync } from 'fs';
+import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { analyzeWithHybridOcr } from '@/lib/hybridOcr';
+import { analyzeWithAdaptiveOcr } from '@/lib/adaptiveOcr';
+import { createFixtureTransport, hasRecordedFixtures } from '@/lib/ocrFixtures';
+import { offlineProvider, registerOcrProvider, resolveOcrProvider } from '@/lib/ocrRegistry';
+import { getOcrTransport, liveTransport } from '@/lib/ocrTransport';
+
+const TEST_IMAGES_DIR = join(process.cwd(), 'test-images');
+
+const replayTransport = createFixtureTransport('replay', liveTransport);
 
 describe('Scorecard Upload Integration', () => {
-  // Skip these tests in CI if AWS/OpenAI credentials aren't available
+  // Skip live tests in CI if AWS/OpenAI credentials aren't available
   const hasCredentials = process.env.AWS_ACCESS_KEY_ID && process.env.OPENAI_API_KEY;
-  const describeIfCredentials = hasCredentials ? describe : describe.skip;
 
-  describeIfCredentials('IMG_5635.jpg - Obstructed scorecard with relative notation', () => {
+  const obstructedImage = readFileSync(join(TEST_IMAGES_DIR, '9hole-relative-obstructed-jay-jessie-wally.jpg'));
+  const obstructedRecorded = hasRecordedFixtures(obstructedImage);
+  const describeIfRunnable = hasCredentials || obstructedRecorded ? describe : describe.skip;
+
+  describeIfRunnable('9hole-relative-obstructed-jay-jessie-wally.jpg - Obstructed scorecard with relative notation', () => {
     let result: any;
 
     beforeAll(async () => {
-      const imagePath = join(process.cwd(), 'test-images', 'IMG_5635.jpg');
-      const imageBuffer = readFileSync(imagePath);
-      result = await analyzeWithHybridOcr(imageBuffer);
+      // Prefer recorded responses; fall back to the env-selected transport (live or record)
+      const transport = obstructedRecorded ? replayTransport : getOcrTransport();
+      result = await analyzeWithHybridOcr(obstructedImage, {}, transport);
     }, 60000); // 60 second timeout for OCR
 
     it('should detect 9 holes', () => {
@@ -88,6 +107,75 @@ describe('Scorecard Upload Integration', () => {
     });
   });
 
+  describe('9hole-standard-D-M-X-J.jpeg - Replayed from hand-built fixtures', () => {
+    const imageBuffer = readFileSync(join(TEST_IMAGES_DIR, '9hole-standard-D-M-X-J.jpeg'));
+    const PARS = [4, 4, 5, 4, 3, 4, 3, 5, 4];
+
+    it('should have fixtures for the card', () => {
+      expect(hasRecordedFixtures(imageBuffer)).toBe(true);
+    });
+
+    it('should read the card with hybrid OCR', async () => {
+      const scorecard = await analyzeWithHybridOcr(imageBuffer, {}, replayTransport);
+
+      expect(scorecard.holes.map((h) => h.par)).toEqual(PARS);
+      expect(scorecard.players.map((p) => p.name)).toEqual(['D', 'M', 'X', 'J']);
+
+      const scores = (name: string) =>
+        scorecard.players.find((p) => p.name === name)!.scores.map((s) => s.score);
+      expect(scores('D')).toEqual([8, 7, 8, 7, 4, 6, 4, 7, 6]);
+      expect(scores('J')).toEqual([5, 6, 6, 4, 4, 6, 3, 6, 6]);
+
+      // Textract read X's circled 6 as an 8 and couldn't read the overwritten 7
+      const x = scorecard.players.find((p) => p.name === 'X')!;
+      expect(x.scores.map((s) => s.score)).toEqual([8, 7, 8, 6, 7, 5, 6, 7, 7]);
+      expect(x.scores[6].source).toBe('vision');
+      expect(x.scores[8].source).toBe('vision');
+    });
+
+    it('should read the card with adaptive OCR', async () => {
+      const scorecard = await analyzeWithAdaptiveOcr(imageBuffer, {}, replayTransport);
+
+      expect(scorecard.holes.map((h) => h.par)).toEqual(PARS);
+      expect(scorecard.players.map((p) => p.name)).toEqual(['D', 'M', 'X', 'J']);
+      expect(scorecard.players[1].scores.map((s) => s.score)).toEqual([6, 4, 7, 5, 4, 5, 4, 7, 5]);
+    });
+
+    it('should serve the card through the offline provider', async () => {
+      // Registered by the app only with OCR_FIXTURE_MODE=replay
+      registerOcrProvider(offlineProvider);
+      const { scorecard } = await resolveOcrProvider('offline').analyze(imageBuffer, {});
+      expect(scorecard.players).toHaveLength(4);
+    });
+
+    it('should fail clearly when a response was never recorded', async () => {
+      await expect(replayTransport.analyzeDocument(Buffer.from('not a recorded image'))).rejects.toThrow(
+        /OCR_FIXTURE_MODE=record/
+      );
+    });
+  });
+
+  describe('Offline replay of test-images', () => {
+    const images = readdirSync(TEST_IMAGES_DIR).filter(name => /\.(jpe?g|png)$/i.test(name));
+
+    images.forEach((name) => {
+      const imageBuffer = readFileSync(join(TEST_IMAGES_DIR, name));
+      const itIfRecorded = hasRecordedFixtures(imageBuffer) ? it : it.skip;
+
+      itIfRecorded(`${name}: hybrid OCR produces a 9 or 18 hole card with players`, async () => {
+        const scorecard = await analyzeWithHybridOcr(imageBuffer, {}, replayTransport);
+        expect([9, 18]).toContain(scorecard.holes.length);
+        expect(scorecard.players.length).toBeGreaterThan(0);
+      });
+
+      itIfRecorded(`${name}: adaptive OCR produces a 9 or 18 hole card with players`, async () => {
+        const scorecard = await analyzeWithAdaptiveOcr(imageBuffer, {}, replayTransport);
+        expect([9, 18]).toContain(scorecard.holes.length);
+        expect(scorecard.players.length).toBeGreaterThan(0);
+      });
+    });
+  });
+
   describe('Regression Prevention', () => {
     it('should maintain par detection accuracy', async () => {
       // Add more test cases here for different scorecard layouts
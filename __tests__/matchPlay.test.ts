@@ -0,0 +1,114 @@
+/**
+ * Unit tests for match play scoring
+ */
+
+import { calculateMatch, calculateMatches, formatMatchStatus } from '@/lib/matchPlay';
+import type { ExtractedScorecard, PlayerInfo } from '@/lib/types';
+
+function player(name: string, scores: (number | null)[], courseHandicap?: number): PlayerInfo {
+  return {
+    name,
+    courseHandicap,
+    scores: scores.map((score, i) => ({ holeNumber: i + 1, score })),
+  };
+}
+
+function scorecard(holeCount: number, players: PlayerInfo[]): ExtractedScorecard {
+  return {
+    courseName: 'Test Course',
+    holes: Array.from({ length: holeCount }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 })),
+    players,
+  };
+}
+
+describe('Match play', () => {
+  it('should format the match status', () => {
+    expect(formatMatchStatus(0, 5, ['Jay', 'Sam'])).toBe('AS');
+    expect(formatMatchStatus(2, 5, ['Jay', 'Sam'])).toBe('Jay 2 UP');
+    expect(formatMatchStatus(-3, 3, ['Jay', 'Sam'])).toBe('Sam 3 UP (dormie)');
+  });
+
+  it('should close out a singles match early', () => {
+    const jay = Array.from({ length: 18 }, (_, i) => (i < 3 ? 4 : 5));
+    const sam = Array(18).fill(5);
+    const result = calculateMatch(
+      { format: 'singles', sides: [['Jay'], ['Sam']] },
+      scorecard(18, [player('Jay', jay), player('Sam', sam)])
+    );
+
+    expect(result.holes[14].status).toBe('Jay 3 UP (dormie)');
+    expect(result.holes).toHaveLength(16);
+    expect(result.finished).toBe(true);
+    expect(result.winner).toBe(0);
+    expect(result.result).toBe('3&2');
+    expect(result.status).toBe('Jay wins 3&2');
+  });
+
+  it('should give the higher handicap the full difference in singles', () => {
+    const result = calculateMatch(
+      { format: 'singles', sides: [['Jay'], ['Sam']] },
+      scorecard(2, [player('Jay', [4, 4], 3), player('Sam', [5, 4], 4)])
+    );
+
+    // Sam receives 1 stroke on hole 1 (stroke index 1): 5 net 4 halves the hole
+    expect(result.strokesReceived).toEqual([{ name: 'Jay', strokes: 0 }, { name: 'Sam', strokes: 1 }]);
+    expect(result.holes[0].winner).toBeNull();
+    expect(result.result).toBe('AS');
+    expect(result.status).toBe('Match halved');
+    expect(result.winner).toBeNull();
+  });
+
+  it('should use the better net ball of each pair in four-ball', () => {
+    const result = calculateMatch(
+      { format: 'four-ball', sides: [['Jay', 'Sam'], ['Kim', 'Lee']] },
+      scorecard(3, [
+        player('Jay', [5, 4, 3], 0),
+        player('Sam', [4, 4, 4], 0),
+        player('Kim', [5, 5, 4], 0),
+        player('Lee', [5, 5, 4], 2),
+      ])
+    );
+
+    // 90% of 2 rounds to 2 strokes for Lee, on holes 1 and 2
+    expect(result.strokesReceived.find((s) => s.name === 'Lee')?.strokes).toBe(2);
+    expect(result.holes.map((h) => h.sideScores)).toEqual([[4, 4], [4, 4], [3, 4]]);
+    expect(result.result).toBe('1 UP');
+    expect(result.status).toBe('Jay & Sam wins 1 UP');
+  });
+
+  it('should give foursomes pairs half of their combined handicap difference', () => {
+    const result = calculateMatch(
+      { format: 'foursomes', sides: [['Jay', 'Sam'], ['Kim', 'Lee']] },
+      scorecard(18, [
+        player('Jay', Array(18).fill(5), 10),
+        player('Sam', Array(18).fill(null), 10),
+        player('Kim', Array(18).fill(4), 4),
+        player('Lee', Array(18).fill(null), 4),
+      ])
+    );
+
+    expect(result.strokesReceived).toEqual([
+      { name: 'Jay & Sam', strokes: 6 },
+      { name: 'Kim & Lee', strokes: 0 },
+    ]);
+    expect(result.holes[0].winner).toBeNull();
+    expect(result.holes[6].winner).toBe(1);
+  });
+
+  it('should report a match in progress and skip matches with unknown players', () => {
+    const card = {
+      ...scorecard(18, [player('Jay', [3, null]), player('Sam', [4, null])]),
+      matches: [
+        { format: 'singles' as const, sides: [['Jay'], ['Sam']] as [string[], string[]] },
+        { format: 'singles' as const, sides: [['Jay'], ['Pat']] as [string[], string[]] },
+      ],
+    };
+
+    const results = calculateMatches(card);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe('Jay 1 UP thru 1');
+    expect(results[0].finished).toBe(false);
+    expect(results[0].result).toBeNull();
+  });
+});
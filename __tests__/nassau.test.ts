@@ -0,0 +1,82 @@
+/**
+ * Unit tests for Nassau bets and settlement
+ */
+
+import { calculateNassau, DEFAULT_NASSAU_SETTINGS, formatNassauBet } from '@/lib/nassau';
+import type { ExtractedScorecard, PlayerInfo } from '@/lib/types';
+
+function player(name: string, scores: (number | null)[], courseHandicap?: number): PlayerInfo {
+  return { name, courseHandicap, scores: scores.map((score, i) => ({ holeNumber: i + 1, score })) };
+}
+
+function scorecard(players: PlayerInfo[]): ExtractedScorecard {
+  return {
+    courseName: 'Test Course',
+    holes: Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 })),
+    players,
+  };
+}
+
+describe('Nassau', () => {
+  it('should settle front, back and overall bets with auto presses', () => {
+    const jay = Array(18).fill(4);
+    const sam = [5, 5, ...Array(16).fill(4)];
+
+    const result = calculateNassau(scorecard([player('Jay', jay), player('Sam', sam)]), DEFAULT_NASSAU_SETTINGS);
+    const bets = result.matches[0].bets;
+
+    expect(bets.map((b) => b.name)).toEqual([
+      'Front 9',
+      'Back 9',
+      'Overall',
+      'Front 9 press (from 3)',
+      'Overall press (from 3)',
+    ]);
+    expect(bets[0]).toMatchObject({ margin: 2, decided: true, winner: 'Jay' });
+    expect(bets[1].winner).toBeNull();
+    expect(bets[3]).toMatchObject({ startHole: 3, endHole: 9, margin: 0, decided: true });
+    expect(result.matches[0].balance).toBe(10);
+    expect(result.ledger).toEqual([{ from: 'Sam', to: 'Jay', amount: 10 }]);
+  });
+
+  it('should press a press', () => {
+    const jay = Array(18).fill(4);
+    const sam = [5, 5, 5, 5, ...Array(14).fill(4)];
+
+    const result = calculateNassau(
+      scorecard([player('Jay', jay), player('Sam', sam)]),
+      { ...DEFAULT_NASSAU_SETTINGS, stake: 2 }
+    );
+    const names = result.matches[0].bets.map((b) => b.name);
+
+    expect(names).toContain('Front 9 press (from 3)');
+    expect(names).toContain('Front 9 press (from 5)');
+    // Front, front press, overall, overall press won; front press (from 5) and the rest pushed
+    expect(result.matches[0].balance).toBe(8);
+  });
+
+  it('should settle stroke play on net nine totals', () => {
+    const jay = Array(18).fill(4);
+    const sam = [5, 5, ...Array(16).fill(4)];
+
+    const result = calculateNassau(
+      scorecard([player('Jay', jay, 0), player('Sam', sam, 2)]),
+      { ...DEFAULT_NASSAU_SETTINGS, mode: 'net', format: 'stroke', pressDown: 0 }
+    );
+
+    expect(result.matches[0].bets.map((b) => b.margin)).toEqual([0, 0, 0]);
+    expect(result.ledger).toEqual([]);
+  });
+
+  it('should leave unfinished bets undecided', () => {
+    const jay = [3, ...Array(17).fill(null)];
+    const sam = [4, ...Array(17).fill(null)];
+
+    const result = calculateNassau(scorecard([player('Jay', jay), player('Sam', sam)]), DEFAULT_NASSAU_SETTINGS);
+    const front = result.matches[0].bets[0];
+
+    expect(front.decided).toBe(false);
+    expect(formatNassauBet(front, ['Jay', 'Sam'], 'match')).toBe('Jay 1 UP');
+    expect(result.ledger).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for per-cell OCR confidence scoring
+ */
+
+import {
+  assessCellConfidence,
+  confidenceLevel,
+  findLowConfidenceCells,
+  withConfidence,
+  LOW_CONFIDENCE_THRESHOLD,
+} from '@/lib/ocrConfidence';
+import type { ExtractedScorecard } from '@/lib/types';
+
+describe('OCR Confidence', () => {
+  describe('assessCellConfidence', () => {
+    it('should give high confidence when Textract and Vision agree', () => {
+      const result = assessCellConfidence({ par: 4, textract: 5, textractConfidence: 0.9, vision: 5 });
+
+      expect(result.score).toBe(5);
+      expect(result.source).toBe('textract');
+      expect(result.value).toBeCloseTo(0.98);
+      expect(result.level).toBe('high');
+      expect(result.reasons).toContain('Textract and Vision agree');
+    });
+
+    it('should not trust a plausible score just because it is close to par', () => {
+      // A 4→5 misread is one over par, but the readers disagree
+      const result = assessCellConfidence({ par: 4, textract: 5, textractConfidence: 0.95, vision: 4 });
+
+      expect(result.score).toBe(5);
+      expect(result.level).toBe('low');
+      expect(result.value).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+      expect(result.reasons).toContain('Textract read 5, Vision read 4');
+    });
+
+    it('should let a second Vision read break the tie', () => {
+      const keepsTextract = assessCellConfidence({ par: 4, textract: 5, vision: 4, secondPass: 5 });
+      expect(keepsTextract.score).toBe(5);
+      expect(keepsTextract.source).toBe('textract');
+      expect(keepsTextract.level).toBe('medium');
+
+      const switchesToVision = assessCellConfidence({ par: 4, textract: 9, vision: 4, secondPass: 4 });
+      expect(switchesToVision.score).toBe(4);
+      expect(switchesToVision.source).toBe('vision');
+      expect(switchesToVision.level).toBe('medium');
+    });
+
+    it('should use Textract word confidence when Vision has no reading', () => {
+      expect(assessCellConfidence({ par: 4, textract: 4, textractConfidence: 0.97 }).value).toBeCloseTo(0.97);
+      expect(assessCellConfidence({ par: 4, textract: 4, textractConfidence: 0.4 }).level).toBe('low');
+    });
+
+    it('should reduce confidence for implausible scores', () => {
+      const plausible = assessCellConfidence({ par: 3, textract: 4, vision: 4 });
+      const implausible = assessCellConfidence({ par: 3, textract: 9, vision: 9 });
+
+      expect(implausible.value).toBeLessThan(plausible.value);
+      expect(implausible.reasons.some((r) => r.includes('6 over par'))).toBe(true);
+    });
+
+    it('should report no score when nothing was read', () => {
+      const result = assessCellConfidence({ par: 4, textract: null, vision: null });
+
+      expect(result.score).toBeNull();
+      expect(result.value).toBe(0);
+    });
+  });
+
+  describe('confidenceLevel', () => {
+    it('should map values to levels', () => {
+      expect(confidenceLevel(0.95)).toBe('high');
+      expect(confidenceLevel(0.6)).toBe('medium');
+      expect(confidenceLevel(0.2)).toBe('low');
+    });
+  });
+
+  describe('findLowConfidenceCells', () => {
+    it('should flag filled-in cells below the threshold', () => {
+      const low = assessCellConfidence({ par: 4, textract: 5, vision: 4 });
+      const high = assessCellConfidence({ par: 4, textract: 4, vision: 4 });
+
+      const scorecard: ExtractedScorecard = {
+        courseName: 'Test Course',
+        holes: [{ holeNumber: 1, par: 4 }, { holeNumber: 2, par: 4 }, { holeNumber: 3, par: 4 }],
+        players: [
+          {
+            name: 'Jay',
+            scores: [
+              withConfidence({ holeNumber: 1, score: null }, low),
+              withConfidence({ holeNumber: 2, score: null }, high),
+              { holeNumber: 3, score: null, confidence: 'low' },
+            ],
+          },
+        ],
+      };
+
+      const cells = findLowConfidenceCells(scorecard);
+
+      expect(cells).toHaveLength(1);
+      expect(cells[0]).toMatchObject({ playerName: 'Jay', holeNumber: 1, score: 5 });
+      expect(cells[0].reasons.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for OCR accuracy evaluation
+ */
+
+import {
+  evaluateScorecard,
+  evaluateFailedCard,
+  aggregateEvaluations,
+  accuracyRatio,
+} from '@/lib/ocrEvaluation';
+import type { ExtractedScorecard } from '@/lib/types';
+
+const truth: ExtractedScorecard = {
+  courseName: 'Test Course',
+  holes: [
+    { holeNumber: 1, par: 4, yardage: 380, handicap: 5 },
+    { holeNumber: 2, par: 3 },
+    { holeNumber: 3, par: 5, handicap: 1 },
+  ],
+  players: [
+    {
+      name: 'Jay',
+      scores: [
+        { holeNumber: 1, score: 4 },
+        { holeNumber: 2, score: 7 },
+        { holeNumber: 3, score: 5 },
+      ],
+    },
+    {
+      name: 'Wally',
+      scores: [
+        { holeNumber: 1, score: 5 },
+        { holeNumber: 2, score: 3 },
+        { holeNumber: 3, score: 6 },
+      ],
+    },
+  ],
+};
+
+describe('OCR Evaluation', () => {
+  describe('evaluateScorecard', () => {
+    it('should score a perfect extraction as fully correct', () => {
+      const result = evaluateScorecard(truth, truth);
+
+      expect(result.fields.par).toEqual({ correct: 3, total: 3 });
+      expect(result.fields.yardage).toEqual({ correct: 1, total: 1 });
+      expect(result.fields.handicap).toEqual({ correct: 2, total: 2 });
+      expect(result.fields.playerName).toEqual({ correct: 2, total: 2 });
+      expect(result.fields.score).toEqual({ correct: 6, total: 6 });
+      expect(result.confusionPairs).toEqual({});
+      expect(result.missingScores).toBe(0);
+    });
+
+    it('should record confusion pairs as expected→read', () => {
+      const extracted: ExtractedScorecard = {
+        ...truth,
+        players: [
+          {
+            name: 'jay',
+            scores: [
+              { holeNumber: 1, score: 9 },
+              { holeNumber: 2, score: 1 },
+              { holeNumber: 3, score: null },
+            ],
+          },
+          truth.players[1],
+        ],
+      };
+
+      const result = evaluateScorecard(extracted, truth);
+
+      expect(result.fields.playerName).toEqual({ correct: 2, total: 2 });
+      expect(result.fields.score).toEqual({ correct: 3, total: 6 });
+      expect(result.confusionPairs).toEqual({ '4→9': 1, '7→1': 1 });
+      expect(result.missingScores).toBe(1);
+    });
+
+    it('should count scores of unmatched players as missing', () => {
+      const extracted: ExtractedScorecard = {
+        ...truth,
+        players: [{ ...truth.players[0], name: 'Jey' }, truth.players[1]],
+      };
+
+      const result = evaluateScorecard(extracted, truth);
+
+      expect(result.fields.playerName).toEqual({ correct: 1, total: 2 });
+      expect(result.missingScores).toBe(3);
+    });
+  });
+
+  describe('aggregateEvaluations', () => {
+    it('should sum fields and confusion pairs across cards', () => {
+      const extracted: ExtractedScorecard = {
+        ...truth,
+        holes: [{ holeNumber: 1, par: 4 }, { holeNumber: 2, par: 3 }, { holeNumber: 3, par: 4 }],
+        players: [
+          { name: 'Jay', scores: [{ holeNumber: 1, score: 9 }, { holeNumber: 2, score: 7 }, { holeNumber: 3, score: 5 }] },
+          truth.players[1],
+        ],
+      };
+
+      const result = aggregateEvaluations(
+        'hybrid',
+        [evaluateScorecard(extracted, truth), evaluateScorecard(extracted, truth)],
+        [evaluateFailedCard(truth)]
+      );
+
+      expect(result.cards).toBe(3);
+      expect(result.failures).toBe(1);
+      expect(result.fields.par).toEqual({ correct: 4, total: 6 });
+      expect(result.fields.yardage).toEqual({ correct: 0, total: 2 });
+      expect(result.confusionPairs).toEqual({ '4→9': 2 });
+      expect(accuracyRatio(result.fields.score)).toBeCloseTo(10 / 12);
+
+      // The failed card's 3 pars and 6 scores count as wrong
+      expect(result.fieldsWithFailures.par).toEqual({ correct: 4, total: 9 });
+      expect(result.fieldsWithFailures.score).toEqual({ correct: 10, total: 18 });
+      expect(result.missingScores).toBe(0);
+    });
+
+    it('should report no ratio when nothing was compared', () => {
+      expect(accuracyRatio({ correct: 0, total: 0 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for a player's history across saved rounds
+ */
+
+import { buildPlayerHistory, calculateTrend, roundPlayedAt } from '@/lib/playerHistory';
+import { calculateDerivedScoring } from '@/lib/golfScoring';
+import type { ExtractedScorecard, HoleInfo, PlayerProfile, SavedRound } from '@/lib/types';
+
+const player: PlayerProfile = { id: 'jay', name: 'Jay Patel', aliases: [], createdAt: '', updatedAt: '' };
+
+// Par 4s
+const holes: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4 }));
+
+let nextId = 0;
+
+function savedRound(date: string, courseName: string, scores: number[], playerId = 'jay'): SavedRound {
+  const scorecard: ExtractedScorecard = {
+    courseName,
+    date,
+    holes: holes.slice(0, scores.length),
+    players: [
+      { name: 'JP', playerId, scores: scores.map((score, i) => ({ holeNumber: i + 1, score })) },
+      { name: 'Sam', scores: scores.map((_, i) => ({ holeNumber: i + 1, score: 4 })) },
+    ],
+  };
+  nextId++;
+  return {
+    id: `round-${nextId}`,
+    scorecard,
+    derived: calculateDerivedScoring(scorecard),
+    history: [],
+    createdAt: `2024-01-01T00:00:0${nextId % 10}.000Z`,
+    updatedAt: '',
+  };
+}
+
+// 18 holes at `toPar` over par, on the first holes
+function scoresToPar(toPar: number, count = 18): number[] {
+  return Array.from({ length: count }, (_, i) => (i < toPar ? 5 : 4));
+}
+
+describe('Player history', () => {
+  it('should read the date a round was played', () => {
+    expect(roundPlayedAt(savedRound('2024-05-04', 'Oak', [4]))).toBe('2024-05-04');
+    expect(roundPlayedAt(savedRound('May 4, 2024', 'Oak', [4]))).toBe('2024-05-04');
+    expect(roundPlayedAt(savedRound('sunny', 'Oak', [4]))).toBe('2024-01-01');
+  });
+
+  it('should calculate the scoring trend', () => {
+    expect(calculateTrend([10, 8, 6, 4])).toMatchObject({ slopePerRound: -2, recentAverageToPar: 7, change: null });
+    expect(calculateTrend([10, 10])).toMatchObject({ slopePerRound: null });
+
+    const trend = calculateTrend([12, 12, 12, 12, 12, 8, 8, 8, 8, 8]);
+    expect(trend.previousAverageToPar).toBe(12);
+    expect(trend.change).toBe(-4);
+  });
+
+  it('should summarize the linked rounds in date order', () => {
+    const history = buildPlayerHistory(player, [
+      savedRound('2024-06-01', 'Oak Hills', [3, 6, ...scoresToPar(2, 16)]), // birdie, double: +3
+      savedRound('2024-05-01', 'Oak Hills', scoresToPar(9)),
+      savedRound('2024-07-01', 'Pine Valley', scoresToPar(2, 9)), // 9 holes: +2 = +4 per 18
+      savedRound('2024-08-01', 'Oak Hills', scoresToPar(1), 'someone-else'),
+    ]);
+
+    expect(history.rounds.map((r) => r.playedAt)).toEqual(['2024-05-01', '2024-06-01', '2024-07-01']);
+    expect(history.rounds.map((r) => r.toParPer18)).toEqual([9, 3, 4]);
+    expect(history.holesPlayed).toBe(45);
+    expect(history.averageToPar).toBe(5.33);
+    expect(history.birdieRate).toBeCloseTo(1 / 45, 3);
+    expect(history.doubleBogeyRate).toBeCloseTo(1 / 45, 3);
+    expect(history.trend.slopePerRound).toBe(-2.5);
+  });
+
+  it('should find course bests and hole averages on repeated courses', () => {
+    const history = buildPlayerHistory(player, [
+      savedRound('2024-05-01', 'Oak Hills', scoresToPar(9)),
+      savedRound('2024-06-01', 'Oak Hills', scoresToPar(3)),
+      savedRound('2024-06-15', 'Oak Hills', scoresToPar(0, 9)),
+      savedRound('2024-07-01', 'Pine Valley', scoresToPar(5)),
+    ]);
+
+    expect(history.courseBests).toHaveLength(2);
+    expect(history.courseBests[0]).toMatchObject({
+      courseName: 'Oak Hills',
+      rounds: 3,
+      bestScore: 75, // The 9-hole 36 isn't compared with 18-hole rounds
+      bestToPar: 3,
+      bestPlayedAt: '2024-06-01',
+      averageScore: 78,
+    });
+
+    expect(history.holeAverages).toHaveLength(1);
+    const oak = history.holeAverages[0];
+    expect(oak.holes[0]).toEqual({ holeNumber: 1, par: 4, played: 3, averageScore: 4.67, averageToPar: 0.67 });
+    expect(oak.holes[17]).toMatchObject({ played: 2, averageScore: 4 });
+  });
+});
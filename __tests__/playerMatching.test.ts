@@ -0,0 +1,80 @@
+/**
+ * Unit tests for linking card names to the player registry
+ */
+
+import { applyPlayerLink, linkScorecardPlayers, matchPlayerName, nameSimilarity } from '@/lib/playerMatching';
+import { addPlayerAlias, createPlayer, parsePlayerInput } from '@/lib/players';
+import { createInMemoryPlayerStore } from '@/lib/playerStore';
+import type { ExtractedScorecard, PlayerProfile } from '@/lib/types';
+
+function profile(id: string, name: string, aliases: string[] = []): PlayerProfile {
+  return { id, name, aliases, handicapIndex: null, createdAt: '', updatedAt: '' };
+}
+
+const registry = [
+  profile('jay', 'Jay Patel', ['JAY']),
+  profile('sam', 'Sam Ortiz'),
+  profile('sue', 'Sue Park'),
+];
+
+function card(names: string[]): ExtractedScorecard {
+  return {
+    courseName: 'Test Course',
+    holes: [{ holeNumber: 1, par: 4 }],
+    players: names.map((name) => ({ name, scores: [{ holeNumber: 1, score: 4 }] })),
+  };
+}
+
+describe('Player matching', () => {
+  it('should score shortened names and misreads', () => {
+    expect(nameSimilarity('JAY PATEL', 'Jay Patel')).toBe(1);
+    expect(nameSimilarity('Jay P.', 'Jay Patel')).toBe(0.9);
+    expect(nameSimilarity('JP', 'Jay Patel')).toBe(0.85);
+    expect(nameSimilarity('Jay', 'Jay Patel')).toBe(0.8);
+    expect(nameSimilarity('Sam 0rtiz', 'Sam Ortiz')).toBeCloseTo(0.88, 2);
+    expect(nameSimilarity('Bob', 'Jay Patel')).toBeLessThan(0.6);
+  });
+
+  it('should link clear matches and ask about unclear ones', () => {
+    expect(matchPlayerName('jay', registry)).toMatchObject({ status: 'linked', playerId: 'jay' });
+    expect(matchPlayerName('Sam O.', registry)).toMatchObject({ status: 'linked', playerId: 'sam' });
+
+    // "S." fits both Sam and Sue
+    const unclear = matchPlayerName('S. P.', [profile('sam', 'Sam Parr'), profile('sue', 'Sue Park')]);
+    expect(unclear.status).toBe('ambiguous');
+    expect(unclear.candidates.map((c) => c.playerId)).toEqual(['sam', 'sue']);
+
+    const firstNameOnly = matchPlayerName('Sue', registry);
+    expect(firstNameOnly.status).toBe('ambiguous');
+    expect(firstNameOnly.playerId).toBeUndefined();
+    expect(matchPlayerName('Bob', registry)).toMatchObject({ status: 'unknown', candidates: [] });
+  });
+
+  it('should not link two card players to the same registered player', () => {
+    const links = linkScorecardPlayers(card(['Jay', 'Jay Patel', 'Sam Ortiz']), registry);
+
+    expect(links.map((link) => link.status)).toEqual(['ambiguous', 'ambiguous', 'linked']);
+  });
+
+  it('should keep existing links and apply confirmed ones', () => {
+    const linkedCard = applyPlayerLink(card(['Jay Smith']), 'Jay Smith', 'jay');
+    expect(linkedCard.players[0].playerId).toBe('jay');
+    expect(linkScorecardPlayers(linkedCard, registry)[0]).toMatchObject({ status: 'linked', playerId: 'jay' });
+
+    expect(applyPlayerLink(linkedCard, 'Jay Smith', null).players[0]).not.toHaveProperty('playerId');
+  });
+
+  it('should register players and remember confirmed aliases', async () => {
+    const store = createInMemoryPlayerStore();
+    const player = await createPlayer({ name: 'Jay Patel', aliases: ['jay patel', 'JAY'] }, store);
+    expect(player.aliases).toEqual(['JAY']);
+
+    const updated = await addPlayerAlias(player.id, 'JP', store);
+    expect(updated?.aliases).toEqual(['JAY', 'JP']);
+    expect(matchPlayerName('JP', [updated!])).toMatchObject({ status: 'linked', playerId: player.id });
+
+    expect(() => parsePlayerInput({ name: ' ' }, true)).toThrow();
+    expect(() => parsePlayerInput({ handicapIndex: 60 }, false)).toThrow();
+    expect(parsePlayerInput({ handicapIndex: -2.1 }, false)).toEqual({ handicapIndex: -2.1 });
+  });
+});
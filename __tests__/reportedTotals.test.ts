@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the handwritten OUT/IN/TOTAL cross-check
+ */
+
+import {
+  checkReportedTotals,
+  checkScorecardTotals,
+  extractReportedTotals,
+  parseReportedTotal,
+} from '@/lib/reportedTotals';
+import type { ExtractedScorecard, HoleInfo, PlayerInfo } from '@/lib/types';
+
+const holes: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4 }));
+
+function player(scores: (number | null)[], reported: Partial<PlayerInfo> = {}): PlayerInfo {
+  return {
+    name: 'Jay',
+    scores: scores.map((score, i) => ({ holeNumber: i + 1, score })),
+    ...reported,
+  };
+}
+
+// 4 on every hole except a 5 on 3 and 12: OUT 37, IN 37, TOTAL 74
+const card = [4, 4, 5, 4, 4, 4, 4, 4, 4, 4, 4, 5, 4, 4, 4, 4, 4, 4];
+
+describe('Reported Totals', () => {
+  describe('parseReportedTotal', () => {
+    it('should read gross totals as written', () => {
+      expect(parseReportedTotal('37', 36)).toBe(37);
+      expect(parseReportedTotal(74, 72)).toBe(74);
+    });
+
+    it('should convert relative totals using the segment par', () => {
+      expect(parseReportedTotal('+3', 36)).toBe(39);
+      expect(parseReportedTotal('-1', 36)).toBe(35);
+      expect(parseReportedTotal('E', 36)).toBe(36);
+      expect(parseReportedTotal('5', 36, 'relative')).toBe(41);
+    });
+
+    it('should return null for missing or unreadable values', () => {
+      expect(parseReportedTotal(null, 36)).toBeNull();
+      expect(parseReportedTotal('', 36)).toBeNull();
+      expect(parseReportedTotal('x', 36)).toBeNull();
+    });
+  });
+
+  describe('extractReportedTotals', () => {
+    it('should pick up OUT/IN/TOTAL columns', () => {
+      const reported = extractReportedTotals(
+        [
+          { holeNumber: 1, score: 4 },
+          { holeNumber: 'OUT', score: 37 },
+          { holeNumber: 'in', score: '+1' },
+          { holeNumber: 'Total', score: 74 },
+        ],
+        holes
+      );
+
+      expect(reported).toEqual({ reportedFrontNine: 37, reportedBackNine: 37, reportedTotal: 74 });
+    });
+  });
+
+  describe('checkReportedTotals', () => {
+    it('should return null when the totals match', () => {
+      const result = checkReportedTotals(
+        player(card, { reportedFrontNine: 37, reportedBackNine: 37, reportedTotal: 74 }),
+        holes
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('should suggest a commonly confused digit on the mismatching nine', () => {
+      // Hole 5 was a 4 but OCR read 9
+      const misread = [...card];
+      misread[4] = 9;
+
+      const result = checkReportedTotals(
+        player(misread, { reportedFrontNine: 37, reportedBackNine: 37, reportedTotal: 74 }),
+        holes
+      );
+
+      expect(result?.mismatches).toContainEqual({ segment: 'front', reported: 37, calculated: 42, difference: -5 });
+      expect(result?.suggestions[0]).toMatchObject({ holeNumber: 5, currentScore: 9, suggestedScore: 4 });
+      expect(result?.suggestions.every((s) => s.holeNumber <= 9)).toBe(true);
+    });
+
+    it('should prefer low-confidence cells', () => {
+      const result = checkReportedTotals(
+        {
+          ...player(card, { reportedFrontNine: 36 }),
+          scores: player(card).scores.map((s) =>
+            s.holeNumber === 7 ? { ...s, confidence: 'low' as const } : s
+          ),
+        },
+        holes
+      );
+
+      expect(result?.suggestions[0]).toMatchObject({ holeNumber: 7, currentScore: 4, suggestedScore: 3 });
+    });
+
+    it('should fill a single missing hole from the total', () => {
+      const missing: (number | null)[] = [...card];
+      missing[11] = null;
+
+      const result = checkReportedTotals(player(missing, { reportedBackNine: 37 }), holes);
+
+      expect(result?.suggestions).toHaveLength(1);
+      expect(result?.suggestions[0]).toMatchObject({ holeNumber: 12, currentScore: null, suggestedScore: 5 });
+    });
+
+    it('should blame the TOTAL cell when OUT and IN both match', () => {
+      const result = checkReportedTotals(
+        player(card, { reportedFrontNine: 37, reportedBackNine: 37, reportedTotal: 79 }),
+        holes
+      );
+
+      expect(result?.suggestions).toHaveLength(0);
+      expect(result?.notes.some((n) => n.includes('TOTAL on the card (79)'))).toBe(true);
+      expect(result?.notes.some((n) => n.includes('does not equal TOTAL'))).toBe(true);
+    });
+  });
+
+  describe('checkScorecardTotals', () => {
+    it('should only report players with findings', () => {
+      const scorecard: ExtractedScorecard = {
+        courseName: 'Test Course',
+        holes,
+        players: [
+          { ...player(card, { reportedTotal: 74 }), name: 'Jay' },
+          { ...player(card, { reportedTotal: 75 }), name: 'Sam' },
+          { ...player(card), name: 'Alex' },
+        ],
+      };
+
+      const checks = checkScorecardTotals(scorecard);
+
+      expect(checks).toHaveLength(1);
+      expect(checks[0].playerName).toBe('Sam');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for extended round statistics
+ */
+
+import { calculateRoundStats } from '@/lib/roundStats';
+import type { HoleInfo, PlayerInfo } from '@/lib/types';
+
+// Pars 4,3,5 repeating; stroke index 1 on hole 1, 2 on hole 2, ...
+const holes: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({
+  holeNumber: i + 1,
+  par: [4, 3, 5][i % 3],
+  handicap: i + 1,
+}));
+
+function player(toPar: (number | null)[]): PlayerInfo {
+  return {
+    name: 'Jay',
+    scores: toPar.map((diff, i) => ({ holeNumber: i + 1, score: diff === null ? null : holes[i].par + diff })),
+  };
+}
+
+describe('Round stats', () => {
+  it('should average scores by par type', () => {
+    const stats = calculateRoundStats(player([0, 1, -1, 0, 1, -1, ...Array(12).fill(0)]), holes);
+
+    expect(stats.byPar.map((p) => p.par)).toEqual([3, 4, 5]);
+    expect(stats.byPar[0]).toMatchObject({ holesPlayed: 6, averageToPar: 0.33 });
+    expect(stats.byPar[1].averageScore).toBe(4);
+    expect(stats.byPar[2].averageToPar).toBe(-0.33);
+  });
+
+  it('should compare the hardest and easiest holes by stroke index', () => {
+    const stats = calculateRoundStats(player([...Array(6).fill(2), ...Array(6).fill(0), ...Array(6).fill(-1)]), holes);
+
+    expect(stats.hardestHoles.holeNumbers).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(stats.hardestHoles.averageToPar).toBe(2);
+    expect(stats.easiestHoles.averageToPar).toBe(-1);
+  });
+
+  it('should count bounce-backs and the longest par streak', () => {
+    // Bogey-birdie, double-par, bogey-birdie, then a missing hole breaks the streak
+    const stats = calculateRoundStats(
+      player([1, -1, 2, 0, 1, -1, 0, 0, null, 0, 0, 0, 0, 0, 1, 0, 0, 0]),
+      holes
+    );
+
+    expect(stats.bounceBacks).toBe(2);
+    expect(stats.bounceBackChances).toBe(4);
+    expect(stats.bounceBackRate).toBe(0.5);
+    expect(stats.longestParStreak).toBe(5);
+  });
+
+  it('should split the front and back nines', () => {
+    const stats = calculateRoundStats(player([...Array(9).fill(1), ...Array(9).fill(0)]), holes);
+
+    expect(stats.frontNineToPar).toBe(9);
+    expect(stats.backNineToPar).toBe(0);
+    expect(stats.splitDifference).toBe(-9);
+  });
+
+  it('should leave the split empty for a 9-hole round', () => {
+    const stats = calculateRoundStats(player(Array(9).fill(0)), holes.slice(0, 9));
+
+    expect(stats.backNineToPar).toBeNull();
+    expect(stats.splitDifference).toBeNull();
+    expect(stats.hardestHoles.holeNumbers).toEqual([1, 2, 3]);
+  });
+});
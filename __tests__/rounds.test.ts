@@ -0,0 +1,148 @@
+/**
+ * Unit tests for saved rounds and the round stores
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileRoundStore, createInMemoryRoundStore } from '@/lib/roundStore';
+import { createFileRoundImageStore, createInMemoryRoundImageStore, roundImageType } from '@/lib/roundImageStore';
+import {
+  attachRoundImage,
+  createRound,
+  deleteRound,
+  loadRoundImage,
+  parseScorecard,
+  toRoundSummary,
+  updateRound,
+} from '@/lib/rounds';
+import type { ExtractedScorecard } from '@/lib/types';
+
+const scorecard: ExtractedScorecard = {
+  courseName: 'Test Course',
+  date: '2024-05-04',
+  holes: [{ holeNumber: 1, par: 4 }, { holeNumber: 2, par: 3 }],
+  players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: 3 }] }],
+};
+
+describe('Rounds', () => {
+  it('should save a round with its derived scoring and image reference', async () => {
+    const store = createInMemoryRoundStore();
+    const round = await createRound({ scorecard, image: { fileName: 'card.jpg', size: 1024 } }, store);
+
+    const saved = await store.get(round.id);
+    expect(saved?.derived.players[0].totalScore).toBe(8);
+    expect(saved?.image).toEqual({ fileName: 'card.jpg', size: 1024 });
+    expect(saved?.history).toEqual([]);
+    expect(toRoundSummary(saved!)).toMatchObject({ courseName: 'Test Course', players: ['Jay'], edits: 0 });
+  });
+
+  it('should record edits in the history', async () => {
+    const store = createInMemoryRoundStore();
+    const round = await createRound({ scorecard }, store);
+
+    const edited: ExtractedScorecard = {
+      ...scorecard,
+      players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: 4 }, { holeNumber: 2, score: 3 }] }],
+    };
+    const updated = await updateRound(round.id, edited, 'Fixed hole 1', store);
+
+    expect(updated?.derived.players[0].totalScore).toBe(7);
+    expect(updated?.history).toHaveLength(1);
+    expect(updated?.history[0].note).toBe('Fixed hole 1');
+    expect(updated?.history[0].changes).toEqual([
+      { field: 'score', holeNumber: 1, playerName: 'Jay', extracted: 4, expected: 5 },
+    ]);
+
+    // Saving the same scorecard again adds nothing
+    const unchanged = await updateRound(round.id, edited, undefined, store);
+    expect(unchanged?.history).toHaveLength(1);
+    expect(await updateRound('missing', edited, undefined, store)).toBeNull();
+  });
+
+  it('should record filled-in and cleared values in the history', async () => {
+    const store = createInMemoryRoundStore();
+    const blank: ExtractedScorecard = {
+      ...scorecard,
+      players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: null }] }],
+    };
+    const round = await createRound({ scorecard: blank }, store);
+
+    const edited: ExtractedScorecard = {
+      ...scorecard,
+      holes: [{ holeNumber: 1, par: 4, yardage: 380 }, { holeNumber: 2, par: 3 }],
+      players: [{ name: 'Jay', scores: [{ holeNumber: 1, score: null }, { holeNumber: 2, score: 3 }] }],
+    };
+    const updated = await updateRound(round.id, edited, undefined, store);
+
+    expect(updated?.history[0].changes).toEqual([
+      { field: 'yardage', holeNumber: 1, extracted: 380, expected: null },
+      { field: 'score', holeNumber: 1, playerName: 'Jay', extracted: null, expected: 5 },
+      { field: 'score', holeNumber: 2, playerName: 'Jay', extracted: 3, expected: null },
+    ]);
+  });
+
+  it('should store the source image and remove it with the round', async () => {
+    const store = createInMemoryRoundStore();
+    const imageStore = createInMemoryRoundImageStore();
+    const round = await createRound({ scorecard }, store);
+    // A PNG named .jpg is stored as the PNG it is
+    const bytes = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('pixels')]);
+
+    const withImage = await attachRoundImage(round.id, { fileName: 'card.jpg', bytes }, store, imageStore);
+    expect(withImage?.image).toEqual({ fileName: 'card.jpg', contentType: 'image/png', size: bytes.length, storageKey: round.id });
+    expect((await loadRoundImage(withImage!, imageStore))?.equals(bytes)).toBe(true);
+    expect(await attachRoundImage('missing', { fileName: 'x.jpg', bytes }, store, imageStore)).toBeNull();
+
+    // Whatever the file is called, markup is never stored
+    const html = Buffer.from('<html><script>alert(document.cookie)</script></html>');
+    await expect(attachRoundImage(round.id, { fileName: 'x.jpg', bytes: html }, store, imageStore)).rejects.toThrow('Invalid image');
+    expect(roundImageType(Buffer.from('\0\0\0\x18ftypheic', 'latin1'))).toBe('image/heic');
+
+    expect(await deleteRound(round.id, store, imageStore)).toBe(true);
+    expect(await imageStore.load(round.id)).toBeNull();
+    expect(await deleteRound(round.id, store, imageStore)).toBe(false);
+  });
+
+  it('should reject bodies that are not scorecards', () => {
+    expect(() => parseScorecard(null)).toThrow();
+    expect(() => parseScorecard({ courseName: 'X', holes: [] })).toThrow();
+    expect(parseScorecard(scorecard)).toBe(scorecard);
+  });
+
+  it('should keep rounds in files', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rounds-'));
+    try {
+      const store = createFileRoundStore(dir);
+      const first = await createRound({ scorecard }, store);
+      const second = await createRound({ scorecard: { ...scorecard, courseName: 'Other Course' } }, store);
+      await updateRound(first.id, { ...scorecard, courseName: 'Renamed' }, undefined, store);
+
+      // A new store over the same directory sees the same rounds
+      const reopened = createFileRoundStore(dir);
+      const rounds = await reopened.list();
+      expect(rounds).toHaveLength(2);
+      expect(rounds.find((r) => r.id === first.id)?.scorecard.courseName).toBe('Renamed');
+
+      expect(await reopened.get('../secrets')).toBeNull();
+      expect(await reopened.delete(second.id)).toBe(true);
+      expect(await reopened.delete(second.id)).toBe(false);
+      expect(await reopened.list()).toHaveLength(1);
+
+      // Concurrent writes to one round are applied in order
+      const updates = await Promise.all(
+        [0, 1, 2, 3, 4].map((i) => store.update(first.id, { provider: `provider-${i}` }))
+      );
+      expect(updates.map((r) => r?.provider)).toEqual(['provider-0', 'provider-1', 'provider-2', 'provider-3', 'provider-4']);
+      expect((await reopened.get(first.id))?.provider).toBe('provider-4');
+      expect(fs.readdirSync(dir).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+
+      const images = createFileRoundImageStore(path.join(dir, 'images'));
+      await images.save(first.id, Buffer.from([1, 2, 3]));
+      expect(Array.from((await images.load(first.id)) ?? [])).toEqual([1, 2, 3]);
+      expect(await images.load('../secrets')).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
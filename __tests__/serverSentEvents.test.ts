@@ -0,0 +1,36 @@
+/**
+ * Unit tests for the server-sent events helpers
+ */
+
+import { createSseParser, formatSseEvent } from '@/lib/serverSentEvents';
+
+describe('Server-Sent Events', () => {
+  it('should round-trip events split across chunks', () => {
+    const received: { event: string; data: unknown }[] = [];
+    const parse = createSseParser((event, data) => received.push({ event, data: JSON.parse(data) }));
+
+    const stream =
+      formatSseEvent('progress', { stage: 'textract', message: 'Found 18 holes and 4 players' }) +
+      formatSseEvent('result', { ok: true });
+
+    // Feed the stream in awkward pieces
+    parse(stream.slice(0, 10));
+    parse(stream.slice(10, 40));
+    expect(received).toHaveLength(0);
+    parse(stream.slice(40));
+
+    expect(received).toEqual([
+      { event: 'progress', data: { stage: 'textract', message: 'Found 18 holes and 4 players' } },
+      { event: 'result', data: { ok: true } },
+    ]);
+  });
+
+  it('should default the event name and handle CRLF line endings', () => {
+    const received: string[] = [];
+    const parse = createSseParser((event, data) => received.push(`${event}:${data}`));
+
+    parse('data: 1\r\n\r\n: comment\r\n\r\n');
+
+    expect(received).toEqual(['message:1']);
+  });
+});
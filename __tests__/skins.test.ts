@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the skins game calculation
+ */
+
+import { calculateSkins, DEFAULT_SKINS_SETTINGS } from '@/lib/skins';
+import { calculateDerivedScoring } from '@/lib/golfScoring';
+import type { ExtractedScorecard } from '@/lib/types';
+
+function derivedHoles(scores: Record<string, (number | null)[]>, handicaps: Record<string, number> = {}) {
+  const holeCount = Object.values(scores)[0].length;
+  const scorecard: ExtractedScorecard = {
+    courseName: 'Test Course',
+    holes: Array.from({ length: holeCount }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 })),
+    players: Object.entries(scores).map(([name, playerScores]) => ({
+      name,
+      courseHandicap: handicaps[name],
+      scores: playerScores.map((score, i) => ({ holeNumber: i + 1, score })),
+    })),
+  };
+  return calculateDerivedScoring(scorecard).holes;
+}
+
+describe('Skins', () => {
+  it('should carry tied holes over to the next outright winner', () => {
+    const holes = derivedHoles({
+      Jay: [4, 4, 3, 5],
+      Sam: [4, 4, 4, 4],
+      Kim: [5, 4, 4, 5],
+    });
+
+    const result = calculateSkins(holes, DEFAULT_SKINS_SETTINGS);
+
+    expect(result.holes.map((h) => h.winner)).toEqual([null, null, 'Jay', 'Sam']);
+    expect(result.holes[2].skins).toBe(3);
+    expect(result.players).toEqual([
+      { name: 'Jay', skins: 3, payout: 15 },
+      { name: 'Sam', skins: 1, payout: 5 },
+      { name: 'Kim', skins: 0, payout: 0 },
+    ]);
+    expect(result.unclaimedSkins).toBe(0);
+  });
+
+  it('should drop tied skins without carryovers', () => {
+    const holes = derivedHoles({ Jay: [4, 3], Sam: [4, 4] });
+
+    const result = calculateSkins(holes, { ...DEFAULT_SKINS_SETTINGS, carryover: false });
+
+    expect(result.holes[0].note).toBe('Tied by Jay, Sam');
+    expect(result.holes[1].skins).toBe(1);
+  });
+
+  it('should require a birdie to win when validating', () => {
+    const holes = derivedHoles({ Jay: [4, 3, 4], Sam: [5, 5, 4] });
+
+    const result = calculateSkins(holes, { ...DEFAULT_SKINS_SETTINGS, validation: 'birdie' });
+
+    expect(result.holes[0].winner).toBeNull();
+    expect(result.holes[0].note).toBe('Jay did not make birdie to win');
+    expect(result.holes[1]).toMatchObject({ winner: 'Jay', skins: 2 });
+    expect(result.unclaimedSkins).toBe(1);
+  });
+
+  it('should use net scores in net mode', () => {
+    const holes = derivedHoles({ Jay: [4, 4], Sam: [4, 5] }, { Sam: 1 });
+
+    const gross = calculateSkins(holes, DEFAULT_SKINS_SETTINGS);
+    const net = calculateSkins(holes, { ...DEFAULT_SKINS_SETTINGS, mode: 'net', valuePerSkin: 10 });
+
+    expect(gross.holes.map((h) => h.winner)).toEqual([null, 'Jay']);
+    expect(net.holes.map((h) => h.winner)).toEqual(['Sam', 'Jay']);
+    expect(net.players.find((p) => p.name === 'Sam')?.payout).toBe(10);
+  });
+});
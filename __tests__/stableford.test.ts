@@ -0,0 +1,55 @@
+/**
+ * Unit tests for Stableford points scoring
+ */
+
+import { MODIFIED_STABLEFORD, STANDARD_STABLEFORD, stablefordPoints } from '@/lib/stableford';
+import { calculateDerivedScoring } from '@/lib/golfScoring';
+import type { ExtractedScorecard } from '@/lib/types';
+
+describe('Stableford', () => {
+  it('should award standard points by score relative to par', () => {
+    expect(stablefordPoints(3, 4)).toBe(3);
+    expect(stablefordPoints(4, 4)).toBe(2);
+    expect(stablefordPoints(5, 4)).toBe(1);
+    expect(stablefordPoints(9, 4)).toBe(0);
+    expect(stablefordPoints(2, 5)).toBe(5);
+    expect(stablefordPoints(null, 4)).toBeNull();
+  });
+
+  it('should award modified points, including negatives', () => {
+    expect(stablefordPoints(3, 4, MODIFIED_STABLEFORD)).toBe(2);
+    expect(stablefordPoints(4, 4, MODIFIED_STABLEFORD)).toBe(0);
+    expect(stablefordPoints(5, 4, MODIFIED_STABLEFORD)).toBe(-1);
+    expect(stablefordPoints(8, 4, MODIFIED_STABLEFORD)).toBe(-3);
+    expect(stablefordPoints(1, 4, MODIFIED_STABLEFORD)).toBe(8);
+  });
+
+  it('should use handicap strokes for net points', () => {
+    expect(stablefordPoints(5, 4, STANDARD_STABLEFORD, 1)).toBe(2);
+    expect(stablefordPoints(6, 4, STANDARD_STABLEFORD, 2)).toBe(2);
+  });
+
+  it('should support custom tables', () => {
+    const table = { name: 'Club', points: { [-1]: 4, 0: 2, 1: 1 } };
+    expect(stablefordPoints(2, 4, table)).toBe(4);
+    expect(stablefordPoints(7, 4, table)).toBe(1);
+  });
+
+  it('should add gross and net points to the derived scoring', () => {
+    const scorecard: ExtractedScorecard = {
+      courseName: 'Test Course',
+      holes: [{ holeNumber: 1, par: 4, handicap: 1 }, { holeNumber: 2, par: 3, handicap: 2 }],
+      players: [
+        { name: 'Jay', courseHandicap: 1, scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: 2 }] },
+      ],
+      stableford: MODIFIED_STABLEFORD,
+    };
+
+    const derived = calculateDerivedScoring(scorecard);
+
+    expect(derived.stablefordSystem).toBe('Modified');
+    expect(derived.players[0].stablefordPoints).toBe(1);
+    expect(derived.players[0].netStablefordPoints).toBe(2);
+    expect(derived.holes[0].playerResults[0]).toMatchObject({ stablefordPoints: -1, netStablefordPoints: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for team formats and the team leaderboard
+ */
+
+import { calculateTeamScoring } from '@/lib/teamScoring';
+import type { ExtractedScorecard, TeamSettings } from '@/lib/types';
+
+function scorecard(scores: Record<string, (number | null)[]>, teams: TeamSettings, handicaps: Record<string, number> = {}): ExtractedScorecard {
+  const holeCount = Object.values(scores)[0].length;
+  return {
+    courseName: 'Test Course',
+    holes: Array.from({ length: holeCount }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 })),
+    players: Object.entries(scores).map(([name, playerScores]) => ({
+      name,
+      courseHandicap: handicaps[name],
+      scores: playerScores.map((score, i) => ({ holeNumber: i + 1, score })),
+    })),
+    teams,
+  };
+}
+
+const SCORES = {
+  Jay: [4, 5, 3],
+  Sam: [5, 4, 5],
+  Kim: [4, 4, 4],
+  Lee: [6, 4, 4],
+};
+
+const TEAMS = [
+  { name: 'Eagles', players: ['Jay', 'Sam'] },
+  { name: 'Hawks', players: ['Kim', 'Lee'] },
+];
+
+describe('Team scoring', () => {
+  it('should count the best ball of each team', () => {
+    const result = calculateTeamScoring(
+      scorecard(SCORES, { format: 'best-ball', ballsCounting: 1, mode: 'gross', teams: TEAMS })
+    )!;
+
+    expect(result.teams.map((t) => t.name)).toEqual(['Eagles', 'Hawks']);
+    expect(result.teams[0].holes.map((h) => h.score)).toEqual([4, 4, 3]);
+    expect(result.teams[0].holes[1].counted).toEqual(['Sam']);
+    expect(result.teams[0]).toMatchObject({ total: 11, toPar: -1, position: 1, tied: false });
+    expect(result.teams[1]).toMatchObject({ total: 12, toPar: 0, position: 2 });
+  });
+
+  it('should count two best balls against double par', () => {
+    const result = calculateTeamScoring(
+      scorecard(SCORES, { format: 'best-ball', ballsCounting: 2, mode: 'gross', teams: TEAMS })
+    )!;
+
+    expect(result.teams[0].holes[0]).toMatchObject({ score: 9, par: 8 });
+    expect(result.teams.map((t) => t.toPar)).toEqual([2, 2]);
+    expect(result.teams.every((t) => t.position === 1 && t.tied)).toBe(true);
+  });
+
+  it('should add every score for aggregate and use net scores when asked', () => {
+    const result = calculateTeamScoring(
+      scorecard(SCORES, { format: 'aggregate', mode: 'net', teams: TEAMS }, { Lee: 3 })
+    )!;
+
+    const hawks = result.teams.find((t) => t.name === 'Hawks')!;
+    expect(hawks.holes.map((h) => h.score)).toEqual([9, 7, 7]);
+    expect(hawks.toPar).toBe(-1);
+    expect(result.teams[0].name).toBe('Hawks');
+  });
+
+  it('should score a scramble from the team row and wait for missing scores', () => {
+    const result = calculateTeamScoring(
+      scorecard(
+        { 'Team A': [3, 4, null], 'Team B': [4, 4, 4] },
+        {
+          format: 'scramble',
+          mode: 'gross',
+          teams: [{ name: 'Team A', players: ['Team A'] }, { name: 'Team B', players: ['Team B'] }],
+        }
+      )
+    )!;
+
+    expect(result.teams[0]).toMatchObject({ name: 'Team A', holesPlayed: 2, toPar: -1 });
+    expect(result.teams[0].holes[2].score).toBeNull();
+  });
+
+  it('should return null without teams', () => {
+    expect(calculateTeamScoring({ courseName: 'Test', holes: [], players: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for scorecard diffing against reference data
+ */
+
+import { diffScorecards, countScoreConfusions } from '@/lib/validation';
+import type { ExtractedScorecard } from '@/lib/types';
+
+const reference: ExtractedScorecard = {
+  courseName: 'Test Course',
+  holes: [
+    { holeNumber: 1, par: 4, yardage: 293, handicap: 4 },
+    { holeNumber: 2, par: 5 },
+  ],
+  players: [
+    { name: 'Nop', scores: [{ holeNumber: 1, score: 4 }, { holeNumber: 2, score: 7 }] },
+    { name: 'John', scores: [{ holeNumber: 1, score: 5 }, { holeNumber: 2, score: 6 }] },
+  ],
+};
+
+describe('Validation', () => {
+  describe('diffScorecards', () => {
+    it('should return no discrepancies for a matching scorecard', () => {
+      expect(diffScorecards(reference, reference)).toEqual([]);
+    });
+
+    it('should report hole field differences with extracted and expected values', () => {
+      const extracted: ExtractedScorecard = {
+        ...reference,
+        holes: [
+          { holeNumber: 1, par: 4, yardage: 298 },
+          { holeNumber: 2, par: 3, yardage: 480 },
+        ],
+      };
+
+      expect(diffScorecards(extracted, reference)).toEqual([
+        { field: 'yardage', holeNumber: 1, extracted: 298, expected: 293 },
+        { field: 'handicap', holeNumber: 1, extracted: null, expected: 4 },
+        { field: 'par', holeNumber: 2, extracted: 3, expected: 5 },
+      ]);
+    });
+
+    it('should report score differences under the extracted player name', () => {
+      const extracted: ExtractedScorecard = {
+        ...reference,
+        players: [
+          { name: 'NOP', scores: [{ holeNumber: 1, score: 9 }, { holeNumber: 2, score: 1 }] },
+          reference.players[1],
+        ],
+      };
+
+      const discrepancies = diffScorecards(extracted, reference);
+
+      expect(discrepancies).toEqual([
+        { field: 'score', holeNumber: 1, playerName: 'NOP', extracted: 9, expected: 4 },
+        { field: 'score', holeNumber: 2, playerName: 'NOP', extracted: 1, expected: 7 },
+      ]);
+      expect(countScoreConfusions(discrepancies)).toEqual({ '4→9': 1, '7→1': 1 });
+    });
+
+    it('should report missing and unexpected players', () => {
+      const extracted: ExtractedScorecard = {
+        ...reference,
+        players: [reference.players[0], { name: 'Jon', scores: [] }],
+      };
+
+      const discrepancies = diffScorecards(extracted, reference);
+
+      expect(discrepancies).toContainEqual({ field: 'playerName', playerName: 'John', extracted: null, expected: 'John' });
+      expect(discrepancies).toContainEqual({ field: 'playerName', playerName: 'Jon', extracted: 'Jon', expected: null });
+      expect(discrepancies.filter((d) => d.field === 'score' && d.extracted === null)).toHaveLength(2);
+      expect(countScoreConfusions(discrepancies)).toEqual({});
+    });
+
+    it('should not modify the extracted scorecard', () => {
+      const extracted: ExtractedScorecard = JSON.parse(JSON.stringify(reference));
+      extracted.holes[0].par = 3;
+
+      diffScorecards(extracted, reference);
+
+      expect(extracted.holes[0].par).toBe(3);
+    });
+  });
+});
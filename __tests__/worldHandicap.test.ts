@@ -0,0 +1,88 @@
+/**
+ * Unit tests for World Handicap System round calculations
+ */
+
+import {
+  calculateCourseHandicap,
+  calculateScoreDifferential,
+  evaluateHandicapRound,
+  netDoubleBogey,
+} from '@/lib/worldHandicap';
+import type { HoleInfo, PlayerInfo } from '@/lib/types';
+
+const holes18: HoleInfo[] = Array.from({ length: 18 }, (_, i) => ({ holeNumber: i + 1, par: 4, handicap: i + 1 }));
+const tee18 = { courseRating: 71.2, slopeRating: 128, par: 72 };
+
+function player(scores: (number | null)[]): PlayerInfo {
+  return { name: 'Jay', scores: scores.map((score, i) => ({ holeNumber: i + 1, score })) };
+}
+
+describe('World Handicap', () => {
+  it('should calculate the course handicap from index, slope, rating and par', () => {
+    expect(calculateCourseHandicap(10.4, tee18)).toBe(11);
+    expect(calculateCourseHandicap(-1.2, tee18)).toBe(-2);
+    expect(calculateCourseHandicap(10.4, { courseRating: 35.6, slopeRating: 128, par: 36 }, true)).toBe(5);
+  });
+
+  it('should cap hole scores at net double bogey', () => {
+    expect(netDoubleBogey(4, 1)).toBe(7);
+    expect(netDoubleBogey(3, 0)).toBe(5);
+    expect(netDoubleBogey(5, null)).toBe(10);
+  });
+
+  it('should calculate the score differential', () => {
+    expect(calculateScoreDifferential(85, tee18)).toBe(12.2);
+    expect(calculateScoreDifferential(85, tee18, 1)).toBe(11.3);
+  });
+
+  it('should adjust an 18-hole round and produce its differential', () => {
+    // A 10 on hole 1 (SI 1, one stroke with CH 11) is capped at 7
+    const round = evaluateHandicapRound(player([10, ...Array(17).fill(5)]), holes18, tee18, 10.4);
+
+    expect(round.courseHandicap).toBe(11);
+    expect(round.holes[0]).toMatchObject({ score: 10, strokesReceived: 1, maxScore: 7, adjustedScore: 7 });
+    expect(round.adjustedGrossScore).toBe(7 + 17 * 5);
+    expect(round.scoreDifferential).toBe(calculateScoreDifferential(92, tee18));
+    expect(round.acceptable).toBe(true);
+  });
+
+  it('should score unplayed holes with the expected score and reject short rounds', () => {
+    const partial = evaluateHandicapRound(player([...Array(15).fill(5), null, null, null]), holes18, tee18, 10.4);
+    expect(partial.adjustedGrossScore).toBe(15 * 5);
+    expect(partial.holes[17].adjustedScore).toBeNull();
+    expect(partial.acceptable).toBe(true);
+    // (113 / 128) × (75 - 71.2 × 15/18) + 3 × (10.4 × 0.52 + 1.197) / 9 = 13.8 + 2.2
+    expect(partial.scoreDifferential).toBe(16);
+
+    // Without an index there is no expected score for the missing holes
+    const noIndex = evaluateHandicapRound(player([...Array(15).fill(5), null, null, null]), holes18, tee18);
+    expect(noIndex.acceptable).toBe(true);
+    expect(noIndex.scoreDifferential).toBeNull();
+
+    const short = evaluateHandicapRound(player([...Array(9).fill(5), ...Array(9).fill(null)]), holes18, tee18, 10.4);
+    expect(short.acceptable).toBe(false);
+    expect(short.scoreDifferential).toBeNull();
+  });
+
+  it('should cap at par + 5 without a handicap index', () => {
+    const round = evaluateHandicapRound(player([10, ...Array(17).fill(4)]), holes18, tee18);
+
+    expect(round.courseHandicap).toBeNull();
+    expect(round.holes[0].adjustedScore).toBe(9);
+  });
+
+  it('should turn a 9-hole round into an 18-hole differential', () => {
+    const nine = holes18.slice(0, 9);
+    const round = evaluateHandicapRound(
+      player(Array(9).fill(5).map((s, i) => (i < 6 ? s : 4))),
+      nine,
+      { courseRating: 35.6, slopeRating: 128, par: 36 },
+      10.4
+    );
+
+    expect(round.nineHole).toBe(true);
+    expect(round.courseHandicap).toBe(5);
+    expect(round.adjustedGrossScore).toBe(42);
+    expect(round.scoreDifferential).toBe(12.3);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/courses/{id}
+ *
+ * GET: returns the Course
+ *
+ * PUT: updates the course
+ * REQUEST (JSON): any of { name, aliases, location, tees } (tees replaces all tees)
+ * RESPONSE: the updated Course
+ *
+ * DELETE: removes the course (204)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCourseStore } from '@/lib/courseStore';
+import { parseCourseInput, type CourseInput } from '@/lib/courses';
+
+export const runtime = 'nodejs';
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Course not found: ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const course = await getCourseStore().get(params.id);
+
+  if (!course) {
+    return notFound(params.id);
+  }
+
+  return NextResponse.json(course, { status: 200 });
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  let input: CourseInput;
+  try {
+    input = parseCourseInput(await request.json(), false);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const course = await getCourseStore().update(params.id, input);
+    return course ? NextResponse.json(course, { status: 200 }) : notFound(params.id);
+  } catch (error) {
+    console.error('[API /api/courses] Error updating course:', error);
+    return NextResponse.json({ error: 'Failed to update course' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const deleted = await getCourseStore().delete(params.id);
+
+  if (!deleted) {
+    return notFound(params.id);
+  }
+
+  console.log(`[API /api/courses] Deleted course ${params.id}`);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,42 @@
+/**
+ * API Route: /api/courses/match
+ *
+ * Recognizes the course and tee of a scorecard in the course database (see
+ * lib/courseMatching.ts). Uploads do this automatically; this route is for
+ * cards entered or edited by hand.
+ *
+ * REQUEST (JSON): { scorecard: ExtractedScorecard }
+ * RESPONSE: { scorecard, course }
+ * - scorecard: with missing hole values filled from the stored tee
+ * - course: CourseMatch with the values that disagree, or null if no course matched
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupCourse } from '@/lib/courses';
+import { parseScorecard } from '@/lib/rounds';
+import type { ExtractedScorecard } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  let scorecard: ExtractedScorecard;
+  try {
+    scorecard = parseScorecard((await request.json())?.scorecard);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const lookup = await lookupCourse(scorecard);
+    return NextResponse.json(
+      { scorecard: lookup?.scorecard ?? scorecard, course: lookup?.match ?? null },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[API /api/courses/match] Error matching course:', error);
+    return NextResponse.json({ error: 'Failed to match course' }, { status: 500 });
+  }
+}
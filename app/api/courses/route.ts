@@ -0,0 +1,50 @@
+/**
+ * API Route: /api/courses
+ *
+ * The course database (see lib/courses.ts).
+ *
+ * GET: lists courses, most recently updated first
+ * RESPONSE: { courses: Course[] }
+ *
+ * POST: adds a course
+ * REQUEST (JSON):
+ * - name, aliases?, location?
+ * - tees: [{name, courseRating?, slopeRating?, holes: [{holeNumber, par, yardage?, handicap?}]}]
+ * RESPONSE: Course (201)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCourseStore } from '@/lib/courseStore';
+import { createCourse, parseCourseInput, type CourseInput } from '@/lib/courses';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const courses = await getCourseStore().list();
+    return NextResponse.json({ courses }, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/courses] Error listing courses:', error);
+    return NextResponse.json({ error: 'Failed to list courses' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let input: CourseInput;
+  try {
+    input = parseCourseInput(await request.json(), true);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const course = await createCourse({ ...input, name: input.name!, tees: input.tees! });
+    return NextResponse.json(course, { status: 201 });
+  } catch (error) {
+    console.error('[API /api/courses] Error adding course:', error);
+    return NextResponse.json({ error: 'Failed to add course' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * API Route: /api/players/{id}/aliases
+ *
+ * POST: remembers another way the player's name appears on cards, e.g. after
+ * the user confirmed that "JP" on a card is this player
+ * REQUEST (JSON): { alias }
+ * RESPONSE: the updated PlayerProfile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { addPlayerAlias } from '@/lib/players';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  let alias: unknown;
+  try {
+    alias = (await request.json())?.alias;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (typeof alias !== 'string' || !alias.trim()) {
+    return NextResponse.json({ error: 'alias must be a non-empty string' }, { status: 400 });
+  }
+
+  const player = await addPlayerAlias(params.id, alias);
+  if (!player) {
+    return NextResponse.json({ error: `Player not found: ${params.id}` }, { status: 404 });
+  }
+
+  return NextResponse.json(player, { status: 200 });
+}
@@ -0,0 +1,36 @@
+/**
+ * API Route: /api/players/{id}/handicap
+ *
+ * The registered player's WHS handicap record, calculated from the saved
+ * rounds they are linked to that carry a course and slope rating (see
+ * lib/handicaps.ts and lib/handicapIndex.ts).
+ *
+ * RESPONSE: HandicapRecord
+ * - handicapIndex, lowHandicapIndex: current values (null until established)
+ * - scores: every posted round, oldest first, with its differential
+ * - revisions: the index after each day with scores, oldest first
+ * - unratedRounds: linked rounds that couldn't be posted
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerStore } from '@/lib/playerStore';
+import { getRoundStore } from '@/lib/roundStore';
+import { buildHandicapRecord } from '@/lib/handicaps';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const player = await getPlayerStore().get(params.id);
+
+  if (!player) {
+    return NextResponse.json({ error: `Player not found: ${params.id}` }, { status: 404 });
+  }
+
+  try {
+    const record = buildHandicapRecord(player, await getRoundStore().list());
+    return NextResponse.json(record, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/players] Error calculating handicap index:', error);
+    return NextResponse.json({ error: 'Failed to calculate handicap index' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * API Route: /api/players/{id}/history
+ *
+ * The registered player's scoring across all saved rounds they are linked to
+ * (see lib/playerHistory.ts).
+ *
+ * RESPONSE: PlayerHistory
+ * - rounds: one entry per round, oldest first
+ * - averageToPar, birdieRate, doubleBogeyRate, trend
+ * - courseBests and holeAverages (courses played more than once)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerStore } from '@/lib/playerStore';
+import { getRoundStore } from '@/lib/roundStore';
+import { buildPlayerHistory } from '@/lib/playerHistory';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const player = await getPlayerStore().get(params.id);
+
+  if (!player) {
+    return NextResponse.json({ error: `Player not found: ${params.id}` }, { status: 404 });
+  }
+
+  try {
+    const history = buildPlayerHistory(player, await getRoundStore().list());
+    return NextResponse.json(history, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/players] Error building player history:', error);
+    return NextResponse.json({ error: 'Failed to load player history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * API Route: /api/players/{id}
+ *
+ * GET: returns the PlayerProfile
+ *
+ * PUT: updates the player
+ * REQUEST (JSON): any of { name, aliases, handicapIndex }
+ * RESPONSE: the updated PlayerProfile
+ *
+ * DELETE: removes the player from the registry (204); rounds keep their
+ * playerId but no longer link to a profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerStore } from '@/lib/playerStore';
+import { parsePlayerInput, updatePlayer, type PlayerInput } from '@/lib/players';
+
+export const runtime = 'nodejs';
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Player not found: ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const player = await getPlayerStore().get(params.id);
+
+  if (!player) {
+    return notFound(params.id);
+  }
+
+  return NextResponse.json(player, { status: 200 });
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  let input: PlayerInput;
+  try {
+    input = parsePlayerInput(await request.json(), false);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const player = await updatePlayer(params.id, input);
+    return player ? NextResponse.json(player, { status: 200 }) : notFound(params.id);
+  } catch (error) {
+    console.error('[API /api/players] Error updating player:', error);
+    return NextResponse.json({ error: 'Failed to update player' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const deleted = await getPlayerStore().delete(params.id);
+
+  if (!deleted) {
+    return notFound(params.id);
+  }
+
+  console.log(`[API /api/players] Deleted player ${params.id}`);
+  return new NextResponse(null, { status: 204 });
+}
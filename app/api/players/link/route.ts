@@ -0,0 +1,40 @@
+/**
+ * API Route: /api/players/link
+ *
+ * Links the players on a scorecard to the player registry (see
+ * lib/playerMatching.ts).
+ *
+ * REQUEST (JSON): { scorecard: ExtractedScorecard }
+ * RESPONSE: { links: PlayerLink[] }, one per card player in card order:
+ * - linked: playerId is set; the match was clear
+ * - ambiguous: candidates lists the closest registered players to confirm
+ * - unknown: no registered player is close
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerStore } from '@/lib/playerStore';
+import { linkScorecardPlayers } from '@/lib/playerMatching';
+import { parseScorecard } from '@/lib/rounds';
+import type { ExtractedScorecard } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  let scorecard: ExtractedScorecard;
+  try {
+    scorecard = parseScorecard((await request.json())?.scorecard);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const links = linkScorecardPlayers(scorecard, await getPlayerStore().list());
+    return NextResponse.json({ links }, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/players/link] Error linking players:', error);
+    return NextResponse.json({ error: 'Failed to link players' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route: /api/players
+ *
+ * The player registry (see lib/players.ts).
+ *
+ * GET: lists registered players, most recently updated first
+ * RESPONSE: { players: PlayerProfile[] }
+ *
+ * POST: registers a player
+ * REQUEST (JSON): { name, aliases?, handicapIndex? }
+ * RESPONSE: PlayerProfile (201)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerStore } from '@/lib/playerStore';
+import { createPlayer, parsePlayerInput, type PlayerInput } from '@/lib/players';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const players = await getPlayerStore().list();
+    return NextResponse.json({ players }, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/players] Error listing players:', error);
+    return NextResponse.json({ error: 'Failed to list players' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let input: PlayerInput;
+  try {
+    input = parsePlayerInput(await request.json(), true);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof SyntaxError ? 'Request body must be JSON' : (error as Error).message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const player = await createPlayer({ ...input, name: input.name! });
+    return NextResponse.json(player, { status: 201 });
+  } catch (error) {
+    console.error('[API /api/players] Error registering player:', error);
+    return NextResponse.json({ error: 'Failed to register player' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * API Route: /api/rounds/{id}/image
+ *
+ * The scorecard image a saved round was extracted from (see
+ * lib/roundImageStore.ts).
+ *
+ * GET: returns the image bytes (404 if the round has no stored image)
+ *
+ * PUT: stores the image
+ * REQUEST: multipart/form-data with an `image` file (same checks as /api/scorecards)
+ * RESPONSE: the updated SavedRound, its `image` pointing at the stored image
+ *
+ * The content type is always detected from the bytes, never taken from the
+ * upload: only JPEG, PNG, WebP and HEIC images are stored or served, so an
+ * uploaded HTML or SVG file can't be rendered from the app's origin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoundStore } from '@/lib/roundStore';
+import { attachRoundImage, loadRoundImage } from '@/lib/rounds';
+import { roundImageType } from '@/lib/roundImageStore';
+import { sanitizeFilename, validateUploadedFile } from '@/lib/fileValidator';
+
+export const runtime = 'nodejs';
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Round not found: ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const round = await getRoundStore().get(params.id);
+
+  if (!round) {
+    return notFound(params.id);
+  }
+
+  const bytes = await loadRoundImage(round);
+  if (!bytes) {
+    return NextResponse.json({ error: `Round has no stored image: ${params.id}` }, { status: 404 });
+  }
+
+  const contentType = roundImageType(bytes);
+  if (!contentType) {
+    console.warn(`[API /api/rounds] Refusing to serve stored image of round ${params.id}: not a supported image`);
+    return NextResponse.json({ error: 'Stored file is not a supported image' }, { status: 415 });
+  }
+
+  return new NextResponse(new Uint8Array(bytes), {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Disposition': `inline; filename="${sanitizeFilename(round.image?.fileName || 'scorecard')}"`,
+    },
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  let file: File | null;
+  try {
+    file = (await request.formData()).get('image') as File | null;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be multipart form data' }, { status: 400 });
+  }
+
+  const validation = validateUploadedFile(file);
+  if (!validation.valid) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const bytes = Buffer.from(await file!.arrayBuffer());
+  if (!roundImageType(bytes)) {
+    return NextResponse.json(
+      { error: 'Invalid file type. Only JPEG, PNG, WebP and HEIC images can be stored' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const round = await attachRoundImage(params.id, { fileName: file!.name, bytes });
+    return round ? NextResponse.json(round, { status: 200 }) : notFound(params.id);
+  } catch (error) {
+    console.error('[API /api/rounds] Error storing round image:', error);
+    return NextResponse.json({ error: 'Failed to store round image' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * API Route: /api/rounds/{id}
+ *
+ * GET: returns the SavedRound
+ *
+ * PUT: replaces the round's scorecard; the derived scoring is recalculated and
+ * the changes are appended to the round's edit history
+ * REQUEST (JSON):
+ * - scorecard: ExtractedScorecard
+ * - note: optional description of the edit
+ * RESPONSE: the updated SavedRound
+ *
+ * DELETE: removes the round and its stored image (204)
+ *
+ * Updating or deleting a round refreshes the handicap index of the registered
+ * players linked on its card (lib/handicaps.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoundStore } from '@/lib/roundStore';
+import { linkedPlayerIds, refreshHandicapIndexes } from '@/lib/handicaps';
+import { deleteRound, parseScorecard, updateRound } from '@/lib/rounds';
+import type { ExtractedScorecard } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Round not found: ${id}` }, { status: 404 });
+}
+
+async function refreshLinkedPlayers(playerIds: string[]) {
+  await refreshHandicapIndexes(playerIds).catch((error) =>
+    console.warn('[API /api/rounds] Failed to refresh handicap indexes:', error)
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const round = await getRoundStore().get(params.id);
+
+  if (!round) {
+    return notFound(params.id);
+  }
+
+  return NextResponse.json(round, { status: 200 });
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  let body: { scorecard?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let scorecard: ExtractedScorecard;
+  try {
+    scorecard = parseScorecard(body?.scorecard);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid round' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const previous = await getRoundStore().get(params.id);
+    const round = await updateRound(params.id, scorecard, typeof body?.note === 'string' ? body.note : undefined);
+    if (!round) {
+      return notFound(params.id);
+    }
+
+    // Players unlinked by the edit lose the round too
+    await refreshLinkedPlayers([...linkedPlayerIds(round), ...(previous ? linkedPlayerIds(previous) : [])]);
+    return NextResponse.json(round, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/rounds] Error updating round:', error);
+    return NextResponse.json({ error: 'Failed to update round' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  const round = await getRoundStore().get(params.id);
+
+  if (!round || !(await deleteRound(params.id))) {
+    return notFound(params.id);
+  }
+
+  console.log(`[API /api/rounds] Deleted round ${params.id}`);
+  await refreshLinkedPlayers(linkedPlayerIds(round));
+  return new NextResponse(null, { status: 204 });
+}
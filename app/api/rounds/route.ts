@@ -0,0 +1,69 @@
+/**
+ * API Route: /api/rounds
+ *
+ * Saved rounds (see lib/rounds.ts and lib/roundStore.ts).
+ *
+ * GET: lists the saved rounds, most recently updated first
+ * RESPONSE: { rounds: RoundSummary[] }
+ *
+ * POST: saves a round
+ * REQUEST (JSON):
+ * - scorecard: ExtractedScorecard
+ * - image: optional {fileName, contentType?, size?} of the source image
+ * - provider: optional OCR provider the scorecard was extracted with
+ * RESPONSE: SavedRound (201), with the derived scoring calculated on the server
+ *
+ * Saving a round refreshes the handicap index of the registered players
+ * linked on its card (lib/handicaps.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoundStore } from '@/lib/roundStore';
+import { linkedPlayerIds, refreshHandicapIndexes } from '@/lib/handicaps';
+import { createRound, parseImageRef, parseScorecard, toRoundSummary } from '@/lib/rounds';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const rounds = await getRoundStore().list();
+    return NextResponse.json({ rounds: rounds.map(toRoundSummary) }, { status: 200 });
+  } catch (error) {
+    console.error('[API /api/rounds] Error listing rounds:', error);
+    return NextResponse.json({ error: 'Failed to list rounds' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: { scorecard?: unknown; image?: unknown; provider?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let input;
+  try {
+    input = {
+      scorecard: parseScorecard(body?.scorecard),
+      image: parseImageRef(body?.image),
+      provider: typeof body?.provider === 'string' ? body.provider : undefined,
+    };
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid round' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const round = await createRound(input);
+    await refreshHandicapIndexes(linkedPlayerIds(round)).catch((error) =>
+      console.warn('[API /api/rounds] Failed to refresh handicap indexes:', error)
+    );
+    return NextResponse.json(round, { status: 201 });
+  } catch (error) {
+    console.error('[API /api/rounds] Error saving round:', error);
+    return NextResponse.json({ error: 'Failed to save round' }, { status: 500 });
+  }
+}
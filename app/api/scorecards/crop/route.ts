@@ -0,0 +1,83 @@
+/**
+ * API Route: /api/scorecards/crop
+ *
+ * Returns the part of a scorecard image covered by one extracted cell, so the
+ * reviewer can compare the handwritten value with what OCR read.
+ *
+ * REQUEST (multipart/form-data):
+ * - image: The scorecard image that was analyzed
+ * - box: JSON bounding box {left, top, width, height} in 0-1 image coordinates
+ *        (boundingBox / parBoundingBox / nameBoundingBox from /api/scorecards)
+ * - padding: Optional margin around the cell as a fraction of its size (default 0.15)
+ *
+ * RESPONSE: image/png
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateUploadedFile } from '@/lib/fileValidator';
+import { convertHeicToJpeg, isHeicFile } from '@/lib/heicConverter';
+import { cropBoundingBox, parseBoundingBox } from '@/lib/imageCrop';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File | null;
+
+    const validation = validateUploadedFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    let box;
+    try {
+      box = parseBoundingBox(JSON.parse((formData.get('box') as string | null) || 'null'));
+    } catch {
+      box = null;
+    }
+
+    if (!box) {
+      return NextResponse.json(
+        { error: 'Invalid bounding box: expected JSON {left, top, width, height} with values between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const paddingValue = formData.get('padding');
+    const padding = paddingValue === null ? undefined : parseFloat(paddingValue as string);
+    if (padding !== undefined && (isNaN(padding) || padding < 0 || padding > 5)) {
+      return NextResponse.json(
+        { error: 'Invalid padding: expected a number between 0 and 5' },
+        { status: 400 }
+      );
+    }
+
+    let buffer = Buffer.from(await file!.arrayBuffer());
+
+    // Textract analyzed the JPEG conversion of HEIC uploads
+    if (isHeicFile(file!.type, file!.name)) {
+      buffer = Buffer.from(await convertHeicToJpeg(buffer));
+    }
+
+    const crop = await cropBoundingBox(buffer, box, padding);
+
+    return new NextResponse(new Uint8Array(crop), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('[API /api/scorecards/crop] Error cropping cell:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? `Failed to crop cell: ${error.message}` : 'Failed to crop cell' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/scorecards/jobs/{id}/result
+ *
+ * Returns the ScorecardAnalysisResponse of a completed extraction job.
+ *
+ * RESPONSES:
+ * - 200: ScorecardAnalysisResponse (same as POST /api/scorecards)
+ * - 202: ExtractionJobStatus while the job is still queued or running
+ * - 404: Unknown job
+ * - 500: The job failed ({ error })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/jobStore';
+import { toJobStatus } from '@/lib/extractionJobs';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJobStore().get(params.id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Extraction job not found: ${params.id}` },
+      { status: 404 }
+    );
+  }
+
+  if (job.status === 'failed') {
+    return NextResponse.json(
+      { error: job.error || 'Failed to process scorecard' },
+      { status: 500 }
+    );
+  }
+
+  if (job.status !== 'completed' || !job.result) {
+    return NextResponse.json(toJobStatus(job), { status: 202 });
+  }
+
+  return NextResponse.json(job.result, { status: 200 });
+}
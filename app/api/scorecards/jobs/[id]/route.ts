@@ -0,0 +1,30 @@
+/**
+ * API Route: /api/scorecards/jobs/{id}
+ *
+ * Reports the status of an extraction job started with POST /api/scorecards/jobs.
+ *
+ * RESPONSE: ExtractionJobStatus
+ * - status: queued | running | completed | failed
+ * - stage: textract | vision | cleanup | scoring (while running)
+ * - progress: 0-100
+ * - error: set when the job failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/jobStore';
+import { toJobStatus } from '@/lib/extractionJobs';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJobStore().get(params.id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Extraction job not found: ${params.id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(toJobStatus(job), { status: 200 });
+}
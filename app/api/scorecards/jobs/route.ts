@@ -0,0 +1,79 @@
+/**
+ * API Route: /api/scorecards/jobs
+ *
+ * Starts an asynchronous scorecard extraction and returns immediately.
+ *
+ * REQUEST (multipart/form-data): same as POST /api/scorecards
+ * - image: Scorecard image
+ * - provider, holeCount, notationStyle, matches: Optional, as for /api/scorecards
+ *
+ * RESPONSE (202): ExtractionJobStatus with the job id. Then:
+ * - GET /api/scorecards/jobs/{id}         status, stage and progress
+ * - GET /api/scorecards/jobs/{id}/result  the ScorecardAnalysisResponse once completed
+ *
+ * Single-process only: the extraction keeps running after this route has
+ * responded, and jobs are kept in the job store (lib/jobStore.ts, in-memory by
+ * default). Run it on a long-lived Node server; on serverless hosting the
+ * background work may be frozen or stopped and status requests may reach
+ * another instance, so use POST /api/scorecards?stream=1 there.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveOcrProvider } from '@/lib/ocrRegistry';
+import type { OcrProvider } from '@/lib/ocrProvider';
+import { parseMatchDefinitions, parseOcrHints, readImageFile } from '@/lib/scorecardPipeline';
+import { startExtractionJob } from '@/lib/extractionJobs';
+import { validateUploadedFile, sanitizeFilename } from '@/lib/fileValidator';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File | null;
+
+    let provider: OcrProvider;
+    try {
+      provider = resolveOcrProvider(
+        request.nextUrl.searchParams.get('provider') || (formData.get('provider') as string | null)
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown OCR provider' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateUploadedFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    let matches;
+    try {
+      matches = parseMatchDefinitions(formData);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid matches' },
+        { status: 400 }
+      );
+    }
+
+    console.log('[API /api/scorecards/jobs] Queuing extraction for:', sanitizeFilename(file!.name));
+
+    const buffer = await readImageFile(file!);
+    const job = await startExtractionJob(buffer, provider, parseOcrHints(formData), matches);
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error('[API /api/scorecards/jobs] Error starting extraction job:', error);
+
+    return NextResponse.json(
+      { error: `Failed to start extraction job: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -5,12 +5,25 @@
  * 
  * FLOW:
  * 1. Accepts multipart/form-data image upload
- * 2. Uses hybrid OCR approach:
+ * 2. Resolves the OCR provider (`provider` query/form parameter, OCR_PROVIDER env,
+ *    default "hybrid" - see lib/ocrRegistry.ts). The default hybrid approach:
  *    a. Textract analyzes image structure (tables, rows, columns)
  *    b. OpenAI Vision fills gaps in handwritten scores
  *    c. Validates against par values
- * 3. Calculates derived scoring statistics (via lib/golfScoring.ts)
- * 4. Returns both extracted and derived data as JSON
+ * 3. Calculates derived scoring statistics (via lib/scorecardPipeline.ts)
+ * 4. Returns both extracted and derived data as JSON, plus the cells whose OCR
+ *    confidence is low enough that the client should ask for confirmation and
+ *    any handwritten OUT/IN/TOTAL that disagree with the hole scores
+ * 5. Scores the match play matches passed in the optional `matches` form field
+ *    (JSON array of {format, sides, handicapAllowance?}, see lib/matchPlay.ts)
+ *
+ * STREAMING: with `?stream=1` (or `Accept: text/event-stream`) the response is
+ * a server-sent event stream: `progress` events as each stage starts/completes
+ * (structure detected, Vision gap-filling, template warnings, scoring), then a
+ * `result` event with the ScorecardAnalysisResponse or an `error` event.
+ *
+ * For slow extractions use the job API instead (/api/scorecards/jobs): it
+ * returns a job id immediately and reports progress while OCR runs.
  * 
  * WHY HYBRID?
  * - Textract: Excellent at finding table structure
@@ -19,11 +32,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzeWithHybridOcr } from '@/lib/hybridOcr';
-import { calculateDerivedScoring, calculatePlayerTotals } from '@/lib/golfScoring';
+import { resolveOcrProvider } from '@/lib/ocrRegistry';
+import type { OcrHints, OcrProvider } from '@/lib/ocrProvider';
+import type { MatchDefinition } from '@/lib/types';
+import {
+  analyzeScorecard,
+  parseMatchDefinitions,
+  parseOcrHints,
+  readImageFile,
+} from '@/lib/scorecardPipeline';
+import { formatSseEvent } from '@/lib/serverSentEvents';
 import { validateUploadedFile, sanitizeFilename } from '@/lib/fileValidator';
-import { convertHeicToJpeg, isHeicFile } from '@/lib/heicConverter';
-import type { ScorecardAnalysisResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Allow up to 60 seconds for image processing
@@ -36,6 +55,19 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get('image') as File | null;
 
+    // Pick the OCR strategy for this request
+    let provider: OcrProvider;
+    try {
+      provider = resolveOcrProvider(
+        request.nextUrl.searchParams.get('provider') || (formData.get('provider') as string | null)
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown OCR provider' },
+        { status: 400 }
+      );
+    }
+
     // Validate file with security checks
     const validation = validateUploadedFile(file);
     if (!validation.valid) {
@@ -45,6 +77,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Optional match play matches to score
+    let matches: MatchDefinition[];
+    try {
+      matches = parseMatchDefinitions(formData);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid matches' },
+        { status: 400 }
+      );
+    }
+
     // Sanitize filename for logging
     const sanitizedName = sanitizeFilename(file!.name);
 
@@ -54,42 +97,21 @@ export async function POST(request: NextRequest) {
       size: file!.size,
     });
 
-    // Convert file to buffer
-    let buffer = Buffer.from(await file!.arrayBuffer());
+    // Convert file to buffer (HEIC is converted to JPEG)
+    const buffer = await readImageFile(file!);
 
-    // Convert HEIC to JPEG if needed
-    if (isHeicFile(file!.type, file!.name)) {
-      console.log('[API /api/scorecards] HEIC file detected, converting...');
-      const convertedBuffer = await convertHeicToJpeg(buffer);
-      buffer = Buffer.from(convertedBuffer);
+    // Stream progress events instead of a single JSON response when asked to
+    if (wantsEventStream(request)) {
+      return streamAnalysis(buffer, provider, parseOcrHints(formData), matches);
     }
 
-    // Extract structured data using hybrid OCR approach
-    // (Textract for structure + Vision fills gaps only)
-    console.log('[API /api/scorecards] Starting hybrid OCR extraction...');
-    const extracted = await analyzeWithHybridOcr(buffer);
-
-    // Calculate Out/In/Total for each player (auto-calculated from scores)
-    console.log('[API /api/scorecards] Calculating player totals (Out/In/Total)...');
-    const withTotals = {
-      ...extracted,
-      players: extracted.players.map((player: any) => calculatePlayerTotals(player)),
-    };
-
-    // Calculate derived scoring statistics
-    console.log('[API /api/scorecards] Calculating derived scoring...');
-    const derived = calculateDerivedScoring(withTotals);
-
-    // Prepare response
-    const response: ScorecardAnalysisResponse = {
-      extracted: withTotals,
-      derived,
-    };
+    // Extract, total and score with the selected OCR provider
+    const response = await analyzeScorecard(buffer, provider, parseOcrHints(formData), undefined, matches);
 
     console.log('[API /api/scorecards] Successfully processed scorecard:', {
-      course: withTotals.courseName,
-      holes: withTotals.holes.length,
-      players: withTotals.players.length,
+      course: response.extracted.courseName,
+      holes: response.extracted.holes.length,
+      players: response.extracted.players.length,
     });
 
     return NextResponse.json(response, { status: 200 });
@@ -109,3 +131,81 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Whether the client asked for server-sent events (?stream=1 or Accept: text/event-stream)
+ */
+function wantsEventStream(request: NextRequest): boolean {
+  const stream = request.nextUrl.searchParams.get('stream');
+  return stream === '1' || stream === 'true' ||
+    (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Runs the analysis, streaming a `progress` event per pipeline step and a final
+ * `result` (ScorecardAnalysisResponse) or `error` event
+ */
+function streamAnalysis(
+  buffer: Buffer,
+  provider: OcrProvider,
+  hints: OcrHints,
+  matches: MatchDefinition[]
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; the analysis runs on but nothing is sent
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const response = await analyzeScorecard(buffer, provider, hints, (event) => send('progress', event), matches);
+
+        console.log('[API /api/scorecards] Successfully processed scorecard (streamed):', {
+          course: response.extracted.courseName,
+          holes: response.extracted.holes.length,
+          players: response.extracted.players.length,
+        });
+
+        send('result', response);
+      } catch (error) {
+        console.error('[API /api/scorecards] Error processing scorecard:', error);
+        send('error', {
+          error: error instanceof Error ? `Failed to process scorecard: ${error.message}` : 'Failed to process scorecard',
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      console.log('[API /api/scorecards] Client disconnected from the analysis stream');
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -5,18 +5,37 @@
  * - ScorecardUpload: Upload and analyze golf scorecard images
  * - ScorecardEditor: View and edit extracted scorecard data
  * - AIAssistantPanel: Get AI insights about the round
+ * - SavedRounds: Reopen rounds saved through /api/rounds
+ * - PlayerLinkPanel: Confirm which registered player each name on the card is
+ * - CourseMatchPanel: Course/tee recognized in the course database and disagreements
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import Link from 'next/link';
 import ScorecardUpload from '@/components/ScorecardUpload';
 import ScorecardEditor from '@/components/ScorecardEditor';
 import AdditionalPlayersUpload from '@/components/AdditionalPlayersUpload';
+import ManualJsonInput from '@/components/ManualJsonInput';
 import PWAInstall from '@/components/PWAInstall';
+import SavedRounds from '@/components/SavedRounds';
+import PlayerLinkPanel from '@/components/PlayerLinkPanel';
+import CourseMatchPanel from '@/components/CourseMatchPanel';
 import { calculateDerivedScoring } from '@/lib/golfScoring';
 import { mergePlayers, validateScorecardCompatibility, getMergeSummary } from '@/lib/mergeScorecards';
-import type { ExtractedScorecard, DerivedScoring, ScorecardAnalysisResponse } from '@/lib/types';
+import { applyPlayerLink } from '@/lib/playerMatching';
+import { applyStoredHoleValues } from '@/lib/courseMatching';
+import type {
+  Course,
+  CourseDisagreement,
+  CourseMatch,
+  DerivedScoring,
+  ExtractedScorecard,
+  PlayerLink,
+  SavedRound,
+  ScorecardAnalysisResponse,
+} from '@/lib/types';
 
 export default function Home() {
   const [scorecard, setScorecard] = useState<ExtractedScorecard | null>(null);
@@ -24,17 +43,175 @@ export default function Home() {
   const [showAddPlayers, setShowAddPlayers] = useState(false);
   const [mergeError, setMergeError] = useState<string | null>(null);
   const [mergeSuccess, setMergeSuccess] = useState<string | null>(null);
+  const [reference, setReference] = useState<ExtractedScorecard | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [roundId, setRoundId] = useState<string | null>(null);
+  // Round on screen, read by image loads that finish after another round was opened
+  const openedRoundRef = useRef<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [unsavedChanges, setUnsavedChanges] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [playerLinks, setPlayerLinks] = useState<PlayerLink[]>([]);
+  const [courseMatch, setCourseMatch] = useState<CourseMatch | null>(null);
 
-  const handleAnalysisComplete = (data: ScorecardAnalysisResponse) => {
+  // Links the names on the card to the player registry; ambiguous names wait for the user
+  const linkPlayers = async (card: ExtractedScorecard) => {
+    try {
+      const response = await fetch('/api/players/link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scorecard: card }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to link players');
+      }
+
+      const links: PlayerLink[] = data.links;
+      const newlyLinked = links.filter(
+        (link) => link.status === 'linked' && card.players.find((p) => p.name === link.cardName)?.playerId !== link.playerId
+      );
+      if (newlyLinked.length > 0) {
+        setScorecard((prev) =>
+          prev && newlyLinked.reduce((linked, link) => applyPlayerLink(linked, link.cardName, link.playerId!), prev)
+        );
+      }
+      setPlayerLinks(links);
+    } catch (error) {
+      // The registry is optional: the round works without linked players
+      console.warn('[linkPlayers] Could not link players:', error);
+    }
+  };
+
+  const handlePlayerLink = (cardName: string, playerId: string | null) => {
+    setScorecard((prev) => prev && applyPlayerLink(prev, cardName, playerId));
+    setUnsavedChanges(true);
+    setPlayerLinks((prev) =>
+      playerId
+        ? prev.map((link) => (link.cardName === cardName ? { ...link, status: 'linked', playerId } : link))
+        : prev.filter((link) => link.cardName !== cardName)
+    );
+  };
+
+  const handleAnalysisComplete = (data: ScorecardAnalysisResponse, uploadedImage: File) => {
     console.log('[handleAnalysisComplete] Received data:', data);
     console.log('[handleAnalysisComplete] Setting scorecard with players:', data.extracted.players.length);
     setScorecard(data.extracted);
     setDerived(data.derived);
+    setImageFile(uploadedImage);
+    setRoundId(null);
+    openedRoundRef.current = null;
+    setUnsavedChanges(true);
+    setCourseMatch(data.course ?? null);
+    void linkPlayers(data.extracted);
+  };
+
+  const handleUseStoredHoleValues = (disagreements: CourseDisagreement[]) => {
+    setScorecard((prev) => prev && applyStoredHoleValues(prev, disagreements));
+    setUnsavedChanges(true);
+    setCourseMatch((prev) =>
+      prev && { ...prev, disagreements: prev.disagreements.filter((d) => !disagreements.includes(d)) }
+    );
+  };
+
+  const handleCourseAdded = (course: Course) => {
+    setScorecard((prev) => prev && { ...prev, courseId: course.id });
+    setUnsavedChanges(true);
+    setCourseMatch({
+      courseId: course.id,
+      courseName: course.name,
+      teeName: course.tees[0].name,
+      score: 1,
+      filled: 0,
+      disagreements: [],
+    });
   };
 
   const handleScorecardChange = (updatedScorecard: ExtractedScorecard, updatedDerived: DerivedScoring) => {
     setScorecard(updatedScorecard);
     setDerived(updatedDerived);
+    setUnsavedChanges(true);
+  };
+
+  const handleOpenRound = (round: SavedRound) => {
+    console.log('[handleOpenRound] Opening saved round:', round.id);
+    openedRoundRef.current = round.id;
+    setScorecard(round.scorecard);
+    setDerived(round.derived);
+    setRoundId(round.id);
+    setImageFile(null);
+    setUnsavedChanges(false);
+    setCourseMatch(null);
+    void linkPlayers(round.scorecard);
+    if (round.image?.storageKey) {
+      void loadRoundImage(round);
+    }
+  };
+
+  // Restores the source image of a reopened round, unless another round was opened meanwhile
+  const loadRoundImage = async (round: SavedRound) => {
+    try {
+      const response = await fetch(`/api/rounds/${round.id}/image`);
+      if (!response.ok) {
+        throw new Error(`Image request failed (${response.status})`);
+      }
+      const blob = await response.blob();
+      if (openedRoundRef.current !== round.id) return;
+
+      setImageFile(
+        new File([blob], round.image?.fileName || 'scorecard', { type: round.image?.contentType || blob.type })
+      );
+    } catch (error) {
+      console.warn('[loadRoundImage] Could not load the round image:', error);
+    }
+  };
+
+  // Stores the source image with a newly created round
+  const uploadRoundImage = async (id: string, file: File) => {
+    const formData = new FormData();
+    formData.append('image', file);
+
+    const response = await fetch(`/api/rounds/${id}/image`, { method: 'PUT', body: formData });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to store the round image');
+    }
+  };
+
+  // Creates the round on the first save, then updates it (adding to its edit history)
+  const handleSaveRound = async () => {
+    if (!scorecard) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const response = await fetch(roundId ? `/api/rounds/${roundId}` : '/api/rounds', {
+        method: roundId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scorecard }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save round');
+      }
+
+      const saved = data as SavedRound;
+      setRoundId(saved.id);
+      openedRoundRef.current = saved.id;
+      setUnsavedChanges(false);
+
+      if (!roundId && imageFile) {
+        await uploadRoundImage(saved.id, imageFile).catch((error) => {
+          console.warn('[handleSaveRound] Could not store the round image:', error);
+          setSaveError('Round saved, but its image could not be stored');
+        });
+      }
+    } catch (error) {
+      console.error('[handleSaveRound] Error saving round:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save round');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleReset = () => {
@@ -43,6 +220,14 @@ export default function Home() {
     setShowAddPlayers(false);
     setMergeError(null);
     setMergeSuccess(null);
+    setReference(null);
+    setImageFile(null);
+    setRoundId(null);
+    openedRoundRef.current = null;
+    setUnsavedChanges(false);
+    setSaveError(null);
+    setPlayerLinks([]);
+    setCourseMatch(null);
   };
 
   const handleAddPlayersClick = () => {
@@ -84,7 +269,9 @@ export default function Home() {
       
       setScorecard(mergedScorecard);
       setDerived(newDerived);
+      setUnsavedChanges(true);
       setShowAddPlayers(false);
+      void linkPlayers(mergedScorecard);
       setMergeSuccess(
         `Successfully added ${summary.newPlayers.length} player(s): ${summary.newPlayers.join(', ')}`
       );
@@ -123,13 +310,31 @@ export default function Home() {
                 </p>
               </div>
             </div>
+            {!scorecard && (
+              <Link href="/players" className="text-sm font-medium text-gray-700 hover:text-black underline">
+                Players
+              </Link>
+            )}
             {scorecard && (
-              <button
-                onClick={handleReset}
-                className="px-4 py-2 bg-black hover:bg-gray-800 text-white transition-all duration-200 font-medium shadow-sm hover:shadow-md"
-              >
-                New Scorecard
-              </button>
+              <div className="flex items-center gap-3">
+                {saveError && <span className="text-sm text-red-600">{saveError}</span>}
+                {!saveError && roundId && !unsavedChanges && (
+                  <span className="text-sm text-gray-500">Saved</span>
+                )}
+                <button
+                  onClick={handleSaveRound}
+                  disabled={isSaving || (!!roundId && !unsavedChanges)}
+                  className="px-4 py-2 border border-black text-black hover:bg-gray-100 transition-all duration-200 font-medium shadow-sm disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : roundId ? 'Save Changes' : 'Save Round'}
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="px-4 py-2 bg-black hover:bg-gray-800 text-white transition-all duration-200 font-medium shadow-sm hover:shadow-md"
+                >
+                  New Scorecard
+                </button>
+              </div>
             )}
           </div>
         </div>
@@ -141,6 +346,8 @@ export default function Home() {
           // Upload view
           <div className="max-w-2xl mx-auto">
             <ScorecardUpload onAnalysisComplete={handleAnalysisComplete} />
+
+            <SavedRounds onOpen={handleOpenRound} />
             
             {/* Info Section */}
             <div className="mt-8 bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-6">
@@ -237,12 +444,45 @@ export default function Home() {
               </div>
             )}
             
+            <PlayerLinkPanel
+              links={playerLinks}
+              onLink={handlePlayerLink}
+              onDismiss={() => setPlayerLinks([])}
+            />
+
+            <CourseMatchPanel
+              match={courseMatch}
+              scorecard={scorecard}
+              onUseStored={handleUseStoredHoleValues}
+              onCourseAdded={handleCourseAdded}
+            />
+
             <ScorecardEditor
               initialScorecard={scorecard}
               initialDerived={derived!}
               onScorecardChange={handleScorecardChange}
               onAddPlayers={handleAddPlayersClick}
+              reference={reference}
+              imageFile={imageFile}
             />
+
+            {/* Reference comparison (known-correct scorecard, e.g. for checking OCR) */}
+            <div className="mt-4 text-center">
+              {reference ? (
+                <button
+                  onClick={() => setReference(null)}
+                  className="text-sm text-blue-600 hover:text-blue-700 underline"
+                >
+                  Stop comparing with reference
+                </button>
+              ) : (
+                <ManualJsonInput
+                  onDataSubmit={setReference}
+                  buttonLabel="Compare with a reference scorecard"
+                  inputLabel="Paste Reference Scorecard JSON"
+                />
+              )}
+            </div>
           </div>
         )}
         
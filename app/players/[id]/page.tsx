@@ -0,0 +1,65 @@
+/**
+ * Player Page
+ *
+ * History dashboard and handicap record of one registered player, built from
+ * the saved rounds they are linked to (/api/players/{id}/history and
+ * /api/players/{id}/handicap).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import HandicapPanel from '@/components/HandicapPanel';
+import PlayerHistoryDashboard from '@/components/PlayerHistoryDashboard';
+import type { HandicapRecord, PlayerHistory } from '@/lib/types';
+
+export default function PlayerPage({ params }: { params: { id: string } }) {
+  const [history, setHistory] = useState<PlayerHistory | null>(null);
+  const [handicap, setHandicap] = useState<HandicapRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/players/${params.id}/history`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load player history');
+        setHistory(data as PlayerHistory);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load player history'));
+
+    // The dashboard doesn't depend on the handicap record
+    fetch(`/api/players/${params.id}/handicap`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load handicap index');
+        setHandicap(data as HandicapRecord);
+      })
+      .catch((err) => console.warn('[PlayerPage] Failed to load handicap index:', err));
+  }, [params.id]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <div className="bg-white/80 backdrop-blur-sm shadow-sm border-b border-gray-100">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-black">{history?.player.name ?? 'Player'}</h1>
+            {history && history.player.aliases.length > 0 && (
+              <p className="mt-1 text-sm text-gray-600">Also on cards as {history.player.aliases.join(', ')}</p>
+            )}
+          </div>
+          <Link href="/players" className="text-sm text-blue-600 hover:text-blue-700 underline">
+            All players
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !history && <p className="text-sm text-gray-500">Loading...</p>}
+        {!error && handicap && <HandicapPanel record={handicap} />}
+        {history && <PlayerHistoryDashboard history={history} />}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Players Page
+ *
+ * Lists the registered players (/api/players) with their handicap index;
+ * each links to the player's history dashboard.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { PlayerProfile } from '@/lib/types';
+import { formatHandicapIndex } from '@/lib/handicapIndex';
+
+export default function PlayersPage() {
+  const [players, setPlayers] = useState<PlayerProfile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/players')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load players');
+        setPlayers(
+          (data.players as PlayerProfile[]).sort((a, b) => a.name.localeCompare(b.name))
+        );
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load players'));
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <div className="bg-white/80 backdrop-blur-sm shadow-sm border-b border-gray-100">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-black">Players</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-700 underline">
+            Back to scorecards
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !players && <p className="text-sm text-gray-500">Loading...</p>}
+        {players && players.length === 0 && (
+          <p className="text-sm text-gray-600">
+            No registered players yet. Players are registered when you confirm the names on a scorecard.
+          </p>
+        )}
+        {players && players.length > 0 && (
+          <ul className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 divide-y divide-gray-100">
+            {players.map((player) => (
+              <li key={player.id}>
+                <Link href={`/players/${player.id}`} className="flex items-center justify-between gap-4 px-6 py-3 hover:bg-gray-50">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{player.name}</p>
+                    {player.aliases.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate">Also: {player.aliases.join(', ')}</p>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-600 whitespace-nowrap">
+                    {player.handicapIndex === null || player.handicapIndex === undefined
+                      ? 'No index'
+                      : `HI ${formatHandicapIndex(player.handicapIndex)}`}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * CellCrop Component
+ *
+ * Shows the part of the original scorecard photo behind one extracted cell,
+ * so the handwriting can be checked against the value in the input next to
+ * it. The crop is drawn in the browser from the photo the editor already
+ * loaded (useScorecardImage in ScorecardReview), so a card with many doubtful
+ * cells still loads the photo only once.
+ */
+
+'use client';
+
+import type { BoundingBox } from '@/lib/types';
+import type { ScorecardImage } from '@/components/ScorecardReview';
+
+const PADDING = 0.15; // Extra margin around the cell, as a fraction of its size (as in lib/imageCrop.ts)
+const HEIGHT = 32; // Rendered height in pixels
+
+interface CellCropProps {
+  image: ScorecardImage;
+  box: BoundingBox;
+  alt: string;
+  className?: string;
+}
+
+export default function CellCrop({ image, box, alt, className = '' }: CellCropProps) {
+  const padX = box.width * PADDING;
+  const padY = box.height * PADDING;
+  const left = Math.max(0, box.left - padX);
+  const top = Math.max(0, box.top - padY);
+  const width = Math.min(1, box.left + box.width + padX) - left;
+  const height = Math.min(1, box.top + box.height + padY) - top;
+
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  // Scale the whole photo so the crop fills the box, and shift it into place
+  return (
+    <div
+      role="img"
+      aria-label={alt}
+      title={alt}
+      className={`relative mx-auto mt-1 overflow-hidden border border-gray-300 ${className}`}
+      style={{ height: HEIGHT, width: Math.round((HEIGHT * width * image.width) / (height * image.height)) }}
+    >
+      <img
+        src={image.url}
+        alt=""
+        className="absolute max-w-none"
+        style={{
+          width: `${100 / width}%`,
+          height: `${100 / height}%`,
+          left: `${(-left / width) * 100}%`,
+          top: `${(-top / height) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
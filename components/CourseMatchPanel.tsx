@@ -0,0 +1,114 @@
+/**
+ * CourseMatchPanel Component
+ *
+ * Shows which course and tee the card was recognized as (lib/courseMatching.ts),
+ * how many hole values were filled in from the course database and the values
+ * where the card disagrees with the stored layout, each with the option to use
+ * the stored value. Cards that match no course can be added to the database.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { courseFromScorecard } from '@/lib/courseMatching';
+import type { Course, CourseDisagreement, CourseMatch, ExtractedScorecard } from '@/lib/types';
+
+interface CourseMatchPanelProps {
+  match: CourseMatch | null;
+  scorecard: ExtractedScorecard;
+  onUseStored: (disagreements: CourseDisagreement[]) => void;
+  onCourseAdded: (course: Course) => void;
+}
+
+const FIELD_LABELS: Record<CourseDisagreement['field'], string> = {
+  par: 'Par',
+  yardage: 'Yardage',
+  handicap: 'Stroke index',
+};
+
+export default function CourseMatchPanel({ match, scorecard, onUseStored, onCourseAdded }: CourseMatchPanelProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddCourse = async () => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/courses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(courseFromScorecard(scorecard)),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add course');
+      onCourseAdded(data as Course);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add course');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  if (!match) {
+    if (scorecard.courseId || !scorecard.courseName || scorecard.holes.length === 0) {
+      return null;
+    }
+    return (
+      <div className="mb-4 text-sm text-gray-600 flex flex-wrap items-center gap-3">
+        <span>{scorecard.courseName} is not in the course database.</span>
+        <button
+          onClick={handleAddCourse}
+          disabled={isAdding}
+          className="text-blue-600 hover:text-blue-700 underline disabled:opacity-50"
+          title="Saves this card's pars, yardages and stroke indexes so future cards from this course are checked against them"
+        >
+          {isAdding ? 'Adding...' : 'Add it from this card'}
+        </button>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900">Course</h3>
+      <p className="mt-1 text-sm text-gray-600">
+        Recognized as <strong className="text-gray-900">{match.courseName}</strong> ({match.teeName} tees)
+        {scorecard.courseRating !== undefined && scorecard.slopeRating !== undefined && (
+          <span> · Rating {scorecard.courseRating} / Slope {scorecard.slopeRating}</span>
+        )}
+        {match.filled > 0 && (
+          <span> · {match.filled} missing hole value{match.filled === 1 ? '' : 's'} filled in</span>
+        )}
+      </p>
+
+      {match.disagreements.length > 0 && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-medium text-amber-800">
+              The card disagrees with the stored layout:
+            </p>
+            <button
+              onClick={() => onUseStored(match.disagreements)}
+              className="px-3 py-1 bg-black hover:bg-gray-800 text-white text-sm"
+            >
+              Use all stored values
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-sm">
+            {match.disagreements.map((d) => (
+              <li key={`${d.holeNumber}-${d.field}`} className="flex items-center gap-3">
+                <span className="text-gray-700">
+                  Hole {d.holeNumber} {FIELD_LABELS[d.field].toLowerCase()}: card {d.extracted}, stored {d.stored}
+                </span>
+                <button onClick={() => onUseStored([d])} className="text-blue-600 hover:text-blue-700 underline">
+                  Use {d.stored}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * HandicapPanel Component
+ *
+ * A registered player's WHS handicap record (lib/handicapIndex.ts): the
+ * current and low handicap index, the last 20 scores with the differentials
+ * counted in the index highlighted, and the history of index revisions with
+ * the caps and exceptional score reductions applied.
+ */
+
+'use client';
+
+import type { HandicapRecord } from '@/lib/types';
+import { formatHandicapIndex } from '@/lib/handicapIndex';
+
+interface HandicapPanelProps {
+  record: HandicapRecord;
+}
+
+export default function HandicapPanel({ record }: HandicapPanelProps) {
+  const posted = record.scores.filter((s) => s.posted);
+  const recent = posted.slice(-20).reverse();
+  const revisions = [...record.revisions].reverse();
+  const notPosted = record.scores.length - posted.length;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6 space-y-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-4">
+        <h3 className="text-lg font-semibold text-gray-900">Handicap Index</h3>
+        <div className="flex items-baseline gap-6">
+          <div>
+            <span className="text-3xl font-bold text-gray-900">{formatHandicapIndex(record.handicapIndex)}</span>
+            {revisions[0]?.cap && (
+              <span className="ml-2 text-xs text-amber-700">{revisions[0].cap} cap applied</span>
+            )}
+          </div>
+          <div className="text-sm text-gray-600">
+            Low index: <span className="font-medium">{formatHandicapIndex(record.lowHandicapIndex)}</span>
+          </div>
+        </div>
+      </div>
+
+      {record.handicapIndex === null && (
+        <p className="text-sm text-gray-600">
+          An index is calculated once 3 scores are posted ({posted.length} so far).
+        </p>
+      )}
+      {(record.unratedRounds > 0 || notPosted > 0) && (
+        <p className="text-xs text-gray-500">
+          {record.unratedRounds > 0 &&
+            `${record.unratedRounds} round(s) have no course and slope rating - match the course to post them. `}
+          {notPosted > 0 && `${notPosted} round(s) couldn't be posted (too few holes, or 9 holes without an index).`}
+        </p>
+      )}
+
+      {recent.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Scoring Record</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1 pr-3">Date</th>
+                <th className="py-1 pr-3">Course</th>
+                <th className="py-1 px-2 text-center">Holes</th>
+                <th className="py-1 px-2 text-center">Adjusted</th>
+                <th className="py-1 px-2 text-center">Differential</th>
+                <th className="py-1 pl-2 text-right">ESR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((score) => (
+                <tr
+                  key={score.roundId}
+                  title={score.notes.join('\n') || undefined}
+                  className={`border-b border-gray-100 ${score.usedInIndex ? 'bg-green-50' : ''}`}
+                >
+                  <td className="py-1 pr-3 whitespace-nowrap">{score.playedAt}</td>
+                  <td className="py-1 pr-3">{score.courseName || 'Unknown course'}</td>
+                  <td className="py-1 px-2 text-center">{score.nineHole ? '9' : '18'}</td>
+                  <td className="py-1 px-2 text-center">{score.adjustedGrossScore}</td>
+                  <td className={`py-1 px-2 text-center ${score.usedInIndex ? 'font-semibold text-green-700' : ''}`}>
+                    {score.scoreDifferential?.toFixed(1)}
+                  </td>
+                  <td className="py-1 pl-2 text-right text-gray-600">
+                    {score.esrAdjustment !== 0 ? score.esrAdjustment : ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-500">Highlighted differentials count toward the current index.</p>
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Index Revisions</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1 pr-3">Date</th>
+                <th className="py-1 px-2 text-center">Index</th>
+                <th className="py-1 px-2 text-center">Change</th>
+                <th className="py-1 px-2 text-center">Scores</th>
+                <th className="py-1 pl-2 text-right">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {revisions.map((revision, i) => {
+                const previous = revisions[i + 1];
+                const change = previous ? Math.round((revision.handicapIndex - previous.handicapIndex) * 10) / 10 : null;
+                const notes = [
+                  revision.cap && `${revision.cap} cap (low ${formatHandicapIndex(revision.lowHandicapIndex)})`,
+                  revision.esr !== 0 && `exceptional score ${revision.esr}`,
+                ].filter(Boolean);
+
+                return (
+                  <tr key={revision.date} className="border-b border-gray-100">
+                    <td className="py-1 pr-3 whitespace-nowrap">{revision.date}</td>
+                    <td className="py-1 px-2 text-center font-semibold">{formatHandicapIndex(revision.handicapIndex)}</td>
+                    <td
+                      className={`py-1 px-2 text-center ${
+                        change !== null && change < 0 ? 'text-green-700' : change !== null && change > 0 ? 'text-red-600' : ''
+                      }`}
+                    >
+                      {change === null ? 'new' : change === 0 ? '-' : `${change > 0 ? '+' : ''}${change.toFixed(1)}`}
+                    </td>
+                    <td className="py-1 px-2 text-center">
+                      {revision.differentialsUsed.length} of {revision.scoresInRecord}
+                    </td>
+                    <td className="py-1 pl-2 text-right text-gray-600">{notes.join(', ')}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
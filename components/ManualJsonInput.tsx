@@ -11,9 +11,15 @@ import type { ExtractedScorecard } from '@/lib/types';
 
 interface ManualJsonInputProps {
   onDataSubmit: (data: ExtractedScorecard) => void;
+  buttonLabel?: string;
+  inputLabel?: string;
 }
 
-export default function ManualJsonInput({ onDataSubmit }: ManualJsonInputProps) {
+export default function ManualJsonInput({
+  onDataSubmit,
+  buttonLabel = 'Or paste JSON manually',
+  inputLabel = 'Paste Scorecard JSON',
+}: ManualJsonInputProps) {
   const [jsonInput, setJsonInput] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showInput, setShowInput] = useState(false);
@@ -44,7 +50,7 @@ export default function ManualJsonInput({ onDataSubmit }: ManualJsonInputProps)
         onClick={() => setShowInput(true)}
         className="text-sm text-blue-600 hover:text-blue-700 underline"
       >
-        Or paste JSON manually
+        {buttonLabel}
       </button>
     );
   }
@@ -54,7 +60,7 @@ export default function ManualJsonInput({ onDataSubmit }: ManualJsonInputProps)
       <div>
         <div className="flex items-center justify-between mb-2">
           <label className="text-sm font-medium text-gray-700">
-            Paste Scorecard JSON
+            {inputLabel}
           </label>
           <button
             type="button"
@@ -0,0 +1,228 @@
+/**
+ * MatchPlayPanel Component
+ *
+ * Declares match play matches between the players on the scorecard and shows
+ * each match as a strip under the scorecard: the status after every hole
+ * (colored by the side that leads), the strokes each side receives and the
+ * closing result (e.g. "3&2").
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { MatchDefinition, MatchResult } from '@/lib/types';
+
+interface MatchPlayPanelProps {
+  playerNames: string[];
+  holeNumbers: number[];
+  matches: MatchDefinition[];
+  results: MatchResult[];
+  onMatchesChange: (matches: MatchDefinition[]) => void;
+}
+
+const FORMAT_LABELS: Record<MatchDefinition['format'], string> = {
+  singles: 'Singles',
+  'four-ball': 'Four-ball (best ball)',
+  foursomes: 'Foursomes (alternate shot)',
+};
+
+// Colors for the side leading the match: side A, side B
+const SIDE_COLORS = ['bg-blue-100 text-blue-800', 'bg-red-100 text-red-800'];
+
+export default function MatchPlayPanel({
+  playerNames,
+  holeNumbers,
+  matches,
+  results,
+  onMatchesChange,
+}: MatchPlayPanelProps) {
+  const [format, setFormat] = useState<MatchDefinition['format']>('singles');
+  const [sideA, setSideA] = useState<string[]>([]);
+  const [sideB, setSideB] = useState<string[]>([]);
+  const [allowance, setAllowance] = useState('');
+
+  const sideSize = format === 'singles' ? 1 : 2;
+  const canAdd = sideA.length === sideSize && sideB.length === sideSize;
+
+  const togglePlayer = (side: 'A' | 'B', name: string) => {
+    const [current, setCurrent] = side === 'A' ? [sideA, setSideA] : [sideB, setSideB];
+    if (current.includes(name)) {
+      setCurrent(current.filter((n) => n !== name));
+    } else if (current.length < sideSize) {
+      setCurrent([...current, name]);
+    }
+  };
+
+  const handleFormatChange = (value: MatchDefinition['format']) => {
+    setFormat(value);
+    setSideA([]);
+    setSideB([]);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+
+    const percent = parseFloat(allowance);
+    onMatchesChange([
+      ...matches,
+      {
+        format,
+        sides: [sideA, sideB],
+        handicapAllowance: isNaN(percent) ? undefined : percent,
+      },
+    ]);
+    setSideA([]);
+    setSideB([]);
+    setAllowance('');
+  };
+
+  const handleRemove = (index: number) => {
+    onMatchesChange(matches.filter((_, i) => i !== index));
+  };
+
+  if (playerNames.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Match Play</h3>
+
+      {matches.map((match, idx) => {
+        const result = results.find(
+          (r) => r.format === match.format && r.sides[0].join() === match.sides[0].join() && r.sides[1].join() === match.sides[1].join()
+        );
+
+        return (
+          <div key={idx} className="border border-gray-200 p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div>
+                <span className="font-semibold text-blue-800">{match.sides[0].join(' & ')}</span>
+                <span className="text-gray-500"> vs </span>
+                <span className="font-semibold text-red-800">{match.sides[1].join(' & ')}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {FORMAT_LABELS[match.format]}
+                  {match.handicapAllowance !== undefined && `, ${match.handicapAllowance}% allowance`}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-bold text-gray-900">{result ? result.status : 'Players not on the card'}</span>
+                <button
+                  onClick={() => handleRemove(idx)}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                  title="Remove match"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            {result && (
+              <>
+                <div className="overflow-x-auto">
+                  <div className="flex gap-px text-xs text-center">
+                    {holeNumbers.map((holeNumber) => {
+                      const hole = result.holes.find((h) => h.holeNumber === holeNumber);
+                      const color = !hole
+                        ? 'bg-gray-50 text-gray-300'
+                        : hole.margin > 0
+                        ? SIDE_COLORS[0]
+                        : hole.margin < 0
+                        ? SIDE_COLORS[1]
+                        : 'bg-gray-100 text-gray-700';
+
+                      return (
+                        <div
+                          key={holeNumber}
+                          className={`min-w-[2.5rem] flex-1 px-1 py-1 ${color}`}
+                          title={hole ? `Hole ${holeNumber}: ${hole.status}` : `Hole ${holeNumber}: match over`}
+                        >
+                          <div className="text-gray-500">{holeNumber}</div>
+                          <div className="font-semibold whitespace-nowrap">
+                            {!hole ? '' : hole.margin === 0 ? 'AS' : `${Math.abs(hole.margin)}${hole.margin > 0 ? 'A' : 'B'}`}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                {result.strokesReceived.some((s) => s.strokes > 0) && (
+                  <div className="text-xs text-gray-600">
+                    Strokes:{' '}
+                    {result.strokesReceived
+                      .filter((s) => s.strokes > 0)
+                      .map((s) => `${s.name} ${s.strokes}`)
+                      .join(', ')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">Format</span>
+          <select
+            value={format}
+            onChange={(e) => handleFormatChange(e.target.value as MatchDefinition['format'])}
+            className="border border-gray-300 px-2 py-1 bg-white"
+          >
+            {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        {(['A', 'B'] as const).map((side) => {
+          const selected = side === 'A' ? sideA : sideB;
+          const other = side === 'A' ? sideB : sideA;
+
+          return (
+            <div key={side} className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500">Side {side}</span>
+              <div className="flex flex-wrap gap-1">
+                {playerNames.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => togglePlayer(side, name)}
+                    disabled={other.includes(name)}
+                    className={`px-2 py-1 border text-xs transition-colors disabled:opacity-30 ${
+                      selected.includes(name)
+                        ? side === 'A' ? 'border-blue-600 bg-blue-600 text-white' : 'border-red-600 bg-red-600 text-white'
+                        : 'border-gray-300 bg-white hover:border-gray-500'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">Allowance %</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={allowance}
+            onChange={(e) => setAllowance(e.target.value)}
+            placeholder={format === 'singles' ? '100' : format === 'four-ball' ? '90' : '50'}
+            className="w-20 border border-gray-300 px-2 py-1"
+          />
+        </label>
+
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="px-4 py-1.5 bg-black text-white font-semibold hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Add Match
+        </button>
+      </div>
+    </div>
+  );
+}
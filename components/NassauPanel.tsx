@@ -0,0 +1,136 @@
+/**
+ * NassauPanel Component
+ *
+ * Optional Nassau between every pair of players: toggles the game on, sets
+ * its rules (gross/net, match/stroke, stake, auto press) and shows each
+ * pair's bets and presses and the settlement ledger.
+ */
+
+'use client';
+
+import type { NassauResult, NassauSettings } from '@/lib/types';
+import { DEFAULT_NASSAU_SETTINGS, formatNassauBet } from '@/lib/nassau';
+
+interface NassauPanelProps {
+  settings?: NassauSettings;
+  result: NassauResult | null;
+  onSettingsChange: (settings: NassauSettings | undefined) => void;
+}
+
+export default function NassauPanel({ settings, result, onSettingsChange }: NassauPanelProps) {
+  const update = (changes: Partial<NassauSettings>) => {
+    onSettingsChange({ ...(settings || DEFAULT_NASSAU_SETTINGS), ...changes });
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Nassau</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!settings}
+            onChange={(e) => onSettingsChange(e.target.checked ? DEFAULT_NASSAU_SETTINGS : undefined)}
+          />
+          Play Nassau
+        </label>
+      </div>
+
+      {settings && (
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Scoring</span>
+            <select
+              value={settings.mode}
+              onChange={(e) => update({ mode: e.target.value as NassauSettings['mode'] })}
+              className="border border-gray-300 px-2 py-1 bg-white"
+            >
+              <option value="gross">Gross</option>
+              <option value="net">Net</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Format</span>
+            <select
+              value={settings.format}
+              onChange={(e) => update({ format: e.target.value as NassauSettings['format'] })}
+              className="border border-gray-300 px-2 py-1 bg-white"
+            >
+              <option value="match">Match (holes won)</option>
+              <option value="stroke">Stroke (total strokes)</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">$ per bet</span>
+            <input
+              type="number"
+              min="0"
+              value={settings.stake}
+              onChange={(e) => update({ stake: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-20 border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Auto press</span>
+            <select
+              value={settings.pressDown}
+              onChange={(e) => update({ pressDown: parseInt(e.target.value, 10) })}
+              className="border border-gray-300 px-2 py-1 bg-white"
+            >
+              <option value={0}>No presses</option>
+              {[1, 2, 3, 4].map((down) => (
+                <option key={down} value={down}>{down} down</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {result.matches.map((match) => (
+              <div key={match.players.join()} className="border border-gray-200 p-3 text-sm">
+                <div className="flex justify-between font-semibold text-gray-900 mb-2">
+                  <span>{match.players[0]} vs {match.players[1]}</span>
+                  <span className={match.balance === 0 ? 'text-gray-500' : 'text-green-700'}>
+                    {match.balance === 0
+                      ? 'Even'
+                      : `${match.balance > 0 ? match.players[0] : match.players[1]} +$${Math.abs(match.balance)}`}
+                  </span>
+                </div>
+                <ul className="space-y-0.5">
+                  {match.bets.map((bet) => (
+                    <li key={bet.name} className="flex justify-between">
+                      <span className={bet.name.includes('press') ? 'pl-3 text-gray-500' : 'text-gray-700'}>
+                        {bet.name}
+                      </span>
+                      <span className={bet.winner ? 'font-medium text-gray-900' : 'text-gray-500'}>
+                        {formatNassauBet(bet, match.players, result.settings.format)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-sm">
+            <div className="font-semibold text-gray-900 mb-1">Settlement</div>
+            {result.ledger.length === 0 ? (
+              <div className="text-gray-500">Nothing owed yet</div>
+            ) : (
+              <ul className="space-y-0.5">
+                {result.ledger.map((entry) => (
+                  <li key={`${entry.from}-${entry.to}`}>
+                    {entry.from} owes {entry.to} <span className="font-bold">${entry.amount}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * PlayerHistoryDashboard Component
+ *
+ * A registered player's history across saved rounds (lib/playerHistory.ts):
+ * headline numbers, a chart of score to par per round with its trend line,
+ * the round list, best score per course and per-hole averages on courses
+ * played more than once.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { PlayerHistory, PlayerRoundSummary } from '@/lib/types';
+import { formatScoreToPar } from '@/lib/golfScoring';
+
+interface PlayerHistoryDashboardProps {
+  history: PlayerHistory;
+}
+
+/**
+ * Average to par with its sign and one decimal, e.g. "+7.4"
+ */
+function formatAverage(value: number | null): string {
+  if (value === null) return '-';
+  if (value === 0) return 'E';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Score to par (per 18 holes) of each round, with the least-squares trend line
+ */
+function TrendChart({ rounds, slope }: { rounds: PlayerRoundSummary[]; slope: number | null }) {
+  const points = rounds.filter((r) => r.holesPlayed >= 9);
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500">Save at least two rounds to see a trend.</p>;
+  }
+
+  const width = 600;
+  const height = 180;
+  const pad = 24;
+  const values = points.map((r) => r.toParPer18);
+  const min = Math.min(...values, 0) - 1;
+  const max = Math.max(...values, 0) + 1;
+  const x = (i: number) => pad + (i * (width - 2 * pad)) / (points.length - 1);
+  const y = (v: number) => pad + ((max - v) * (height - 2 * pad)) / (max - min);
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const trendStart = slope === null ? null : mean - (slope * (points.length - 1)) / 2;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48" role="img" aria-label="Score to par per round">
+      <line x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} stroke="#d1d5db" strokeDasharray="4 4" />
+      <text x={2} y={y(0) + 4} className="fill-gray-400 text-[10px]">E</text>
+      {trendStart !== null && slope !== null && (
+        <line
+          x1={x(0)}
+          x2={x(points.length - 1)}
+          y1={y(trendStart)}
+          y2={y(trendStart + slope * (points.length - 1))}
+          stroke={slope < 0 ? '#16a34a' : '#dc2626'}
+          strokeWidth={1.5}
+          strokeDasharray="6 3"
+        />
+      )}
+      <polyline
+        fill="none"
+        stroke="#111827"
+        strokeWidth={2}
+        points={points.map((r, i) => `${x(i)},${y(r.toParPer18)}`).join(' ')}
+      />
+      {points.map((r, i) => (
+        <circle key={r.roundId} cx={x(i)} cy={y(r.toParPer18)} r={4} className="fill-gray-900">
+          <title>{`${r.playedAt} · ${r.courseName}: ${r.totalScore} (${formatScoreToPar(r.scoreToPar)})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export default function PlayerHistoryDashboard({ history }: PlayerHistoryDashboardProps) {
+  const [courseKey, setCourseKey] = useState(history.holeAverages[0]?.courseKey ?? null);
+  const { trend } = history;
+  const selectedCourse = history.holeAverages.find((c) => c.courseKey === courseKey);
+
+  if (history.rounds.length === 0) {
+    return (
+      <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-6 text-sm text-gray-600">
+        No saved rounds are linked to {history.player.name} yet. Link the player on a card and save the round.
+      </div>
+    );
+  }
+
+  const trendLabel =
+    trend.slopePerRound === null
+      ? 'Not enough rounds yet'
+      : trend.slopePerRound < -0.1
+        ? `Improving by ${Math.abs(trend.slopePerRound).toFixed(2)} strokes per round`
+        : trend.slopePerRound > 0.1
+          ? `Scores rising by ${trend.slopePerRound.toFixed(2)} strokes per round`
+          : 'Holding steady';
+
+  const cards = [
+    { label: 'Rounds', value: String(history.rounds.length), detail: `${history.holesPlayed} holes` },
+    { label: 'Average to par', value: formatAverage(history.averageToPar), detail: 'per 18 holes' },
+    {
+      label: 'Last 5 rounds',
+      value: formatAverage(trend.recentAverageToPar),
+      detail: trend.change === null ? 'per 18 holes' : `${formatAverage(trend.change)} vs. the 5 before`,
+    },
+    { label: 'Birdie rate', value: formatRate(history.birdieRate), detail: 'birdie or better per hole' },
+    { label: 'Double bogey rate', value: formatRate(history.doubleBogeyRate), detail: 'double or worse per hole' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {cards.map((card) => (
+          <div key={card.label} className="bg-white/70 backdrop-blur-sm shadow border border-gray-100 p-4">
+            <p className="text-xs text-gray-500">{card.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+            <p className="text-xs text-gray-500">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+        <div className="flex items-baseline justify-between gap-4 mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Scoring Trend</h3>
+          <span
+            className={`text-sm font-medium ${
+              trend.slopePerRound !== null && trend.slopePerRound < -0.1 ? 'text-green-700' : 'text-gray-600'
+            }`}
+          >
+            {trendLabel}
+          </span>
+        </div>
+        <TrendChart rounds={history.rounds} slope={trend.slopePerRound} />
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Course Bests</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-3">Course</th>
+              <th className="py-1 px-2 text-center">Rounds</th>
+              <th className="py-1 px-2 text-center">Best</th>
+              <th className="py-1 px-2 text-center">Average</th>
+              <th className="py-1 pl-2 text-right">Best on</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.courseBests.map((course) => (
+              <tr key={course.courseKey} className="border-b border-gray-100">
+                <td className="py-1 pr-3 font-medium text-gray-900">{course.courseName || 'Unknown course'}</td>
+                <td className="py-1 px-2 text-center">{course.rounds}</td>
+                <td className="py-1 px-2 text-center font-semibold">
+                  {course.bestScore} ({formatScoreToPar(course.bestToPar)})
+                </td>
+                <td className="py-1 px-2 text-center">{course.averageScore.toFixed(1)}</td>
+                <td className="py-1 pl-2 text-right text-gray-600">{course.bestPlayedAt}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {history.holeAverages.length > 0 && (
+        <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Hole Averages</h3>
+            <select
+              value={courseKey ?? ''}
+              onChange={(e) => setCourseKey(e.target.value)}
+              className="border px-2 py-1 text-sm text-gray-900"
+            >
+              {history.holeAverages.map((course) => (
+                <option key={course.courseKey} value={course.courseKey}>
+                  {course.courseName || 'Unknown course'} ({course.rounds} rounds)
+                </option>
+              ))}
+            </select>
+          </div>
+          {selectedCourse && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-1 pr-3 text-left">Hole</th>
+                    {selectedCourse.holes.map((hole) => (
+                      <th key={hole.holeNumber} className="py-1 px-1 text-center">{hole.holeNumber}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-100 text-gray-600">
+                    <td className="py-1 pr-3">Par</td>
+                    {selectedCourse.holes.map((hole) => (
+                      <td key={hole.holeNumber} className="py-1 px-1 text-center">{hole.par}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-1 pr-3 font-medium text-gray-900">Average</td>
+                    {selectedCourse.holes.map((hole) => (
+                      <td
+                        key={hole.holeNumber}
+                        title={`${hole.played} round(s), ${formatAverage(hole.averageToPar)} to par`}
+                        className={`py-1 px-1 text-center ${
+                          hole.averageToPar >= 1 ? 'text-red-600 font-semibold' : hole.averageToPar <= 0 ? 'text-green-700' : ''
+                        }`}
+                      >
+                        {hole.averageScore.toFixed(1)}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Rounds</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-3">Date</th>
+              <th className="py-1 pr-3">Course</th>
+              <th className="py-1 px-2 text-center">Holes</th>
+              <th className="py-1 px-2 text-center">Score</th>
+              <th className="py-1 px-2 text-center">To par</th>
+              <th className="py-1 px-2 text-center">Birdies+</th>
+              <th className="py-1 px-2 text-center">Doubles+</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...history.rounds].reverse().map((r) => (
+              <tr key={r.roundId} className="border-b border-gray-100">
+                <td className="py-1 pr-3 whitespace-nowrap">{r.playedAt}</td>
+                <td className="py-1 pr-3">
+                  {r.courseName || 'Unknown course'}
+                  {r.teeName && <span className="text-gray-500"> ({r.teeName})</span>}
+                </td>
+                <td className="py-1 px-2 text-center">{r.holesPlayed}</td>
+                <td className="py-1 px-2 text-center font-semibold">{r.totalScore}</td>
+                <td className="py-1 px-2 text-center">{formatScoreToPar(r.scoreToPar)}</td>
+                <td className="py-1 px-2 text-center">{r.birdiesOrBetter}</td>
+                <td className="py-1 px-2 text-center">{r.doubleBogeysOrWorse}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * PlayerLinkPanel Component
+ *
+ * Confirm step for linking the names on the card to registered players
+ * (/api/players/link). Clear matches are linked automatically and only
+ * listed; for ambiguous names the user picks one of the closest players,
+ * registers a new player or leaves the name unlinked. Confirming a match
+ * saves the card name as an alias of that player.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { PlayerLink, PlayerProfile } from '@/lib/types';
+
+interface PlayerLinkPanelProps {
+  links: PlayerLink[];
+  onLink: (cardName: string, playerId: string | null) => void;
+  onDismiss: () => void;
+}
+
+export default function PlayerLinkPanel({ links, onLink, onDismiss }: PlayerLinkPanelProps) {
+  const [busyName, setBusyName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const linked = links.filter((link) => link.status === 'linked');
+  const pending = links.filter((link) => link.status !== 'linked');
+
+  if (links.length === 0) {
+    return null;
+  }
+
+  const request = async (cardName: string, url: string, body: object): Promise<PlayerProfile | null> => {
+    setBusyName(cardName);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Player registry request failed');
+      return data as PlayerProfile;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Player registry request failed');
+      return null;
+    } finally {
+      setBusyName(null);
+    }
+  };
+
+  const handleConfirm = async (cardName: string, playerId: string) => {
+    const player = await request(cardName, `/api/players/${playerId}/aliases`, { alias: cardName });
+    if (player) onLink(cardName, player.id);
+  };
+
+  const handleRegister = async (cardName: string) => {
+    const player = await request(cardName, '/api/players', { name: cardName });
+    if (player) onLink(cardName, player.id);
+  };
+
+  const linkedName = (link: PlayerLink) =>
+    link.candidates.find((candidate) => candidate.playerId === link.playerId)?.name;
+
+  return (
+    <div className="mb-6 bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-4">
+        <h3 className="text-lg font-semibold text-gray-900">Players</h3>
+        <button onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-700">
+          {pending.length > 0 ? 'Skip' : 'Close'}
+        </button>
+      </div>
+
+      {linked.length > 0 && (
+        <p className="mt-1 text-sm text-gray-600">
+          Linked:{' '}
+          {linked
+            .map((link) =>
+              linkedName(link) && linkedName(link) !== link.cardName ? `${link.cardName} → ${linkedName(link)}` : link.cardName
+            )
+            .join(', ')}
+        </p>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {pending.length > 0 && (
+        <ul className="mt-3 space-y-3">
+          {pending.map((link) => (
+            <li key={link.cardName} className="text-sm">
+              <p className="text-gray-900">
+                <span className="font-medium">{link.cardName}</span>
+                <span className="text-gray-500">
+                  {link.status === 'ambiguous' ? ' could be:' : ' is not in the player registry'}
+                </span>
+              </p>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {link.candidates.map((candidate) => (
+                  <button
+                    key={candidate.playerId}
+                    onClick={() => handleConfirm(link.cardName, candidate.playerId)}
+                    disabled={busyName === link.cardName}
+                    title={`Matched "${candidate.matchedOn}" (${Math.round(candidate.score * 100)}%)`}
+                    className="px-3 py-1 bg-black hover:bg-gray-800 text-white disabled:opacity-50"
+                  >
+                    {candidate.name}
+                  </button>
+                ))}
+                <button
+                  onClick={() => handleRegister(link.cardName)}
+                  disabled={busyName === link.cardName}
+                  className="px-3 py-1 border border-gray-300 hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+                >
+                  Register as new player
+                </button>
+                <button
+                  onClick={() => onLink(link.cardName, null)}
+                  disabled={busyName === link.cardName}
+                  className="px-3 py-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                >
+                  Leave unlinked
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
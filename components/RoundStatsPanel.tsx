@@ -0,0 +1,111 @@
+/**
+ * RoundStatsPanel Component
+ *
+ * Table of the extended round statistics for each player (see
+ * lib/roundStats.ts): scoring average by par, hardest vs. easiest holes,
+ * bounce-back rate, longest par-or-better streak and front/back split.
+ */
+
+'use client';
+
+import type { HoleGroupStats, PlayerDerived } from '@/lib/types';
+import { formatScoreToPar } from '@/lib/golfScoring';
+
+interface RoundStatsPanelProps {
+  players: PlayerDerived[];
+}
+
+/**
+ * Average to par with its sign, e.g. "+0.67"
+ */
+function formatAverageToPar(value: number | null): string {
+  if (value === null) return '-';
+  if (value === 0) return 'E';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function renderGroup(group: HoleGroupStats) {
+  return (
+    <span title={group.holeNumbers.length ? `Holes ${group.holeNumbers.join(', ')}` : 'No stroke indexes on the card'}>
+      {formatAverageToPar(group.averageToPar)}
+    </span>
+  );
+}
+
+export default function RoundStatsPanel({ players }: RoundStatsPanelProps) {
+  if (players.length === 0) {
+    return null;
+  }
+
+  // Par values present on the card (normally 3, 4, 5)
+  const pars = players[0].stats.byPar.map((entry) => entry.par);
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Round Stats</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-3">Player</th>
+              {pars.map((par) => (
+                <th key={par} className="py-1 px-2 text-center" title={`Scoring average on par ${par}s`}>
+                  Par {par} avg
+                </th>
+              ))}
+              <th className="py-1 px-2 text-center" title="Average to par on the hardest third of holes by stroke index">
+                Hardest
+              </th>
+              <th className="py-1 px-2 text-center" title="Average to par on the easiest third of holes by stroke index">
+                Easiest
+              </th>
+              <th className="py-1 px-2 text-center" title="Birdie or better after a bogey or worse">
+                Bounce-back
+              </th>
+              <th className="py-1 px-2 text-center" title="Longest run of holes at par or better">
+                Par streak
+              </th>
+              <th className="py-1 px-2 text-center">Front</th>
+              <th className="py-1 px-2 text-center">Back</th>
+              <th className="py-1 px-2 text-center" title="Back nine minus front nine, to par">
+                Split
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {players.map(({ name, stats }) => (
+              <tr key={name} className="border-b border-gray-100">
+                <td className="py-1 pr-3 font-medium text-gray-900 whitespace-nowrap">{name}</td>
+                {pars.map((par) => {
+                  const entry = stats.byPar.find((e) => e.par === par);
+                  return (
+                    <td key={par} className="py-1 px-2 text-center" title={formatAverageToPar(entry?.averageToPar ?? null)}>
+                      {entry?.averageScore?.toFixed(2) ?? '-'}
+                    </td>
+                  );
+                })}
+                <td className="py-1 px-2 text-center">{renderGroup(stats.hardestHoles)}</td>
+                <td className="py-1 px-2 text-center">{renderGroup(stats.easiestHoles)}</td>
+                <td className="py-1 px-2 text-center">
+                  {stats.bounceBackRate === null
+                    ? '-'
+                    : `${Math.round(stats.bounceBackRate * 100)}% (${stats.bounceBacks}/${stats.bounceBackChances})`}
+                </td>
+                <td className="py-1 px-2 text-center">{stats.longestParStreak}</td>
+                <td className="py-1 px-2 text-center">
+                  {stats.frontNineToPar === null ? '-' : formatScoreToPar(stats.frontNineToPar)}
+                </td>
+                <td className="py-1 px-2 text-center">
+                  {stats.backNineToPar === null ? '-' : formatScoreToPar(stats.backNineToPar)}
+                </td>
+                <td className="py-1 px-2 text-center font-semibold">
+                  {stats.splitDifference === null ? '-' : formatScoreToPar(stats.splitDifference)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * SavedRounds Component
+ *
+ * Lists the rounds saved through /api/rounds so a previous card can be
+ * reopened in the editor or deleted.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RoundSummary, SavedRound } from '@/lib/types';
+
+interface SavedRoundsProps {
+  onOpen: (round: SavedRound) => void;
+}
+
+export default function SavedRounds({ onOpen }: SavedRoundsProps) {
+  const [rounds, setRounds] = useState<RoundSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/rounds')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load saved rounds');
+        setRounds(data.rounds);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load saved rounds'));
+  }, []);
+
+  const handleOpen = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/rounds/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to open round');
+      onOpen(data as SavedRound);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open round');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (round: RoundSummary) => {
+    if (!window.confirm(`Delete the round at ${round.courseName || 'unknown course'}?`)) return;
+
+    setBusyId(round.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/rounds/${round.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete round');
+      }
+      setRounds((prev) => prev?.filter((r) => r.id !== round.id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete round');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!error && (!rounds || rounds.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Saved Rounds</h2>
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      <ul className="divide-y divide-gray-100">
+        {rounds?.map((round) => (
+          <li key={round.id} className="py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {round.courseName || 'Unknown course'}
+                {round.date && <span className="ml-2 text-sm font-normal text-gray-500">{round.date}</span>}
+              </p>
+              <p className="text-sm text-gray-600 truncate">{round.players.join(', ')}</p>
+              <p className="text-xs text-gray-400">
+                Saved {new Date(round.updatedAt).toLocaleString()}
+                {round.edits > 0 && ` · ${round.edits} edit${round.edits === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => handleOpen(round.id)}
+                disabled={busyId === round.id}
+                className="px-3 py-1.5 bg-black hover:bg-gray-800 text-white text-sm font-medium disabled:opacity-50"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => handleDelete(round)}
+                disabled={busyId === round.id}
+                className="px-3 py-1.5 border border-gray-300 hover:bg-gray-50 text-gray-700 text-sm disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -7,15 +7,47 @@
 
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import type { ExtractedScorecard, DerivedScoring, PlayerHoleScore } from '@/lib/types';
-import { calculateDerivedScoring, getRelationToParColor, calculatePlayerTotals } from '@/lib/golfScoring';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type {
+  ExtractedScorecard,
+  DerivedScoring,
+  FairwayResult,
+  HoleInfo,
+  MatchDefinition,
+  NassauSettings,
+  PlayerHoleScore,
+  ScorecardDiscrepancy,
+  SkinsSettings,
+  TeamSettings,
+} from '@/lib/types';
+import {
+  calculateDerivedScoring,
+  getRelationToParColor,
+  calculatePlayerTotals,
+  formatScoreToPar,
+} from '@/lib/golfScoring';
+import { diffScorecards } from '@/lib/validation';
+import { checkScorecardTotals } from '@/lib/reportedTotals';
+import { STABLEFORD_TABLES } from '@/lib/stableford';
+import { calculateMatches } from '@/lib/matchPlay';
+import { calculateSkins } from '@/lib/skins';
+import { calculateNassau, formatNassauBet } from '@/lib/nassau';
+import { calculateTeamScoring } from '@/lib/teamScoring';
+import CellCrop from '@/components/CellCrop';
+import MatchPlayPanel from '@/components/MatchPlayPanel';
+import SkinsPanel from '@/components/SkinsPanel';
+import NassauPanel from '@/components/NassauPanel';
+import TeamsPanel from '@/components/TeamsPanel';
+import RoundStatsPanel from '@/components/RoundStatsPanel';
+import ScorecardReview, { useScorecardImage, type ReviewCell } from '@/components/ScorecardReview';
 
 interface ScorecardEditorProps {
   initialScorecard: ExtractedScorecard;
   initialDerived: DerivedScoring;
   onScorecardChange: (scorecard: ExtractedScorecard, derived: DerivedScoring) => void;
   onAddPlayers?: () => void;
+  reference?: ExtractedScorecard | null; // Known-correct scorecard to show "expected vs read"
+  imageFile?: File | null; // Original photo, used to show the handwriting behind low-confidence cells
 }
 
 function ScorecardEditor({
@@ -23,16 +55,64 @@ function ScorecardEditor({
   initialDerived,
   onScorecardChange,
   onAddPlayers,
+  reference,
+  imageFile,
 }: ScorecardEditorProps) {
   const [scorecard, setScorecard] = useState<ExtractedScorecard>(initialScorecard);
   const [derived, setDerived] = useState<DerivedScoring>(initialDerived);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [focusedCell, setFocusedCell] = useState<ReviewCell | null>(null);
+  const [showDetails, setShowDetails] = useState(() =>
+    initialScorecard.players.some((p) =>
+      p.scores.some((s) => s.putts !== undefined || s.fairway !== undefined || s.penalties !== undefined)
+    )
+  );
   const isInitialMount = useRef(true);
 
+  // The photo, loaded once for the review overlay and all cell crops
+  const scorecardImage = useScorecardImage(imageFile);
+
   // Determine if this is an 18-hole scorecard
   const is18Holes = scorecard.holes.length === 18;
   const frontNineHoles = scorecard.holes.filter(h => h.holeNumber <= 9);
   const backNineHoles = scorecard.holes.filter(h => h.holeNumber >= 10);
 
+  // Differences from the reference scorecard (recomputed as the user edits)
+  const discrepancies = useMemo(
+    () => (reference ? diffScorecards(scorecard, reference) : []),
+    [scorecard, reference]
+  );
+
+  const findDiscrepancy = (
+    field: ScorecardDiscrepancy['field'],
+    holeNumber?: number,
+    playerName?: string
+  ): ScorecardDiscrepancy | undefined =>
+    discrepancies.find(
+      (d) => d.field === field && d.holeNumber === holeNumber && d.playerName === playerName
+    );
+
+  // Handwritten OUT/IN/TOTAL that disagree with the hole scores (recomputed as the user edits)
+  const totalsChecks = useMemo(() => checkScorecardTotals(scorecard), [scorecard]);
+
+  // Match play status for the matches declared on the scorecard
+  const matchResults = useMemo(() => calculateMatches(scorecard), [scorecard]);
+
+  // Skins game, when one is being played
+  const skinsResult = useMemo(
+    () => (scorecard.skins ? calculateSkins(derived.holes, scorecard.skins) : null),
+    [derived, scorecard.skins]
+  );
+
+  // Nassau between every pair of players, when one is being played
+  const nassauResult = useMemo(
+    () => (scorecard.nassau ? calculateNassau(scorecard, scorecard.nassau) : null),
+    [scorecard]
+  );
+
+  // Team leaderboard, when players are grouped into teams
+  const teamScoring = useMemo(() => calculateTeamScoring(scorecard), [scorecard]);
+
   // Update internal state when props change (e.g., when players are added)
   useEffect(() => {
     setScorecard(initialScorecard);
@@ -67,7 +147,16 @@ function ScorecardEditor({
             ? {
                 ...player,
                 scores: player.scores.map((s) =>
-                  s.holeNumber === holeNumber ? { ...s, score: scoreValue } : s
+                  s.holeNumber === holeNumber
+                    ? {
+                        ...s,
+                        score: scoreValue,
+                        source: 'manual' as const,
+                        confidence: undefined,
+                        confidenceScore: undefined,
+                        confidenceReasons: undefined,
+                      }
+                    : s
                 ),
               }
             : player
@@ -81,6 +170,94 @@ function ScorecardEditor({
     });
   };
 
+  // Set or clear a player's putts, fairway or penalties on a hole (blank clears it)
+  const handleHoleDetailChange = (
+    playerName: string,
+    holeNumber: number,
+    field: 'putts' | 'fairway' | 'penalties',
+    value: string
+  ) => {
+    let detail: number | null | FairwayResult | undefined;
+    if (field === 'fairway') {
+      detail = value === '' ? undefined : (value as FairwayResult);
+    } else {
+      detail = value === '' ? null : parseInt(value, 10);
+      if (detail !== null && (isNaN(detail) || detail < 0 || detail > 9)) {
+        return;
+      }
+    }
+
+    setScorecard((prev) => ({
+      ...prev,
+      players: prev.players.map((player) =>
+        player.name === playerName
+          ? {
+              ...player,
+              scores: player.scores.map((s) =>
+                s.holeNumber === holeNumber ? { ...s, [field]: detail } : s
+              ),
+            }
+          : player
+      ),
+    }));
+  };
+
+  // Putts, fairway and penalty inputs under a score (fairway only on par 4s and 5s)
+  const renderHoleDetails = (playerName: string, hole: HoleInfo, holeScore?: PlayerHoleScore, gir?: boolean) => (
+    <div className="mt-1 flex flex-col items-center gap-0.5">
+      <input
+        type="number"
+        min="0"
+        max="9"
+        value={holeScore?.putts ?? ''}
+        onChange={(e) => handleHoleDetailChange(playerName, hole.holeNumber, 'putts', e.target.value)}
+        className={`w-10 text-center border rounded px-1 text-xs ${gir ? 'border-green-500 bg-green-50' : 'border-gray-200'}`}
+        title={gir === undefined ? 'Putts' : gir ? 'Putts (green in regulation)' : 'Putts (missed green)'}
+        placeholder="P"
+      />
+      {hole.par > 3 && (
+        <select
+          value={holeScore?.fairway ?? ''}
+          onChange={(e) => handleHoleDetailChange(playerName, hole.holeNumber, 'fairway', e.target.value)}
+          className="w-10 border border-gray-200 rounded text-xs bg-white"
+          title="Fairway"
+        >
+          <option value="">FW</option>
+          <option value="hit">✓</option>
+          <option value="left">L</option>
+          <option value="right">R</option>
+          <option value="na">-</option>
+        </select>
+      )}
+      <input
+        type="number"
+        min="0"
+        max="9"
+        value={holeScore?.penalties ?? ''}
+        onChange={(e) => handleHoleDetailChange(playerName, hole.holeNumber, 'penalties', e.target.value)}
+        className="w-10 text-center border border-gray-200 rounded px-1 text-xs text-red-700"
+        title="Penalty strokes"
+        placeholder="Pen"
+      />
+    </div>
+  );
+
+  // Focus the editor input behind a cell clicked in the review image
+  const handleReviewCellSelect = (cell: ReviewCell) => {
+    setFocusedCell(cell);
+
+    const playerIdx = scorecard.players.findIndex((p) => p.name === cell.playerName);
+    if (playerIdx === -1) return;
+
+    const inputId = cell.holeNumber !== undefined
+      ? `scorecard-score-${playerIdx}-${cell.holeNumber}`
+      : `scorecard-name-${playerIdx}`;
+    document.getElementById(inputId)?.focus();
+  };
+
+  const isCellFocused = (playerName?: string, holeNumber?: number) =>
+    focusedCell?.playerName === playerName && focusedCell?.holeNumber === holeNumber;
+
   const handleCourseNameChange = (newName: string) => {
     setScorecard((prev) => ({
       ...prev,
@@ -91,11 +268,87 @@ function ScorecardEditor({
   const handlePlayerNameChange = (oldName: string, newName: string) => {
     if (!newName.trim()) return; // Don't allow empty names
     
+    setFocusedCell((prev) =>
+      prev?.playerName === oldName ? { ...prev, playerName: newName.trim() } : prev
+    );
+
     setScorecard((prev) => ({
       ...prev,
       players: prev.players.map((player) =>
         player.name === oldName ? { ...player, name: newName.trim() } : player
       ),
+      matches: prev.matches?.map((match) => ({
+        ...match,
+        sides: [
+          match.sides[0].map((name) => (name === oldName ? newName.trim() : name)),
+          match.sides[1].map((name) => (name === oldName ? newName.trim() : name)),
+        ],
+      })),
+      teams: prev.teams && {
+        ...prev.teams,
+        teams: prev.teams.teams.map((team) => ({
+          ...team,
+          players: team.players.map((name) => (name === oldName ? newName.trim() : name)),
+        })),
+      },
+    }));
+  };
+
+  const handleMatchesChange = (matches: MatchDefinition[]) => {
+    setScorecard((prev) => ({
+      ...prev,
+      matches,
+    }));
+  };
+
+  const handleSkinsChange = (skins: SkinsSettings | undefined) => {
+    setScorecard((prev) => ({
+      ...prev,
+      skins,
+    }));
+  };
+
+  const handleNassauChange = (nassau: NassauSettings | undefined) => {
+    setScorecard((prev) => ({
+      ...prev,
+      nassau,
+    }));
+  };
+
+  const handleTeamsChange = (teams: TeamSettings | undefined) => {
+    setScorecard((prev) => ({
+      ...prev,
+      teams,
+    }));
+  };
+
+  // Built-in Stableford tables, plus a custom one loaded with the scorecard
+  const stablefordTables = scorecard.stableford && !STABLEFORD_TABLES.some((t) => t.name === scorecard.stableford!.name)
+    ? [...STABLEFORD_TABLES, scorecard.stableford]
+    : STABLEFORD_TABLES;
+
+  const handleStablefordChange = (name: string) => {
+    const table = stablefordTables.find((t) => t.name === name);
+    if (!table) return;
+
+    setScorecard((prev) => ({
+      ...prev,
+      stableford: table,
+    }));
+  };
+
+  const handleCourseHandicapChange = (playerName: string, value: string) => {
+    const courseHandicap = value.trim() === '' ? undefined : parseInt(value, 10);
+
+    if (courseHandicap !== undefined && (isNaN(courseHandicap) || courseHandicap < -10 || courseHandicap > 54)) {
+      return;
+    }
+
+    setScorecard((prev) => ({
+      ...prev,
+      players: prev.players.map((player) =>
+        player.name === playerName ? { ...player, courseHandicap } : player
+      ),
     }));
   };
 
@@ -110,7 +363,7 @@ function ScorecardEditor({
     rows.push([]); // Empty row
     
     // Column headers
-    const headers = ['Player', ...scorecard.holes.map(h => `Hole ${h.holeNumber}`), 'Out', 'In', 'Total', 'Score to Par'];
+    const headers = ['Player', ...scorecard.holes.map(h => `Hole ${h.holeNumber}`), 'Out', 'In', 'Total', 'Score to Par', 'Handicap', 'Net', 'Net to Par', `Stableford (${derived.stablefordSystem || 'Standard'})`, 'Net Stableford'];
     rows.push(headers);
     
     // Par row
@@ -118,7 +371,12 @@ function ScorecardEditor({
       scorecard.holes.filter(h => h.holeNumber <= 9).reduce((sum, h) => sum + h.par, 0).toString(),
       scorecard.holes.filter(h => h.holeNumber >= 10).reduce((sum, h) => sum + h.par, 0).toString(),
       scorecard.holes.reduce((sum, h) => sum + h.par, 0).toString(),
-      '0'
+      '0',
+      '',
+      '',
+      '',
+      '',
+      ''
     ];
     rows.push(parRow);
     
@@ -136,10 +394,38 @@ function ScorecardEditor({
         player.frontNine?.toString() || '',
         player.backNine?.toString() || '',
         player.total?.toString() || '',
-        playerDerived ? (playerDerived.scoreToPar > 0 ? `+${playerDerived.scoreToPar}` : playerDerived.scoreToPar.toString()) : ''
+        playerDerived ? (playerDerived.scoreToPar > 0 ? `+${playerDerived.scoreToPar}` : playerDerived.scoreToPar.toString()) : '',
+        playerDerived?.courseHandicap !== undefined ? formatHandicap(playerDerived.courseHandicap) : '',
+        playerDerived?.netScore?.toString() || '',
+        playerDerived?.netToPar !== undefined ? formatScoreToPar(playerDerived.netToPar) : '',
+        playerDerived?.stablefordPoints.toString() || '',
+        playerDerived?.netStablefordPoints?.toString() || ''
       ];
       rows.push(row);
     });
+
+    // Nassau bets and settlement
+    if (nassauResult) {
+      const { mode, format, stake, pressDown } = nassauResult.settings;
+      rows.push([]);
+      rows.push([`Nassau (${mode}, ${format} play, $${stake} per bet, ${pressDown > 0 ? `press at ${pressDown} down` : 'no presses'})`]);
+      rows.push(['Match', 'Bet', 'Holes', 'Status', 'Winner']);
+      nassauResult.matches.forEach((match) => {
+        match.bets.forEach((bet) => {
+          rows.push([
+            `${match.players[0]} vs ${match.players[1]}`,
+            bet.name,
+            `${bet.startHole}-${bet.endHole}`,
+            formatNassauBet(bet, match.players, format),
+            bet.winner || '',
+          ]);
+        });
+      });
+      rows.push(['From', 'To', 'Amount']);
+      nassauResult.ledger.forEach((entry) => {
+        rows.push([entry.from, entry.to, entry.amount.toString()]);
+      });
+    }
     
     // Convert to CSV string
     const csvContent = rows.map(row => 
@@ -183,8 +469,36 @@ function ScorecardEditor({
             {scorecard.date && (
               <p className="text-sm text-gray-600">Date: {scorecard.date}</p>
             )}
+            <label className="inline-flex items-center gap-2 mt-1 mr-4 text-sm text-gray-600">
+              <input type="checkbox" checked={showDetails} onChange={(e) => setShowDetails(e.target.checked)} />
+              Putts / fairways / penalties
+            </label>
+            <label className="inline-flex items-center gap-2 mt-1 text-sm text-gray-600">
+              Stableford:
+              <select
+                value={scorecard.stableford?.name || STABLEFORD_TABLES[0].name}
+                onChange={(e) => handleStablefordChange(e.target.value)}
+                className="border border-gray-300 px-2 py-0.5 text-sm bg-white"
+              >
+                {stablefordTables.map((table) => (
+                  <option key={table.name} value={table.name}>{table.name}</option>
+                ))}
+              </select>
+            </label>
           </div>
           <div className="flex flex-col sm:flex-row gap-3">
+            {imageFile && (
+              <button
+                onClick={() => setReviewMode((prev) => !prev)}
+                className={`flex items-center justify-center px-5 py-2.5 transition-all duration-200 font-semibold shadow-lg hover:shadow-xl border ${
+                  reviewMode
+                    ? 'bg-gray-200 text-black border-gray-400'
+                    : 'bg-white text-black border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {reviewMode ? 'Hide Photo' : 'Review with Photo'}
+              </button>
+            )}
             <button
               onClick={exportToCSV}
               className="flex items-center justify-center px-5 py-2.5 bg-black hover:bg-gray-800 text-white transition-all duration-200 font-semibold shadow-lg hover:shadow-xl transform hover:scale-105"
@@ -219,6 +533,78 @@ function ScorecardEditor({
         </div>
       </div>
 
+      {/* Reference comparison summary */}
+      {reference && (
+        <div
+          className={`px-4 py-3 text-sm border ${
+            discrepancies.length > 0
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-green-50 border-green-200 text-green-800'
+          }`}
+        >
+          {discrepancies.length > 0
+            ? `${discrepancies.length} difference(s) from the reference scorecard - expected values are shown under each cell`
+            : 'Scorecard matches the reference'}
+          {discrepancies
+            .filter((d) => d.field === 'playerName' && d.extracted === null)
+            .map((d) => (
+              <div key={d.playerName} className="text-xs mt-1">
+                Reference player not found: {d.expected}
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Handwritten totals cross-check */}
+      {totalsChecks.length > 0 && (
+        <div className="px-4 py-3 text-sm border bg-yellow-50 border-yellow-200 text-yellow-900 space-y-3">
+          <div className="font-medium">
+            Totals written on the card don&apos;t match the hole scores for {totalsChecks.length} player(s)
+          </div>
+          {totalsChecks.map((check) => (
+            <div key={check.playerName} className="space-y-1">
+              <div className="font-medium">
+                {check.playerName}:{' '}
+                {check.mismatches
+                  .map((m) => `${m.segment === 'front' ? 'OUT' : m.segment === 'back' ? 'IN' : 'TOTAL'} ${m.reported} on card vs ${m.calculated} from holes`)
+                  .join(', ')}
+              </div>
+              {check.suggestions.map((suggestion) => (
+                <div key={`${suggestion.holeNumber}-${suggestion.suggestedScore}`} className="flex items-center gap-3 text-xs">
+                  <span>
+                    Hole {suggestion.holeNumber}: {suggestion.currentScore ?? '-'} → {suggestion.suggestedScore}
+                    <span className="text-yellow-700"> ({suggestion.reason})</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleScoreChange(check.playerName, suggestion.holeNumber, String(suggestion.suggestedScore))}
+                    className="px-2 py-0.5 bg-yellow-600 text-white hover:bg-yellow-700 transition-colors"
+                  >
+                    Apply
+                  </button>
+                </div>
+              ))}
+              {check.notes.map((note) => (
+                <div key={note} className="text-xs">{note}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className={reviewMode && imageFile ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : ''}>
+      {/* Original photo with extracted grid overlay */}
+      {reviewMode && imageFile && (
+        <div className="xl:sticky xl:top-4">
+          <ScorecardReview
+            image={scorecardImage}
+            scorecard={scorecard}
+            focusedCell={focusedCell}
+            onCellSelect={handleReviewCellSelect}
+          />
+        </div>
+      )}
+
       {/* Scorecard Table */}
       <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 overflow-hidden">
         <div className="overflow-x-auto">
@@ -262,6 +648,12 @@ function ScorecardEditor({
               <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-100">
                 Total
               </th>
+              <th
+                className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider bg-yellow-50"
+                title={`${derived.stablefordSystem || 'Standard'} Stableford points`}
+              >
+                Pts
+              </th>
             </tr>
             <tr className="bg-gray-50 border-t border-gray-200">
               <td className="px-4 py-2 text-sm font-medium text-gray-700">Par</td>
@@ -269,9 +661,12 @@ function ScorecardEditor({
               {scorecard.holes.filter(h => h.holeNumber <= 9).map((hole) => (
                 <td
                   key={hole.holeNumber}
-                  className="px-4 py-2 text-center text-sm font-semibold text-gray-900"
+                  className={`px-4 py-2 text-center text-sm font-semibold text-gray-900 ${
+                    isCellFocused(undefined, hole.holeNumber) ? 'ring-2 ring-black ring-inset' : ''
+                  }`}
                 >
                   {hole.par}
+                  {renderExpected(findDiscrepancy('par', hole.holeNumber))}
                 </td>
               ))}
               {/* OUT par total */}
@@ -284,9 +679,12 @@ function ScorecardEditor({
               {scorecard.holes.filter(h => h.holeNumber >= 10).map((hole) => (
                 <td
                   key={hole.holeNumber}
-                  className="px-4 py-2 text-center text-sm font-semibold text-gray-900"
+                  className={`px-4 py-2 text-center text-sm font-semibold text-gray-900 ${
+                    isCellFocused(undefined, hole.holeNumber) ? 'ring-2 ring-black ring-inset' : ''
+                  }`}
                 >
                   {hole.par}
+                  {renderExpected(findDiscrepancy('par', hole.holeNumber))}
                 </td>
               ))}
               {/* IN par total */}
@@ -299,6 +697,7 @@ function ScorecardEditor({
               <td className="px-4 py-2 text-center text-sm font-bold text-gray-900 bg-gray-100">
                 {scorecard.holes.reduce((sum, h) => sum + h.par, 0)}
               </td>
+              <td className="px-4 py-2 bg-yellow-50" />
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -309,12 +708,29 @@ function ScorecardEditor({
                 <tr key={player.name} className={playerIdx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                   <td className="px-4 py-3 text-sm font-medium text-gray-900">
                     <input
+                      id={`scorecard-name-${playerIdx}`}
                       type="text"
                       value={player.name}
+                      onFocus={() => setFocusedCell({ playerName: player.name })}
                       onChange={(e) => handlePlayerNameChange(player.name, e.target.value)}
                       className="w-full border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none transition-colors bg-transparent font-medium"
                       placeholder="Player Name"
                     />
+                    {findDiscrepancy('playerName', undefined, player.name) && (
+                      <div className="text-xs text-red-600">Not in reference</div>
+                    )}
+                    <label className="flex items-center gap-1 mt-1 text-xs text-gray-500 font-normal">
+                      Hcp
+                      <input
+                        type="number"
+                        min="-10"
+                        max="54"
+                        value={player.courseHandicap ?? ''}
+                        onChange={(e) => handleCourseHandicapChange(player.name, e.target.value)}
+                        className="w-14 border rounded px-1 py-0.5 text-xs text-gray-900"
+                        title="Course handicap for this round (negative for a plus handicap)"
+                      />
+                    </label>
                   </td>
                   {/* Front 9 scores */}
                   {scorecard.holes.filter(h => h.holeNumber <= 9).map((hole) => {
@@ -322,14 +738,17 @@ function ScorecardEditor({
                     const holeDerived = derived.holes
                       .find((h) => h.holeNumber === hole.holeNumber)
                       ?.playerResults.find((pr) => pr.playerName === player.name);
+                    const scoreDiscrepancy = findDiscrepancy('score', hole.holeNumber, player.name);
                     
                     return (
                       <td key={hole.holeNumber} className="px-2 py-2 text-center">
                         <input
+                          id={`scorecard-score-${playerIdx}-${hole.holeNumber}`}
                           type="number"
                           min="1"
                           max="20"
                           value={holeScore?.score ?? ''}
+                          onFocus={() => setFocusedCell({ playerName: player.name, holeNumber: hole.holeNumber })}
                           onChange={(e) =>
                             handleScoreChange(player.name, hole.holeNumber, e.target.value)
                           }
@@ -337,15 +756,27 @@ function ScorecardEditor({
                             holeDerived?.relationToPar
                               ? getRelationToParColor(holeDerived.relationToPar)
                               : 'text-gray-400'
-                          } ${
-                            holeScore?.confidence === 'low' 
+                          } ${holeDerived?.holeInOne ? 'ring-2 ring-amber-400' : ''} ${
+                            scoreDiscrepancy
+                              ? 'border-2 border-red-400 bg-red-50'
+                              : holeScore?.confidence === 'low' 
                               ? 'border-2 border-yellow-400 bg-yellow-50' 
                               : holeScore?.confidence === 'medium'
                               ? 'border-yellow-300'
                               : ''
                           }`}
-                          title={holeScore?.confidence === 'low' ? 'Low confidence - please verify' : holeScore?.confidence === 'medium' ? 'Medium confidence' : ''}
+                          title={scoreDiscrepancy ? `Expected ${scoreDiscrepancy.expected ?? '-'}, read ${scoreDiscrepancy.extracted ?? '-'}` : describeConfidence(holeScore)}
                         />
+                        {renderStrokes(holeDerived?.strokesReceived)}
+                        {showDetails && renderHoleDetails(player.name, hole, holeScore, holeDerived?.greenInRegulation)}
+                        {renderExpected(scoreDiscrepancy)}
+                        {scorecardImage && holeScore?.confidence === 'low' && holeScore.boundingBox && (
+                          <CellCrop
+                            image={scorecardImage}
+                            box={holeScore.boundingBox}
+                            alt={`${player.name} hole ${hole.holeNumber} as written`}
+                          />
+                        )}
                       </td>
                     );
                   })}
@@ -361,14 +792,17 @@ function ScorecardEditor({
                     const holeDerived = derived.holes
                       .find((h) => h.holeNumber === hole.holeNumber)
                       ?.playerResults.find((pr) => pr.playerName === player.name);
+                    const scoreDiscrepancy = findDiscrepancy('score', hole.holeNumber, player.name);
                     
                     return (
                       <td key={hole.holeNumber} className="px-2 py-2 text-center">
                         <input
+                          id={`scorecard-score-${playerIdx}-${hole.holeNumber}`}
                           type="number"
                           min="1"
                           max="20"
                           value={holeScore?.score ?? ''}
+                          onFocus={() => setFocusedCell({ playerName: player.name, holeNumber: hole.holeNumber })}
                           onChange={(e) =>
                             handleScoreChange(player.name, hole.holeNumber, e.target.value)
                           }
@@ -376,15 +810,27 @@ function ScorecardEditor({
                             holeDerived?.relationToPar
                               ? getRelationToParColor(holeDerived.relationToPar)
                               : 'text-gray-400'
-                          } ${
-                            holeScore?.confidence === 'low' 
+                          } ${holeDerived?.holeInOne ? 'ring-2 ring-amber-400' : ''} ${
+                            scoreDiscrepancy
+                              ? 'border-2 border-red-400 bg-red-50'
+                              : holeScore?.confidence === 'low' 
                               ? 'border-2 border-yellow-400 bg-yellow-50' 
                               : holeScore?.confidence === 'medium'
                               ? 'border-yellow-300'
                               : ''
                           }`}
-                          title={holeScore?.confidence === 'low' ? 'Low confidence - please verify' : holeScore?.confidence === 'medium' ? 'Medium confidence' : ''}
+                          title={scoreDiscrepancy ? `Expected ${scoreDiscrepancy.expected ?? '-'}, read ${scoreDiscrepancy.extracted ?? '-'}` : describeConfidence(holeScore)}
                         />
+                        {renderStrokes(holeDerived?.strokesReceived)}
+                        {showDetails && renderHoleDetails(player.name, hole, holeScore, holeDerived?.greenInRegulation)}
+                        {renderExpected(scoreDiscrepancy)}
+                        {scorecardImage && holeScore?.confidence === 'low' && holeScore.boundingBox && (
+                          <CellCrop
+                            image={scorecardImage}
+                            box={holeScore.boundingBox}
+                            alt={`${player.name} hole ${hole.holeNumber} as written`}
+                          />
+                        )}
                       </td>
                     );
                   })}
@@ -401,6 +847,20 @@ function ScorecardEditor({
                       ({playerDerived && playerDerived.scoreToPar >= 0 ? '+' : ''}
                       {playerDerived?.scoreToPar})
                     </div>
+                    {playerDerived?.netScore !== undefined && (
+                      <div className="text-xs text-blue-700 whitespace-nowrap">
+                        Net {playerDerived.netScore} ({formatScoreToPar(playerDerived.netToPar ?? 0)})
+                      </div>
+                    )}
+                  </td>
+                  {/* Stableford column */}
+                  <td className="px-4 py-3 text-center text-sm font-bold text-gray-900 bg-yellow-50">
+                    {playerDerived?.stablefordPoints ?? '-'}
+                    {playerDerived?.netStablefordPoints !== undefined && (
+                      <div className="text-xs text-blue-700 whitespace-nowrap">
+                        Net {playerDerived.netStablefordPoints}
+                      </div>
+                    )}
                   </td>
                 </tr>
               );
@@ -409,6 +869,36 @@ function ScorecardEditor({
         </table>
         </div>
       </div>
+      </div>
+
+      {/* Match play */}
+      <MatchPlayPanel
+        playerNames={scorecard.players.map((p) => p.name)}
+        holeNumbers={scorecard.holes.map((h) => h.holeNumber)}
+        matches={scorecard.matches || []}
+        results={matchResults}
+        onMatchesChange={handleMatchesChange}
+      />
+
+      {/* Skins */}
+      {scorecard.players.length > 1 && (
+        <SkinsPanel settings={scorecard.skins} result={skinsResult} onSettingsChange={handleSkinsChange} />
+      )}
+
+      {/* Nassau */}
+      {scorecard.players.length > 1 && (
+        <NassauPanel settings={scorecard.nassau} result={nassauResult} onSettingsChange={handleNassauChange} />
+      )}
+
+      {/* Teams */}
+      {scorecard.players.length > 1 && (
+        <TeamsPanel
+          playerNames={scorecard.players.map((p) => p.name)}
+          settings={scorecard.teams}
+          result={teamScoring}
+          onSettingsChange={handleTeamsChange}
+        />
+      )}
 
       {/* Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -425,6 +915,73 @@ function ScorecardEditor({
                   {player.scoreToPar})
                 </span>
               </div>
+              {player.netScore !== undefined && (
+                <div className="flex justify-between items-center p-2 bg-blue-50">
+                  <span className="text-gray-700 font-medium">
+                    Net (Hcp {formatHandicap(player.courseHandicap ?? 0)}):
+                  </span>
+                  <span className="font-bold text-blue-700">
+                    {player.netScore} ({formatScoreToPar(player.netToPar ?? 0)})
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between items-center p-2 bg-yellow-50">
+                <span className="text-gray-700 font-medium">Stableford:</span>
+                <span className="font-bold text-gray-900">
+                  {player.stablefordPoints} pts
+                  {player.netStablefordPoints !== undefined && ` (net ${player.netStablefordPoints})`}
+                </span>
+              </div>
+              {player.holeDetails && (
+                <div className="p-2 bg-green-50 space-y-1">
+                  {player.holeDetails.puttsHoles > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-700 font-medium">Putts:</span>
+                      <span className="font-semibold text-gray-900">
+                        {player.holeDetails.putts} ({player.holeDetails.puttsPerHole}/hole, {player.holeDetails.threePutts} 3-putt)
+                      </span>
+                    </div>
+                  )}
+                  {player.holeDetails.fairwayChances > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-700 font-medium">Fairways:</span>
+                      <span className="font-semibold text-gray-900">
+                        {player.holeDetails.fairwaysHit}/{player.holeDetails.fairwayChances} (L {player.holeDetails.fairwaysLeft}, R {player.holeDetails.fairwaysRight})
+                      </span>
+                    </div>
+                  )}
+                  {player.holeDetails.girChances > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-700 font-medium">Greens in reg.:</span>
+                      <span className="font-semibold text-gray-900">
+                        {player.holeDetails.greensInRegulation}/{player.holeDetails.girChances}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-700 font-medium">Penalties:</span>
+                    <span className="font-semibold text-red-700">{player.holeDetails.penalties}</span>
+                  </div>
+                </div>
+              )}
+              {player.holesInOne > 0 && (
+                <div className="flex justify-between items-center p-2 bg-amber-100 border border-amber-300">
+                  <span className="text-amber-900 font-semibold">Hole-in-one!</span>
+                  <span className="font-bold text-amber-900">{player.holesInOne}</span>
+                </div>
+              )}
+              {player.condors > 0 && (
+                <div className="flex justify-between items-center p-2 hover:bg-gray-100 transition-colors">
+                  <span className="text-gray-600">Condors:</span>
+                  <span className="font-semibold text-pink-700">{player.condors}</span>
+                </div>
+              )}
+              {player.albatrosses > 0 && (
+                <div className="flex justify-between items-center p-2 hover:bg-gray-100 transition-colors">
+                  <span className="text-gray-600">Albatrosses:</span>
+                  <span className="font-semibold text-fuchsia-700">{player.albatrosses}</span>
+                </div>
+              )}
               {player.eagles > 0 && (
                 <div className="flex justify-between items-center p-2 hover:bg-gray-100 transition-colors">
                   <span className="text-gray-600">Eagles:</span>
@@ -459,6 +1016,70 @@ function ScorecardEditor({
           </div>
         ))}
       </div>
+
+      {/* Extended statistics */}
+      <RoundStatsPanel players={derived.players} />
+    </div>
+  );
+}
+
+/**
+ * Tooltip text explaining a score's OCR confidence
+ */
+function describeConfidence(holeScore?: PlayerHoleScore): string {
+  if (!holeScore?.confidence) {
+    return '';
+  }
+
+  const label = holeScore.confidence === 'low'
+    ? 'Low confidence - please verify'
+    : holeScore.confidence === 'medium'
+    ? 'Medium confidence'
+    : 'High confidence';
+  const percent = holeScore.confidenceScore !== undefined ? ` (${Math.round(holeScore.confidenceScore * 100)}%)` : '';
+  const reasons = holeScore.confidenceReasons?.length ? `\n${holeScore.confidenceReasons.join('\n')}` : '';
+
+  return `${label}${percent}${reasons}`;
+}
+
+/**
+ * Formats a course handicap, showing plus handicaps as "+2"
+ */
+function formatHandicap(courseHandicap: number): string {
+  return courseHandicap < 0 ? `+${-courseHandicap}` : `${courseHandicap}`;
+}
+
+/**
+ * Marks the handicap strokes a player gets (dots) or gives back (plus signs) on a hole
+ */
+function renderStrokes(strokesReceived?: number) {
+  if (!strokesReceived) {
+    return null;
+  }
+
+  return (
+    <div
+      className="text-xs leading-none text-blue-700"
+      title={strokesReceived > 0
+        ? `Receives ${strokesReceived} handicap stroke(s)`
+        : `Gives back ${-strokesReceived} stroke(s) (plus handicap)`}
+    >
+      {strokesReceived > 0 ? '•'.repeat(strokesReceived) : '+'.repeat(-strokesReceived)}
+    </div>
+  );
+}
+
+/**
+ * Shows the reference value under a cell that differs from it
+ */
+function renderExpected(discrepancy?: ScorecardDiscrepancy) {
+  if (!discrepancy || discrepancy.expected === null) {
+    return null;
+  }
+
+  return (
+    <div className="text-xs text-red-600" title={`Read ${discrepancy.extracted ?? 'nothing'}`}>
+      exp {discrepancy.expected}
     </div>
   );
 }
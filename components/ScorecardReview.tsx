@@ -0,0 +1,213 @@
+/**
+ * ScorecardReview Component
+ *
+ * Shows the original scorecard photo with the extracted grid drawn on top.
+ * Each score cell is outlined by where its value came from (Textract, Vision,
+ * manual edit) and filled by OCR confidence. The cell behind the focused input
+ * in ScorecardEditor is highlighted; clicking a cell focuses its input.
+ *
+ * useScorecardImage loads the photo once per upload; the editor shares it with
+ * the cell crops (CellCrop) so the photo is never sent back to the server per cell.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { BoundingBox, ExtractedScorecard, PlayerHoleScore } from '@/lib/types';
+
+// A cell in the editor table: a player's score, or a par/name when holeNumber/playerName is absent
+export interface ReviewCell {
+  playerName?: string;
+  holeNumber?: number;
+}
+
+// The uploaded photo as the browser can display it, with its size in pixels
+export interface ScorecardImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+interface ScorecardReviewProps {
+  image: ScorecardImage | null;
+  scorecard: ExtractedScorecard;
+  focusedCell: ReviewCell | null;
+  onCellSelect: (cell: ReviewCell) => void;
+}
+
+const SOURCE_OUTLINE: Record<NonNullable<PlayerHoleScore['source']>, string> = {
+  textract: 'border-blue-500',
+  vision: 'border-purple-500',
+  manual: 'border-green-600',
+};
+
+const CONFIDENCE_FILL: Record<NonNullable<PlayerHoleScore['confidence']>, string> = {
+  high: 'bg-transparent',
+  medium: 'bg-yellow-300/30',
+  low: 'bg-red-500/30',
+};
+
+/**
+ * Loads an uploaded photo for display (null while loading or without a photo)
+ */
+export function useScorecardImage(imageFile: File | null | undefined): ScorecardImage | null {
+  const [image, setImage] = useState<ScorecardImage | null>(null);
+
+  useEffect(() => {
+    setImage(null);
+    if (!imageFile) {
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const loadImage = async () => {
+      // Browsers can't display HEIC, so show the server's JPEG conversion (the image OCR saw)
+      if (/\.(heic|heif)$/i.test(imageFile.name) || /^image\/hei[cf]$/i.test(imageFile.type)) {
+        try {
+          const formData = new FormData();
+          formData.append('image', imageFile);
+          formData.append('box', JSON.stringify({ left: 0, top: 0, width: 1, height: 1 }));
+          formData.append('padding', '0');
+
+          const response = await fetch('/api/scorecards/crop', { method: 'POST', body: formData });
+          if (!response.ok || cancelled) return;
+
+          const blob = await response.blob();
+          // Unmounted or given another image while the conversion was downloading
+          if (cancelled) return;
+
+          objectUrl = URL.createObjectURL(blob);
+        } catch (err) {
+          console.error('[ScorecardReview] Failed to convert HEIC image:', err);
+          return;
+        }
+      } else {
+        objectUrl = URL.createObjectURL(imageFile);
+      }
+
+      // The crops need the pixel size to keep the cells' aspect ratio
+      const url = objectUrl;
+      const element = new Image();
+      element.onload = () => {
+        if (!cancelled) {
+          setImage({ url, width: element.naturalWidth, height: element.naturalHeight });
+        }
+      };
+      element.onerror = () => console.error('[ScorecardReview] Failed to load scorecard image');
+      element.src = url;
+    };
+
+    loadImage();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [imageFile]);
+
+  return image;
+}
+
+export default function ScorecardReview({
+  image,
+  scorecard,
+  focusedCell,
+  onCellSelect,
+}: ScorecardReviewProps) {
+  const isFocused = (cell: ReviewCell) =>
+    focusedCell !== null &&
+    focusedCell.playerName === cell.playerName &&
+    focusedCell.holeNumber === cell.holeNumber;
+
+  const renderBox = (key: string, box: BoundingBox, cell: ReviewCell, className: string, title: string) => (
+    <button
+      key={key}
+      type="button"
+      onClick={() => onCellSelect(cell)}
+      title={title}
+      className={`absolute border ${className} ${
+        isFocused(cell) ? 'ring-4 ring-black z-10' : 'hover:ring-2 hover:ring-gray-700'
+      }`}
+      style={{
+        left: `${box.left * 100}%`,
+        top: `${box.top * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`,
+      }}
+    />
+  );
+
+  const hasGeometry = scorecard.players.some((p) => p.scores.some((s) => s.boundingBox));
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 space-y-3">
+      <div className="relative w-full">
+        {image ? (
+          <img src={image.url} alt="Original scorecard" className="w-full h-auto block" />
+        ) : (
+          <div className="h-48 flex items-center justify-center text-sm text-gray-500">Loading image...</div>
+        )}
+
+        {image && (
+          <div className="absolute inset-0">
+            {scorecard.holes.map((hole) =>
+              hole.parBoundingBox
+                ? renderBox(
+                    `par-${hole.holeNumber}`,
+                    hole.parBoundingBox,
+                    { holeNumber: hole.holeNumber },
+                    'border-gray-500',
+                    `Par hole ${hole.holeNumber}: ${hole.par}`
+                  )
+                : null
+            )}
+            {scorecard.players.map((player) => [
+              player.nameBoundingBox
+                ? renderBox(
+                    `name-${player.name}`,
+                    player.nameBoundingBox,
+                    { playerName: player.name },
+                    'border-gray-500',
+                    player.name
+                  )
+                : null,
+              ...player.scores.map((score) =>
+                score.boundingBox && typeof score.holeNumber === 'number'
+                  ? renderBox(
+                      `score-${player.name}-${score.holeNumber}`,
+                      score.boundingBox,
+                      { playerName: player.name, holeNumber: score.holeNumber },
+                      `${score.source ? SOURCE_OUTLINE[score.source] : 'border-gray-400'} ${
+                        score.confidence ? CONFIDENCE_FILL[score.confidence] : 'bg-transparent'
+                      }`,
+                      `${player.name} hole ${score.holeNumber}: ${score.score ?? '-'}${
+                        score.source ? ` (${score.source}${score.confidence ? `, ${score.confidence} confidence` : ''})` : ''
+                      }`
+                    )
+                  : null
+              ),
+            ])}
+          </div>
+        )}
+      </div>
+
+      {hasGeometry ? (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 border-2 border-blue-500" /> Textract</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 border-2 border-purple-500" /> Vision</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 border-2 border-green-600" /> Edited</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 bg-yellow-300/60" /> Medium confidence</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-500/50" /> Low confidence</span>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Cell positions are not available for this extraction (table structure was not detected), so no grid is shown.
+        </p>
+      )}
+    </div>
+  );
+}
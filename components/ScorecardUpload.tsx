@@ -2,22 +2,60 @@
  * ScorecardUpload Component
  * 
  * Allows users to upload a golf scorecard image for analysis.
- * Sends the image to /api/scorecards and displays loading state.
+ * Sends the image to /api/scorecards with streaming enabled and shows each
+ * extraction step (structure detected, Vision gap-filling, validation
+ * warnings) as the server reports it.
  */
 
 'use client';
 
 import { useState } from 'react';
 import type { ScorecardAnalysisResponse } from '@/lib/types';
+import type { OcrProgressEvent } from '@/lib/ocrProvider';
+import { createSseParser } from '@/lib/serverSentEvents';
 
 interface ScorecardUploadProps {
-  onAnalysisComplete: (data: ScorecardAnalysisResponse) => void;
+  onAnalysisComplete: (data: ScorecardAnalysisResponse, imageFile: File) => void;
 }
 
 export default function ScorecardUpload({ onAnalysisComplete }: ScorecardUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [steps, setSteps] = useState<OcrProgressEvent[]>([]);
+
+  // Reads the event stream until the result (or an error) arrives
+  const readAnalysisStream = async (response: Response): Promise<ScorecardAnalysisResponse> => {
+    let result: ScorecardAnalysisResponse | null = null;
+    let streamError: string | null = null;
+
+    const parse = createSseParser((event, data) => {
+      if (event === 'progress') {
+        setSteps((prev) => [...prev, JSON.parse(data) as OcrProgressEvent]);
+      } else if (event === 'result') {
+        result = JSON.parse(data) as ScorecardAnalysisResponse;
+      } else if (event === 'error') {
+        streamError = (JSON.parse(data) as { error?: string }).error || 'Failed to analyze scorecard';
+      }
+    });
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parse(decoder.decode(value, { stream: true }));
+    }
+
+    if (streamError) {
+      throw new Error(streamError);
+    }
+    if (!result) {
+      throw new Error('Analysis ended without a result');
+    }
+    return result;
+  };
 
   const handleFile = async (file: File) => {
     // Check if it's an image or HEIC file
@@ -36,12 +74,13 @@ export default function ScorecardUpload({ onAnalysisComplete }: ScorecardUploadP
 
     setIsUploading(true);
     setError(null);
+    setSteps([]);
 
     try {
       const formData = new FormData();
       formData.append('image', file);
 
-      const response = await fetch('/api/scorecards', {
+      const response = await fetch('/api/scorecards?stream=1', {
         method: 'POST',
         body: formData,
       });
@@ -51,11 +90,14 @@ export default function ScorecardUpload({ onAnalysisComplete }: ScorecardUploadP
         throw new Error(errorData.error || 'Failed to analyze scorecard');
       }
 
-      const data: ScorecardAnalysisResponse = await response.json();
+      const isStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+      const data: ScorecardAnalysisResponse = isStream && response.body
+        ? await readAnalysisStream(response)
+        : await response.json();
       console.log('[ScorecardUpload] Received response data:', data);
       console.log('[ScorecardUpload] Extracted players:', data.extracted?.players?.length);
       console.log('[ScorecardUpload] Calling onAnalysisComplete...');
-      onAnalysisComplete(data);
+      onAnalysisComplete(data, file);
       console.log('[ScorecardUpload] onAnalysisComplete called successfully');
     } catch (err) {
       console.error('Upload error:', err);
@@ -131,6 +173,27 @@ export default function ScorecardUpload({ onAnalysisComplete }: ScorecardUploadP
                   <div className="animate-spin h-10 w-10 border-4 border-transparent border-t-black absolute top-0 left-0"></div>
                 </div>
               </div>
+              {steps.length > 0 && (
+                <ul className="max-w-md mx-auto text-left text-sm space-y-1">
+                  {steps.map((step, idx) => {
+                    const next = steps[idx + 1];
+                    // A started stage is replaced by its completion event
+                    if (!step.completed && next?.completed && next.stage === step.stage) {
+                      return null;
+                    }
+                    const isActive = idx === steps.length - 1 && !step.completed;
+
+                    return (
+                      <li key={idx} className={isActive ? 'text-black font-medium' : 'text-gray-600'}>
+                        {isActive ? '…' : '✓'} {step.message}
+                        {step.warnings?.map((warning) => (
+                          <div key={warning} className="ml-5 text-xs text-yellow-700">{warning}</div>
+                        ))}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
           ) : (
             <>
@@ -0,0 +1,130 @@
+/**
+ * SkinsPanel Component
+ *
+ * Optional skins game played off the card: toggles the game on, sets its
+ * rules (gross/net, carryovers, validation, value per skin) and shows the
+ * winner of each hole and each player's skins and payout.
+ */
+
+'use client';
+
+import type { SkinsResult, SkinsSettings } from '@/lib/types';
+import { DEFAULT_SKINS_SETTINGS } from '@/lib/skins';
+
+interface SkinsPanelProps {
+  settings?: SkinsSettings;
+  result: SkinsResult | null;
+  onSettingsChange: (settings: SkinsSettings | undefined) => void;
+}
+
+const VALIDATION_LABELS: Record<SkinsSettings['validation'], string> = {
+  none: 'Any score wins',
+  par: 'Par to win',
+  birdie: 'Birdie to win',
+};
+
+export default function SkinsPanel({ settings, result, onSettingsChange }: SkinsPanelProps) {
+  const update = (changes: Partial<SkinsSettings>) => {
+    onSettingsChange({ ...(settings || DEFAULT_SKINS_SETTINGS), ...changes });
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Skins</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!settings}
+            onChange={(e) => onSettingsChange(e.target.checked ? DEFAULT_SKINS_SETTINGS : undefined)}
+          />
+          Play skins
+        </label>
+      </div>
+
+      {settings && (
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Scoring</span>
+            <select
+              value={settings.mode}
+              onChange={(e) => update({ mode: e.target.value as SkinsSettings['mode'] })}
+              className="border border-gray-300 px-2 py-1 bg-white"
+            >
+              <option value="gross">Gross</option>
+              <option value="net">Net</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Validation</span>
+            <select
+              value={settings.validation}
+              onChange={(e) => update({ validation: e.target.value as SkinsSettings['validation'] })}
+              className="border border-gray-300 px-2 py-1 bg-white"
+            >
+              {Object.entries(VALIDATION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">$ per skin</span>
+            <input
+              type="number"
+              min="0"
+              value={settings.valuePerSkin}
+              onChange={(e) => update({ valuePerSkin: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-20 border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center gap-2 pb-1">
+            <input
+              type="checkbox"
+              checked={settings.carryover}
+              onChange={(e) => update({ carryover: e.target.checked })}
+            />
+            Carryovers
+          </label>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="overflow-x-auto">
+            <div className="flex gap-px text-xs text-center">
+              {result.holes.map((hole) => (
+                <div
+                  key={hole.holeNumber}
+                  className={`min-w-[3rem] flex-1 px-1 py-1 ${hole.winner ? 'bg-green-100 text-green-800' : 'bg-gray-50 text-gray-500'}`}
+                  title={hole.winner
+                    ? `Hole ${hole.holeNumber}: ${hole.winner} wins ${hole.skins} skin(s) with ${hole.winningScore}`
+                    : `Hole ${hole.holeNumber}: ${hole.note}${hole.carried ? ` - ${hole.carried} carried` : ''}`}
+                >
+                  <div className="text-gray-500">{hole.holeNumber}</div>
+                  <div className="font-semibold truncate">{hole.winner || (hole.carried ? `→${hole.carried}` : '-')}</div>
+                  {hole.skins > 1 && <div>×{hole.skins}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            {result.players.map((player) => (
+              <div key={player.name} className="flex justify-between p-2 bg-gray-50">
+                <span className="text-gray-700 font-medium">{player.name}</span>
+                <span className={player.skins > 0 ? 'font-bold text-green-700' : 'text-gray-500'}>
+                  {player.skins} · ${player.payout}
+                </span>
+              </div>
+            ))}
+          </div>
+          {result.unclaimedSkins > 0 && (
+            <div className="text-xs text-gray-600">
+              {result.unclaimedSkins} skin(s) unclaimed after the last hole
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
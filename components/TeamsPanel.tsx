@@ -0,0 +1,212 @@
+/**
+ * TeamsPanel Component
+ *
+ * Groups the players on the card into teams, picks the team format (best
+ * ball of 1 or 2, aggregate, scramble; gross or net) and shows the team
+ * leaderboard with each team's hole-by-hole scores.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { TeamDefinition, TeamScoring, TeamSettings } from '@/lib/types';
+import { formatScoreToPar } from '@/lib/golfScoring';
+
+interface TeamsPanelProps {
+  playerNames: string[];
+  settings?: TeamSettings;
+  result: TeamScoring | null;
+  onSettingsChange: (settings: TeamSettings | undefined) => void;
+}
+
+// Format choices: best ball is split by how many balls count
+const FORMAT_OPTIONS: { value: string; label: string; format: TeamSettings['format']; ballsCounting?: number }[] = [
+  { value: 'best-ball-1', label: 'Best ball (1 counts)', format: 'best-ball', ballsCounting: 1 },
+  { value: 'best-ball-2', label: 'Best ball (2 count)', format: 'best-ball', ballsCounting: 2 },
+  { value: 'aggregate', label: 'Aggregate', format: 'aggregate' },
+  { value: 'scramble', label: 'Scramble (team row)', format: 'scramble' },
+];
+
+const DEFAULT_TEAM_SETTINGS: TeamSettings = { format: 'best-ball', ballsCounting: 1, mode: 'gross', teams: [] };
+
+export default function TeamsPanel({ playerNames, settings, result, onSettingsChange }: TeamsPanelProps) {
+  const [teamName, setTeamName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const current = settings || DEFAULT_TEAM_SETTINGS;
+  const assigned = new Set(current.teams.flatMap((team) => team.players));
+  const formatValue = current.format === 'best-ball' ? `best-ball-${current.ballsCounting ?? 1}` : current.format;
+  const minPlayers = current.format === 'scramble' ? 1 : 2;
+
+  const update = (changes: Partial<TeamSettings>) => {
+    onSettingsChange({ ...current, ...changes });
+  };
+
+  const handleFormatChange = (value: string) => {
+    const option = FORMAT_OPTIONS.find((o) => o.value === value);
+    if (option) {
+      update({ format: option.format, ballsCounting: option.ballsCounting });
+    }
+  };
+
+  const togglePlayer = (name: string) => {
+    setSelected((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+  };
+
+  const handleAddTeam = () => {
+    if (selected.length < minPlayers) return;
+
+    const team: TeamDefinition = {
+      name: teamName.trim() || (current.format === 'scramble' ? selected[0] : `Team ${current.teams.length + 1}`),
+      players: selected,
+    };
+    update({ teams: [...current.teams, team] });
+    setTeamName('');
+    setSelected([]);
+  };
+
+  const handleRemoveTeam = (name: string) => {
+    update({ teams: current.teams.filter((team) => team.name !== name) });
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm shadow-lg border border-gray-100 p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Teams</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!settings}
+            onChange={(e) => onSettingsChange(e.target.checked ? DEFAULT_TEAM_SETTINGS : undefined)}
+          />
+          Team format
+        </label>
+      </div>
+
+      {settings && (
+        <>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500">Format</span>
+              <select
+                value={formatValue}
+                onChange={(e) => handleFormatChange(e.target.value)}
+                className="border border-gray-300 px-2 py-1 bg-white"
+              >
+                {FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500">Scoring</span>
+              <select
+                value={settings.mode}
+                onChange={(e) => update({ mode: e.target.value as TeamSettings['mode'] })}
+                className="border border-gray-300 px-2 py-1 bg-white"
+              >
+                <option value="gross">Gross</option>
+                <option value="net">Net</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500">Team name</span>
+              <input
+                type="text"
+                value={teamName}
+                onChange={(e) => setTeamName(e.target.value)}
+                placeholder={`Team ${current.teams.length + 1}`}
+                className="w-32 border border-gray-300 px-2 py-1"
+              />
+            </label>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500">
+                {settings.format === 'scramble' ? 'Team row' : 'Players'}
+              </span>
+              <div className="flex flex-wrap gap-1">
+                {playerNames.filter((name) => !assigned.has(name)).map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => togglePlayer(name)}
+                    className={`px-2 py-1 border text-xs transition-colors ${
+                      selected.includes(name)
+                        ? 'border-black bg-black text-white'
+                        : 'border-gray-300 bg-white hover:border-gray-500'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={handleAddTeam}
+              disabled={selected.length < minPlayers}
+              className="px-4 py-1.5 bg-black text-white font-semibold hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Add Team
+            </button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1 pr-2">Pos</th>
+                <th className="py-1 pr-2">Team</th>
+                {result.teams[0]?.holes.map((hole) => (
+                  <th key={hole.holeNumber} className="py-1 px-1 text-center">{hole.holeNumber}</th>
+                ))}
+                <th className="py-1 px-2 text-center">Thru</th>
+                <th className="py-1 px-2 text-center">Total</th>
+                <th className="py-1 px-2 text-center">To Par</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.teams.map((team) => (
+                <tr key={team.name} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 font-semibold">
+                    {team.position === null ? '-' : `${team.tied ? 'T' : ''}${team.position}`}
+                  </td>
+                  <td className="py-1 pr-2">
+                    <div className="font-medium text-gray-900 whitespace-nowrap">{team.name}</div>
+                    <div className="text-xs text-gray-500 whitespace-nowrap">{team.players.join(', ')}</div>
+                  </td>
+                  {team.holes.map((hole) => (
+                    <td
+                      key={hole.holeNumber}
+                      className="py-1 px-1 text-center"
+                      title={hole.counted.length ? `Counted: ${hole.counted.join(', ')}` : 'Not enough scores'}
+                    >
+                      {hole.score ?? '-'}
+                    </td>
+                  ))}
+                  <td className="py-1 px-2 text-center">{team.holesPlayed}</td>
+                  <td className="py-1 px-2 text-center font-semibold">{team.holesPlayed ? team.total : '-'}</td>
+                  <td className="py-1 px-2 text-center font-bold">
+                    {team.holesPlayed ? formatScoreToPar(team.toPar) : '-'}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => handleRemoveTeam(team.name)}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
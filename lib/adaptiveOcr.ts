@@ -9,9 +9,11 @@
  */
 
 import { analyzeWithTextract } from './textractOcr';
-import OpenAI from 'openai';
-import { getOpenAIApiKey } from './secrets';
 import { cleanupExtractedData } from './cleanupOcr';
+import { assessCellConfidence, withConfidence } from './ocrConfidence';
+import { normalizePlayerName, parseModelJson } from './ocrUtils';
+import { collectProvenance, type OcrHints, type OcrProvider } from './ocrProvider';
+import { getOcrTransport, type OcrTransport } from './ocrTransport';
 import type { ExtractedScorecard, PlayerInfo, PlayerHoleScore } from './types';
 
 interface LayoutAnalysis {
@@ -32,19 +34,27 @@ interface OcrResult {
 
 /**
  * Main entry point - tries multiple strategies and returns best result
+ *
+ * @param transport - Where Textract/Vision responses come from (live APIs or recorded fixtures)
  */
-export async function analyzeWithAdaptiveOcr(imageBuffer: Buffer): Promise<ExtractedScorecard> {
+export async function analyzeWithAdaptiveOcr(
+  imageBuffer: Buffer,
+  hints: OcrHints = {},
+  transport: OcrTransport = getOcrTransport()
+): Promise<ExtractedScorecard> {
   console.log('[Adaptive OCR] Starting multi-strategy analysis...');
   
   // Step 1: Analyze layout to understand scorecard structure
-  const layout = await detectLayout(imageBuffer);
+  const detectedLayout = await detectLayout(imageBuffer, transport);
+  // A hole count supplied by the caller wins over the detected one
+  const layout = hints.holeCount ? { ...detectedLayout, holeCount: hints.holeCount } : detectedLayout;
   console.log('[Adaptive OCR] Layout detected:', layout);
 
   // Step 2: Try multiple extraction strategies in parallel
   const strategies = await Promise.allSettled([
-    tryVisionFirst(imageBuffer, layout),
-    tryTextractFirst(imageBuffer, layout),
-    tryHybridApproach(imageBuffer, layout),
+    tryVisionFirst(imageBuffer, layout, transport),
+    tryTextractFirst(imageBuffer, layout, hints, transport),
+    tryHybridApproach(imageBuffer, layout, hints, transport),
   ]);
 
   // Step 3: Collect successful results
@@ -80,21 +90,10 @@ export async function analyzeWithAdaptiveOcr(imageBuffer: Buffer): Promise<Extra
 /**
  * Detect scorecard layout type and characteristics
  */
-async function detectLayout(imageBuffer: Buffer): Promise<LayoutAnalysis> {
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
-
-  const response = await openai.chat.completions.create({
+async function detectLayout(imageBuffer: Buffer, transport: OcrTransport): Promise<LayoutAnalysis> {
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Analyze this golf scorecard layout and provide structural information.
+    prompt: `Analyze this golf scorecard layout and provide structural information.
 
 Answer these questions:
 1. How many holes are on this scorecard? (9 or 18)
@@ -113,31 +112,13 @@ Return ONLY valid JSON:
   "rowOriented": true/false,
   "notes": "any special observations"
 }`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'low',
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 300,
+    detail: 'low',
+    maxTokens: 300,
     temperature: 0,
   });
 
   try {
-    const content = response.choices[0]?.message?.content?.trim() || '{}';
-    let jsonString = content;
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonString.startsWith('```')) {
-      jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-
-    const parsed = JSON.parse(jsonString);
+    const parsed = parseModelJson(content?.trim() || '{}');
     
     return {
       type: parsed.layoutType || 'unknown',
@@ -164,25 +145,18 @@ Return ONLY valid JSON:
  * Strategy 1: Vision-first approach
  * Best for: Handwritten scorecards, non-standard layouts
  */
-async function tryVisionFirst(imageBuffer: Buffer, layout: LayoutAnalysis): Promise<OcrResult> {
+async function tryVisionFirst(
+  imageBuffer: Buffer,
+  layout: LayoutAnalysis,
+  transport: OcrTransport
+): Promise<OcrResult> {
   console.log('[Adaptive OCR] Trying Vision-first strategy...');
   
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
-
   const layoutGuidance = buildLayoutGuidance(layout);
 
-  const response = await openai.chat.completions.create({
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `You are an expert at reading golf scorecards with high accuracy.
+    prompt: `You are an expert at reading golf scorecards with high accuracy.
 
 ${layoutGuidance}
 
@@ -205,32 +179,16 @@ Return ONLY valid JSON:
   "holes": [{"holeNumber": 1, "par": 4}],
   "players": [{"name": "Player Name", "scores": [{"holeNumber": 1, "score": 4}]}]
 }`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'high',
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 4096,
+    detail: 'high',
+    maxTokens: 4096,
     temperature: 0.1,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     throw new Error('No Vision response');
   }
 
-  let jsonString = content.trim();
-  if (jsonString.startsWith('```')) {
-    jsonString = jsonString.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
-  }
-
-  const extracted: ExtractedScorecard = JSON.parse(jsonString);
+  const extracted = parseModelJson<ExtractedScorecard>(content);
   const cleaned = cleanupExtractedData(extracted);
   const validation = validateScorecard(cleaned, layout);
 
@@ -246,10 +204,15 @@ Return ONLY valid JSON:
  * Strategy 2: Textract-first approach
  * Best for: Clean printed scorecards with standard layouts
  */
-async function tryTextractFirst(imageBuffer: Buffer, layout: LayoutAnalysis): Promise<OcrResult> {
+async function tryTextractFirst(
+  imageBuffer: Buffer,
+  layout: LayoutAnalysis,
+  hints: OcrHints,
+  transport: OcrTransport
+): Promise<OcrResult> {
   console.log('[Adaptive OCR] Trying Textract-first strategy...');
   
-  const extracted = await analyzeWithTextract(imageBuffer);
+  const extracted = await analyzeWithTextract(imageBuffer, hints, transport);
   const cleaned = cleanupExtractedData(extracted);
   const validation = validateScorecard(cleaned, layout);
 
@@ -265,23 +228,23 @@ async function tryTextractFirst(imageBuffer: Buffer, layout: LayoutAnalysis): Pr
  * Strategy 3: Hybrid approach
  * Best for: Mixed printed/handwritten, when both have partial success
  */
-async function tryHybridApproach(imageBuffer: Buffer, layout: LayoutAnalysis): Promise<OcrResult> {
+async function tryHybridApproach(
+  imageBuffer: Buffer,
+  layout: LayoutAnalysis,
+  hints: OcrHints,
+  transport: OcrTransport
+): Promise<OcrResult> {
   console.log('[Adaptive OCR] Trying Hybrid strategy...');
   
   // Get Textract for structure
   let structure: ExtractedScorecard;
   try {
-    structure = await analyzeWithTextract(imageBuffer);
+    structure = await analyzeWithTextract(imageBuffer, hints, transport);
   } catch (error) {
     throw new Error('Textract failed, cannot use hybrid approach');
   }
 
   // Use Vision to fill gaps and verify
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
-
   const playerInfo = structure.players.map((p, i) => 
     `Player ${i + 1}: ${p.name}`
   ).join(', ');
@@ -290,15 +253,9 @@ async function tryHybridApproach(imageBuffer: Buffer, layout: LayoutAnalysis): P
     `Hole ${h.holeNumber} (Par ${h.par})`
   ).join(', ');
 
-  const response = await openai.chat.completions.create({
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Read handwritten scores from this ${layout.holeCount}-hole scorecard.
+    prompt: `Read handwritten scores from this ${layout.holeCount}-hole scorecard.
 
 STRUCTURE (already detected):
 - Holes: ${holeInfo}
@@ -316,32 +273,16 @@ Return ONLY valid JSON with scores for all players:
     {"name": "Player 1 name", "scores": [{"holeNumber": 1, "score": 4 or null}]}
   ]
 }`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'high',
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 4096,
+    detail: 'high',
+    maxTokens: 4096,
     temperature: 0.1,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     throw new Error('No Vision response in hybrid mode');
   }
 
-  let jsonString = content.trim();
-  if (jsonString.startsWith('```')) {
-    jsonString = jsonString.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
-  }
-
-  const visionData = JSON.parse(jsonString);
+  const visionData = parseModelJson(content);
 
   // Merge Vision scores with Textract structure
   const merged: ExtractedScorecard = {
@@ -361,34 +302,27 @@ Return ONLY valid JSON with scores for all players:
           vs.holeNumber === scoreEntry.holeNumber
         );
 
-        // If Textract has a score, calculate confidence
-        if (scoreEntry.score !== null) {
-          const hole = structure.holes.find(h => h.holeNumber === scoreEntry.holeNumber);
-          const par = hole?.par || 4;
-          const diff = Math.abs(scoreEntry.score - par);
-          
-          // If Textract score seems reasonable, keep it
-          if (diff <= 5) {
-            return {
-              ...scoreEntry,
-              confidence: (diff <= 3 ? 'high' : 'medium') as 'high' | 'medium' | 'low',
-              source: 'textract' as const,
-            };
-          }
+        const hole = structure.holes.find(h => h.holeNumber === scoreEntry.holeNumber);
+        const par = hole?.par || 4;
+        const visionValue = typeof visionScore?.score === 'number' ? visionScore.score : null;
+
+        // If Textract score seems reasonable, keep it (confidence reflects Vision agreement)
+        if (scoreEntry.score !== null && Math.abs(scoreEntry.score - par) <= 5) {
+          return withConfidence(scoreEntry, assessCellConfidence({
+            par,
+            textract: scoreEntry.score,
+            textractConfidence: scoreEntry.textractConfidence,
+            vision: visionValue,
+          }));
         }
 
         // Otherwise use Vision
-        if (visionScore?.score !== null && visionScore?.score !== undefined) {
-          const hole = structure.holes.find(h => h.holeNumber === scoreEntry.holeNumber);
-          const par = hole?.par || 4;
-          const diff = Math.abs(visionScore.score - par);
-          
-          return {
-            ...scoreEntry,
-            score: visionScore.score,
-            confidence: (diff <= 3 ? 'high' : diff <= 5 ? 'medium' : 'low') as 'high' | 'medium' | 'low',
-            source: 'vision' as const,
-          };
+        if (visionValue !== null) {
+          const assessment = assessCellConfidence({ par, vision: visionValue });
+          if (scoreEntry.score !== null) {
+            assessment.reasons.push(`Textract read ${scoreEntry.score} (rejected as implausible)`);
+          }
+          return withConfidence(scoreEntry, assessment);
         }
 
         return scoreEntry;
@@ -528,28 +462,14 @@ function validateScorecard(scorecard: ExtractedScorecard, layout: LayoutAnalysis
 }
 
 /**
- * Normalize player names for matching
+ * Adaptive OCR provider: runs several strategies and keeps the best-validated result
  */
-function normalizePlayerName(name: string): string {
-  return name.toLowerCase().trim().replace(/[^a-z0-9]/g, '');
-}
-
-/**
- * Detect MIME type from buffer
- */
-function detectMimeType(buffer: Buffer): string {
-  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
-    return 'image/jpeg';
-  }
-  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
-    return 'image/png';
-  }
-  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
-    return 'image/gif';
-  }
-  if (buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46) {
-    return 'image/webp';
-  }
-  
-  return 'image/jpeg';
-}
+export const adaptiveProvider: OcrProvider = {
+  name: 'adaptive',
+  description: 'Vision-first, Textract-first and hybrid strategies in parallel, best result wins',
+  async analyze(imageBuffer, hints, onProgress) {
+    onProgress?.({ stage: 'vision', message: 'Running Vision, Textract and hybrid strategies' });
+    const scorecard = await analyzeWithAdaptiveOcr(imageBuffer, hints);
+    return { scorecard, provenance: collectProvenance(scorecard, 'vision') };
+  },
+};
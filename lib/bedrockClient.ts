@@ -80,14 +80,14 @@ ${derived.players.map((p) => {
   const scoresStr = player?.scores
     .map((s) => {
       const hole = scorecard.holes.find((h) => h.holeNumber === s.holeNumber);
-      const relation = s.score !== null && hole ? ` (${s.score - hole.par > 0 ? '+' : ''}${s.score - hole.par})` : '';
+      const relation = s.score !== null && hole ? ` (${s.score - hole.par > 0 ? '+' : ''}${s.score - hole.par}${s.score === 1 ? ', hole-in-one' : ''})` : '';
       return `  Hole ${s.holeNumber}: ${s.score ?? 'N/A'}${relation}`;
     })
     .join('\n');
   
   return `${p.name}:
   Total Score: ${p.totalScore} (${p.scoreToPar > 0 ? '+' : ''}${p.scoreToPar})
-  Statistics: ${p.eagles} eagles, ${p.birdies} birdies, ${p.pars} pars, ${p.bogeys} bogeys, ${p.doubleBogeys} double bogeys, ${p.tripleBogeyPlus} triple+
+  Statistics: ${p.holesInOne} holes-in-one, ${p.condors} condors, ${p.albatrosses} albatrosses, ${p.eagles} eagles, ${p.birdies} birdies, ${p.pars} pars, ${p.bogeys} bogeys, ${p.doubleBogeys} double bogeys, ${p.tripleBogeyPlus} triple+
 ${scoresStr}`;
 }).join('\n\n')}
 
@@ -3,6 +3,7 @@
  */
 
 import type { ExtractedScorecard } from './types';
+import { extractReportedTotals } from './reportedTotals';
 
 /**
  * Cleans up extracted scorecard data by removing invalid holes and scores
@@ -64,7 +65,7 @@ export function cleanupExtractedData(scorecard: ExtractedScorecard): ExtractedSc
       if (typeof scoreEntry.holeNumber === 'string') {
         const holeStr = scoreEntry.holeNumber.toLowerCase();
         if (holeStr === 'out' || holeStr === 'in' || holeStr === 'total') {
-          console.log(`[Cleanup] Removing ${player.name}'s ${scoreEntry.holeNumber} column (will be auto-calculated)`);
+          console.log(`[Cleanup] Removing ${player.name}'s ${scoreEntry.holeNumber} column (kept as reported total, will be auto-calculated)`);
           return false;
         }
         // Any other string is invalid
@@ -100,7 +101,11 @@ export function cleanupExtractedData(scorecard: ExtractedScorecard): ExtractedSc
       array.findIndex(s => s.holeNumber === score.holeNumber) === index
     );
 
+    // Keep the handwritten summary columns for the totals cross-check
+    const reported = extractReportedTotals(player.scores, finalHoles, scorecard.notationStyle);
+
     return {
+      ...reported,
       ...player,
       scores: uniqueScores,
     };
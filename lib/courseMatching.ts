@@ -0,0 +1,223 @@
+/**
+ * Recognizing the course and tee of a scorecard
+ *
+ * OCR reads the pars, yardages and stroke indexes off every photo, and the
+ * course name is only a guess from the header. Once a course is in the course
+ * database, an extraction is compared with each stored course:
+ * - Name: the significant words of the name or an alias ("Golf", "Club",
+ *   "CC", ... are ignored), plus agreement of the par row
+ * - Layout: when the name is unreadable, matching pars and yardages over at
+ *   least nine holes identify the course on their own
+ *
+ * The tee is the one named on the card or else the one whose yardages agree.
+ * The stored layout then fills hole values the OCR missed; values that
+ * disagree are kept as read and flagged so the user can choose.
+ */
+
+import { normalizePlayerName } from './ocrUtils';
+import type { Course, CourseDisagreement, CourseMatch, CourseTee, ExtractedScorecard, HoleInfo } from './types';
+
+// Minimum score to accept a course
+export const COURSE_MATCH_THRESHOLD = 0.7;
+
+// Yardages this close are the same (card rounding, OCR of the last digit)
+const YARDAGE_TOLERANCE = 3;
+
+// Words that say nothing about which course it is
+const NAME_STOPWORDS = new Set(['the', 'golf', 'club', 'course', 'country', 'links', 'gc', 'cc', 'g', 'c', 'and', 'of', 'at', 'resort']);
+
+const HOLE_FIELDS = ['par', 'yardage', 'handicap'] as const;
+
+function significantWords(name: string): Set<string> {
+  return new Set(name.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word && !NAME_STOPWORDS.has(word)));
+}
+
+/**
+ * How likely two course names refer to the same course (0-1)
+ */
+export function courseNameSimilarity(a: string, b: string): number {
+  if (normalizePlayerName(a) && normalizePlayerName(a) === normalizePlayerName(b)) return 1;
+
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length;
+  return Math.round(((2 * shared) / (wordsA.size + wordsB.size)) * 100) / 100;
+}
+
+/**
+ * Share of the card's holes whose par and yardage agree with a tee
+ *
+ * @returns null for a field the card and tee have no common values for
+ */
+export function layoutAgreement(holes: HoleInfo[], tee: CourseTee) {
+  let parCompared = 0;
+  let parAgreed = 0;
+  let yardageCompared = 0;
+  let yardageAgreed = 0;
+
+  holes.forEach((hole) => {
+    const stored = tee.holes.find((h) => h.holeNumber === hole.holeNumber);
+    if (!stored) return;
+
+    if (hole.par) {
+      parCompared++;
+      if (hole.par === stored.par) parAgreed++;
+    }
+    if (hole.yardage && stored.yardage) {
+      yardageCompared++;
+      if (Math.abs(hole.yardage - stored.yardage) <= YARDAGE_TOLERANCE) yardageAgreed++;
+    }
+  });
+
+  return {
+    par: parCompared > 0 ? parAgreed / parCompared : null,
+    yardage: yardageCompared > 0 ? yardageAgreed / yardageCompared : null,
+    yardageHoles: yardageCompared,
+  };
+}
+
+/**
+ * Picks the tee played: the one named on the card, else the best yardage fit
+ */
+function pickTee(scorecard: ExtractedScorecard, course: Course): CourseTee | null {
+  if (course.tees.length === 0) return null;
+
+  const teeName = normalizePlayerName(scorecard.teeName || '');
+  const named = teeName ? course.tees.find((tee) => normalizePlayerName(tee.name) === teeName) : undefined;
+  if (named) return named;
+
+  return course.tees.reduce((best, tee) =>
+    (layoutAgreement(scorecard.holes, tee).yardage ?? 0) > (layoutAgreement(scorecard.holes, best).yardage ?? 0) ? tee : best
+  );
+}
+
+/**
+ * Scores how well a stored course and tee fit an extraction (0-1)
+ */
+function scoreCourse(scorecard: ExtractedScorecard, course: Course, tee: CourseTee): number {
+  const nameScore = Math.max(
+    ...[course.name, ...course.aliases].map((label) => courseNameSimilarity(scorecard.courseName || '', label))
+  );
+  const layout = layoutAgreement(scorecard.holes, tee);
+
+  const byName = nameScore * 0.7 + (layout.par ?? 0) * 0.3;
+  const byLayout = layout.yardageHoles >= 9 ? Math.min(layout.par ?? 0, layout.yardage ?? 0) * 0.9 : 0;
+  return Math.round(Math.max(byName, byLayout) * 100) / 100;
+}
+
+/**
+ * Finds the stored course and tee an extraction was played on
+ *
+ * @returns null when no course scores at least COURSE_MATCH_THRESHOLD
+ */
+export function matchCourse(
+  scorecard: ExtractedScorecard,
+  courses: Course[]
+): { course: Course; tee: CourseTee; score: number } | null {
+  let best: { course: Course; tee: CourseTee; score: number } | null = null;
+
+  for (const course of courses) {
+    const tee = pickTee(scorecard, course);
+    if (!tee) continue;
+
+    const score = scoreCourse(scorecard, course, tee);
+    if (score >= COURSE_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { course, tee, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fills missing hole values from a stored tee and flags the ones that disagree
+ *
+ * Only holes on the card are touched. The course name, tee, rating and slope
+ * are taken from the course database.
+ */
+export function applyCourseLayout(
+  scorecard: ExtractedScorecard,
+  course: Course,
+  tee: CourseTee,
+  score: number
+): { scorecard: ExtractedScorecard; match: CourseMatch } {
+  let filled = 0;
+  const disagreements: CourseDisagreement[] = [];
+
+  const holes = scorecard.holes.map((hole) => {
+    const stored = tee.holes.find((h) => h.holeNumber === hole.holeNumber);
+    if (!stored) return hole;
+
+    const updated = { ...hole };
+    HOLE_FIELDS.forEach((field) => {
+      const storedValue = stored[field];
+      if (storedValue === undefined || storedValue === null) return;
+
+      const extracted = hole[field];
+      if (!extracted) {
+        updated[field] = storedValue;
+        filled++;
+      } else if (field === 'yardage' ? Math.abs(extracted - storedValue) > YARDAGE_TOLERANCE : extracted !== storedValue) {
+        disagreements.push({ holeNumber: hole.holeNumber, field, extracted, stored: storedValue });
+      }
+    });
+    return updated;
+  });
+
+  return {
+    scorecard: {
+      ...scorecard,
+      courseName: course.name,
+      teeName: scorecard.teeName || tee.name,
+      courseId: course.id,
+      ...(tee.courseRating !== undefined ? { courseRating: tee.courseRating } : {}),
+      ...(tee.slopeRating !== undefined ? { slopeRating: tee.slopeRating } : {}),
+      holes,
+    },
+    match: {
+      courseId: course.id,
+      courseName: course.name,
+      teeName: tee.name,
+      score,
+      filled,
+      disagreements,
+    },
+  };
+}
+
+/**
+ * Replaces the extracted values of the given disagreements with the stored ones
+ */
+export function applyStoredHoleValues(
+  scorecard: ExtractedScorecard,
+  disagreements: CourseDisagreement[]
+): ExtractedScorecard {
+  return {
+    ...scorecard,
+    holes: scorecard.holes.map((hole) =>
+      disagreements
+        .filter((d) => d.holeNumber === hole.holeNumber)
+        .reduce((updated, d) => ({ ...updated, [d.field]: d.stored }), hole)
+    ),
+  };
+}
+
+/**
+ * A course entry with the card's layout as its only tee, for adding a new course
+ */
+export function courseFromScorecard(scorecard: ExtractedScorecard): Pick<Course, 'name' | 'aliases' | 'tees'> {
+  return {
+    name: scorecard.courseName,
+    aliases: [],
+    tees: [
+      {
+        name: scorecard.teeName || 'Default',
+        ...(scorecard.courseRating !== undefined ? { courseRating: scorecard.courseRating } : {}),
+        ...(scorecard.slopeRating !== undefined ? { slopeRating: scorecard.slopeRating } : {}),
+        holes: scorecard.holes.map(({ parBoundingBox, ...hole }) => hole),
+      },
+    ],
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Storage for the course database
+ *
+ * Courses and their tees (/api/courses) are kept in a CourseStore: JSON files
+ * on disk by default (see lib/recordStore.ts), or any other implementation
+ * installed with setCourseStore().
+ *
+ * ENVIRONMENT:
+ * - COURSE_STORE_DIR: directory of the file store (default .data/courses)
+ */
+
+import path from 'path';
+import { createFileRecordStore, createInMemoryRecordStore, type RecordStore } from './recordStore';
+import type { Course } from './types';
+
+export type CourseStore = RecordStore<Course>;
+
+/**
+ * In-memory course store (courses are lost on restart)
+ */
+export function createInMemoryCourseStore(): CourseStore {
+  return createInMemoryRecordStore<Course>();
+}
+
+/**
+ * File course store: <dir>/<course id>.json
+ *
+ * @param dir - Directory to keep the course files in (default COURSE_STORE_DIR or .data/courses)
+ */
+export function createFileCourseStore(
+  dir: string = process.env.COURSE_STORE_DIR || path.join(process.cwd(), '.data', 'courses')
+): CourseStore {
+  return createFileRecordStore<Course>(dir);
+}
+
+// Kept on globalThis so the installed store survives module reloads in `next dev`
+const globalForCourses = globalThis as unknown as { scorecardCourseStore?: CourseStore };
+
+/**
+ * Returns the active course store (the file store unless another one was installed)
+ */
+export function getCourseStore(): CourseStore {
+  if (!globalForCourses.scorecardCourseStore) {
+    globalForCourses.scorecardCourseStore = createFileCourseStore();
+  }
+  return globalForCourses.scorecardCourseStore;
+}
+
+/**
+ * Installs a different course store implementation
+ */
+export function setCourseStore(store: CourseStore): void {
+  globalForCourses.scorecardCourseStore = store;
+}
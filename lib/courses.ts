@@ -0,0 +1,154 @@
+/**
+ * Course database
+ *
+ * Courses with the layout of each set of tees: par, yardage and stroke index
+ * per hole plus the course rating and slope. After OCR, lookupCourse()
+ * recognizes the course and tee (lib/courseMatching.ts) and fills in what the
+ * photo didn't show.
+ */
+
+import { randomUUID } from 'crypto';
+import { applyCourseLayout, matchCourse } from './courseMatching';
+import { getCourseStore, type CourseStore } from './courseStore';
+import type { Course, CourseMatch, CourseTee, ExtractedScorecard } from './types';
+
+export interface CourseInput {
+  name?: string;
+  aliases?: string[];
+  location?: string;
+  tees?: CourseTee[];
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Checks one tee of a request body
+ *
+ * @throws Error describing what is wrong
+ */
+function parseTee(value: unknown, index: number): CourseTee {
+  const tee = value as Partial<CourseTee> | null;
+  const label = `tee ${index + 1}`;
+
+  if (!tee || typeof tee !== 'object' || typeof tee.name !== 'string' || !tee.name.trim()) {
+    throw new Error(`Invalid course: ${label} needs a name`);
+  }
+  if (tee.courseRating !== undefined && (typeof tee.courseRating !== 'number' || tee.courseRating < 20 || tee.courseRating > 90)) {
+    throw new Error(`Invalid course: ${label} courseRating must be a number between 20 and 90`);
+  }
+  if (tee.slopeRating !== undefined && !isWholeNumber(tee.slopeRating, 55, 155)) {
+    throw new Error(`Invalid course: ${label} slopeRating must be a whole number between 55 and 155`);
+  }
+  if (!Array.isArray(tee.holes) || tee.holes.length === 0) {
+    throw new Error(`Invalid course: ${label} needs a holes array`);
+  }
+
+  const holes = tee.holes.map((hole) => {
+    const valid = hole && isWholeNumber(hole.holeNumber, 1, 18) && isWholeNumber(hole.par, 3, 6) &&
+      (hole.yardage === undefined || isWholeNumber(hole.yardage, 1, 999)) &&
+      (hole.handicap === undefined || isWholeNumber(hole.handicap, 1, 18));
+    if (!valid) {
+      throw new Error(`Invalid course: ${label} holes must be {holeNumber 1-18, par 3-6, yardage?, handicap? 1-18}`);
+    }
+    return { holeNumber: hole.holeNumber, par: hole.par, yardage: hole.yardage, handicap: hole.handicap };
+  });
+
+  return {
+    name: tee.name.trim(),
+    ...(tee.courseRating !== undefined ? { courseRating: tee.courseRating } : {}),
+    ...(tee.slopeRating !== undefined ? { slopeRating: tee.slopeRating } : {}),
+    holes: holes.sort((a, b) => a.holeNumber - b.holeNumber),
+  };
+}
+
+/**
+ * Checks the fields of a create/update request body
+ *
+ * @param requireAll - Whether name and tees must be present (creating a course)
+ * @throws Error describing what is wrong
+ */
+export function parseCourseInput(value: unknown, requireAll: boolean): CourseInput {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid course: expected an object');
+  }
+
+  const body = value as Record<string, unknown>;
+  const input: CourseInput = {};
+
+  if (body.name !== undefined || requireAll) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new Error('Invalid course: name must be a non-empty string');
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.aliases !== undefined) {
+    if (!Array.isArray(body.aliases) || body.aliases.some((alias) => typeof alias !== 'string')) {
+      throw new Error('Invalid course: aliases must be an array of strings');
+    }
+    input.aliases = body.aliases.map((alias: string) => alias.trim()).filter(Boolean);
+  }
+
+  if (body.location !== undefined) {
+    if (typeof body.location !== 'string') {
+      throw new Error('Invalid course: location must be a string');
+    }
+    input.location = body.location.trim();
+  }
+
+  if (body.tees !== undefined || requireAll) {
+    if (!Array.isArray(body.tees) || body.tees.length === 0) {
+      throw new Error('Invalid course: tees must be a non-empty array');
+    }
+    input.tees = body.tees.map(parseTee);
+  }
+
+  return input;
+}
+
+/**
+ * Adds a course to the database
+ */
+export async function createCourse(
+  input: CourseInput & { name: string; tees: CourseTee[] },
+  store: CourseStore = getCourseStore()
+): Promise<Course> {
+  const now = new Date().toISOString();
+  const course: Course = {
+    id: randomUUID(),
+    name: input.name,
+    aliases: input.aliases ?? [],
+    ...(input.location ? { location: input.location } : {}),
+    tees: input.tees,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(course);
+  console.log(`[Courses] Added course ${course.id} (${course.name}, ${course.tees.length} tee(s))`);
+  return course;
+}
+
+/**
+ * Recognizes the course and tee of an extraction and applies the stored layout
+ *
+ * @returns The scorecard with missing hole values filled in and the match,
+ *          or null when the card matches no stored course
+ */
+export async function lookupCourse(
+  scorecard: ExtractedScorecard,
+  store: CourseStore = getCourseStore()
+): Promise<{ scorecard: ExtractedScorecard; match: CourseMatch } | null> {
+  const found = matchCourse(scorecard, await store.list());
+  if (!found) {
+    return null;
+  }
+
+  const result = applyCourseLayout(scorecard, found.course, found.tee, found.score);
+  console.log(
+    `[Courses] Matched "${scorecard.courseName}" to ${found.course.name} (${found.tee.name}, score ${found.score}): ` +
+    `${result.match.filled} value(s) filled, ${result.match.disagreements.length} disagreement(s)`
+  );
+  return result;
+}
@@ -0,0 +1,115 @@
+/**
+ * Asynchronous scorecard extraction jobs
+ *
+ * Textract plus two GPT-4o calls can exceed the request time limit of
+ * /api/scorecards. A job runs the same pipeline (lib/scorecardPipeline.ts) in
+ * the background and records its stage and progress in the job store, so the
+ * client can poll for status and fetch the result when it is ready.
+ *
+ * The job keeps running in the server process after the 202 response, and the
+ * default job store lives in that process's memory. That only works on a
+ * single long-running Node server (`next start`, a container): serverless
+ * hosts such as Amplify may freeze or stop the function once it has responded,
+ * and other instances can't see the job. There, use the streamed response of
+ * /api/scorecards instead.
+ */
+
+import { randomUUID } from 'crypto';
+import type { OcrHints, OcrProvider } from './ocrProvider';
+import { analyzeScorecard } from './scorecardPipeline';
+import { getJobStore, type ExtractionJob, type JobStore } from './jobStore';
+import type { ExtractionJobStatus, ExtractionStage, MatchDefinition } from './types';
+
+// Progress reported when each stage starts (stages run in this order)
+const STAGE_PROGRESS: Record<ExtractionStage, number> = {
+  textract: 10,
+  vision: 40,
+  cleanup: 80,
+  scoring: 90,
+};
+
+/**
+ * Creates a job and starts the extraction without waiting for it
+ *
+ * @returns The queued job (its id is what the client polls with)
+ */
+export async function startExtractionJob(
+  imageBuffer: Buffer,
+  provider: OcrProvider,
+  hints: OcrHints = {},
+  matches: MatchDefinition[] = [],
+  store: JobStore = getJobStore()
+): Promise<ExtractionJobStatus> {
+  const now = new Date().toISOString();
+  const job: ExtractionJob = {
+    id: randomUUID(),
+    status: 'queued',
+    progress: 0,
+    provider: provider.name,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(job);
+  console.log(`[Jobs] Created extraction job ${job.id} (provider "${provider.name}")`);
+
+  // Not awaited: the caller responds with the job id while OCR runs
+  void runExtractionJob(job.id, imageBuffer, provider, hints, store, matches);
+
+  return toJobStatus(job);
+}
+
+/**
+ * Runs the pipeline for a job, recording progress, the result or the error
+ */
+export async function runExtractionJob(
+  jobId: string,
+  imageBuffer: Buffer,
+  provider: OcrProvider,
+  hints: OcrHints,
+  store: JobStore,
+  matches: MatchDefinition[] = []
+): Promise<void> {
+  // Progress writes aren't awaited by the pipeline, so they are collected and
+  // settled before the final status is written; a late one can't overwrite it
+  const progressWrites: Promise<unknown>[] = [];
+
+  try {
+    await store.update(jobId, { status: 'running', message: 'Starting extraction' });
+
+    const result = await analyzeScorecard(imageBuffer, provider, hints, (event) => {
+      console.log(`[Jobs] ${jobId}: ${event.stage} - ${event.message}`);
+      progressWrites.push(
+        store
+          .update(jobId, { stage: event.stage, progress: STAGE_PROGRESS[event.stage], message: event.message })
+          .catch((error) => console.error(`[Jobs] Failed to record progress for ${jobId}:`, error))
+      );
+    }, matches);
+
+    await Promise.all(progressWrites);
+    await store.update(jobId, {
+      status: 'completed',
+      progress: 100,
+      message: 'Extraction complete',
+      result,
+    });
+    console.log(`[Jobs] Extraction job ${jobId} completed`);
+  } catch (error) {
+    console.error(`[Jobs] Extraction job ${jobId} failed:`, error);
+    await Promise.all(progressWrites);
+    await store
+      .update(jobId, {
+        status: 'failed',
+        error: `Failed to process scorecard: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      })
+      .catch((storeError) => console.error(`[Jobs] Failed to record failure for ${jobId}:`, storeError));
+  }
+}
+
+/**
+ * Strips the result from a job for status responses
+ */
+export function toJobStatus(job: ExtractionJob): ExtractionJobStatus {
+  const { result: _result, ...status } = job;
+  return status;
+}
@@ -10,6 +10,8 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { ExtractedScorecard } from './types';
+import { detectMimeType, stripJsonFences } from './ocrUtils';
+import { collectProvenance, type OcrHints, type OcrProvider } from './ocrProvider';
 
 /**
  * Get Gemini API key from environment
@@ -28,9 +30,10 @@ async function getGeminiApiKey(): Promise<string> {
  * Analyzes a golf scorecard image using Google Gemini
  * 
  * @param imageBuffer - The image file as a Buffer
+ * @param hints - Optional hints (e.g. a known hole count) from the caller
  * @returns Structured scorecard data
  */
-export async function analyzeWithGemini(imageBuffer: Buffer): Promise<ExtractedScorecard> {
+export async function analyzeWithGemini(imageBuffer: Buffer, hints: OcrHints = {}): Promise<ExtractedScorecard> {
   console.log('[Gemini] Starting scorecard image analysis...');
 
   const apiKey = await getGeminiApiKey();
@@ -47,7 +50,7 @@ export async function analyzeWithGemini(imageBuffer: Buffer): Promise<ExtractedS
     const prompt = `You are an expert at extracting data from golf scorecards. Analyze this golf scorecard image and extract ALL information with perfect accuracy.
 
 CRITICAL INSTRUCTIONS:
-1. Identify if this is a 9-hole or 18-hole scorecard
+1. ${hints.holeCount ? `This is a ${hints.holeCount}-hole scorecard` : 'Identify if this is a 9-hole or 18-hole scorecard'}
 2. For each hole, extract:
    - Hole number (1-18 or 1-9)
    - Par value (typically 3, 4, or 5)
@@ -107,12 +110,7 @@ Return ONLY valid JSON (no markdown, no explanations):
     console.log('[Gemini] Raw response length:', content.length);
 
     // Parse JSON response (remove markdown if present)
-    let jsonString = content.trim();
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonString.startsWith('```')) {
-      jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
+    const jsonString = stripJsonFences(content);
 
     let extracted: ExtractedScorecard;
     
@@ -175,21 +173,14 @@ Return ONLY valid JSON (no markdown, no explanations):
 }
 
 /**
- * Detects MIME type from buffer magic numbers
+ * Google Gemini-only OCR provider
  */
-function detectMimeType(buffer: Buffer): string {
-  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
-    return 'image/jpeg';
-  }
-  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
-    return 'image/png';
-  }
-  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
-    return 'image/gif';
-  }
-  if (buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46) {
-    return 'image/webp';
-  }
-  
-  return 'image/jpeg';
-}
+export const geminiProvider: OcrProvider = {
+  name: 'gemini',
+  description: 'Google Gemini full-card extraction',
+  async analyze(imageBuffer, hints, onProgress) {
+    onProgress?.({ stage: 'vision', message: 'Reading the scorecard with Gemini' });
+    const scorecard = await analyzeWithGemini(imageBuffer, hints);
+    return { scorecard, provenance: collectProvenance(scorecard, 'vision') };
+  },
+};
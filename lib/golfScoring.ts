@@ -4,6 +4,10 @@
  * This module provides functions to calculate:
  * - Relation to par (birdie, par, bogey, etc.) for each hole
  * - Player totals and statistics
+ * - Handicap stroke allocation and net scores
+ * - Stableford points, gross and net (see lib/stableford.ts)
+ * - Extended round statistics (see lib/roundStats.ts)
+ * - Putts, fairways, greens in regulation and penalties (see lib/holeDetails.ts)
  * - Overall derived scoring data
  */
 
@@ -15,14 +19,19 @@ import type {
   RelationToPar,
   PlayerInfo,
   PlayerHoleScore,
+  HoleInfo,
 } from './types';
+import { stablefordPoints, STANDARD_STABLEFORD } from './stableford';
+import { calculateRoundStats } from './roundStats';
+import { isGreenInRegulation, summarizeHoleDetails } from './holeDetails';
 
 /**
  * Calculates the relation to par for a score on a hole
  * 
  * @param score - The player's score
  * @param par - The par for the hole
- * @returns The relation to par (birdie, par, bogey, etc.)
+ * @returns The relation to par (birdie, par, bogey, etc.); 3 under is an
+ *          albatross and 4 or more under a condor
  */
 export function calculateRelationToPar(score: number | null, par: number): RelationToPar {
   if (score === null) {
@@ -31,7 +40,9 @@ export function calculateRelationToPar(score: number | null, par: number): Relat
 
   const diff = score - par;
 
-  if (diff <= -2) return 'eagle';
+  if (diff <= -4) return 'condor';
+  if (diff === -3) return 'albatross';
+  if (diff === -2) return 'eagle';
   if (diff === -1) return 'birdie';
   if (diff === 0) return 'par';
   if (diff === 1) return 'bogey';
@@ -76,6 +87,45 @@ export function calculatePlayerTotals(player: PlayerInfo): PlayerInfo {
   };
 }
 
+/**
+ * Allocates a player's handicap strokes to holes by stroke index
+ *
+ * Strokes go to the hardest holes first (stroke index 1, 2, ...); a handicap
+ * larger than the number of holes gives every hole a stroke and starts again
+ * from stroke index 1. Plus handicaps (negative values) give strokes back,
+ * starting from the easiest hole. Holes are ranked by their stroke index
+ * relative to each other, so 9-hole rounds with 18-hole indexes work too;
+ * holes without a stroke index are ranked last, in hole order.
+ *
+ * @param courseHandicap - Strokes for the round (negative = plus handicap)
+ * @param holes - Holes played, with `handicap` as the stroke index
+ * @returns Strokes received per hole number (negative = strokes given back)
+ */
+export function allocateHandicapStrokes(courseHandicap: number, holes: HoleInfo[]): Map<number, number> {
+  const strokes = new Map<number, number>();
+  if (holes.length === 0) {
+    return strokes;
+  }
+
+  const ranked = [...holes].sort((a, b) =>
+    (a.handicap ?? Infinity) - (b.handicap ?? Infinity) || a.holeNumber - b.holeNumber
+  );
+
+  const total = Math.round(Math.abs(courseHandicap));
+  const perHole = Math.floor(total / ranked.length);
+  const remainder = total % ranked.length;
+  const sign = courseHandicap < 0 ? -1 : 1;
+
+  ranked.forEach((hole, rank) => {
+    // Extra strokes go to the hardest holes; plus handicaps give back on the easiest
+    const getsExtra = sign > 0 ? rank < remainder : rank >= ranked.length - remainder;
+    const count = perHole + (getsExtra ? 1 : 0);
+    strokes.set(hole.holeNumber, count === 0 ? 0 : sign * count);
+  });
+
+  return strokes;
+}
+
 /**
  * Calculates derived scoring data from extracted scorecard
  * 
@@ -83,17 +133,47 @@ export function calculatePlayerTotals(player: PlayerInfo): PlayerInfo {
  * @returns Complete derived scoring analysis
  */
 export function calculateDerivedScoring(extracted: ExtractedScorecard): DerivedScoring {
+  const stableford = extracted.stableford || STANDARD_STABLEFORD;
+
+  // Handicap strokes per hole for players with a course handicap
+  const strokesByPlayer = new Map(
+    extracted.players
+      .filter((player) => player.courseHandicap !== undefined && player.courseHandicap !== null)
+      .map((player) => [player.name, allocateHandicapStrokes(player.courseHandicap!, extracted.holes)])
+  );
+
   // Calculate per-hole derived data
   const holes: HoleDerived[] = extracted.holes.map((hole) => {
     const playerResults = extracted.players.map((player) => {
       const holeScore = player.scores.find((s) => s.holeNumber === hole.holeNumber);
       const score = holeScore?.score ?? null;
-      
-      return {
+      const result: HoleDerived['playerResults'][number] = {
         playerName: player.name,
         score,
         relationToPar: calculateRelationToPar(score, hole.par),
+        stablefordPoints: stablefordPoints(score, hole.par, stableford),
       };
+
+      if (score === 1) {
+        result.holeInOne = true;
+      }
+
+      const gir = isGreenInRegulation(score, holeScore?.putts, hole.par);
+      if (gir !== null) {
+        result.greenInRegulation = gir;
+      }
+
+      const strokes = strokesByPlayer.get(player.name);
+      if (strokes) {
+        const strokesReceived = strokes.get(hole.holeNumber) ?? 0;
+        const netScore = score === null ? null : score - strokesReceived;
+        result.strokesReceived = strokesReceived;
+        result.netScore = netScore;
+        result.netRelationToPar = calculateRelationToPar(netScore, hole.par);
+        result.netStablefordPoints = stablefordPoints(score, hole.par, stableford, strokesReceived);
+      }
+
+      return result;
     });
 
     return {
@@ -108,13 +188,20 @@ export function calculateDerivedScoring(extracted: ExtractedScorecard): DerivedS
     const stats = {
       totalScore: 0,
       totalPar: 0,
+      condors: 0,
+      albatrosses: 0,
       eagles: 0,
       birdies: 0,
       pars: 0,
       bogeys: 0,
       doubleBogeys: 0,
       tripleBogeyPlus: 0,
+      holesInOne: 0,
+      strokesReceived: 0,
+      stablefordPoints: 0,
+      netStablefordPoints: 0,
     };
+    const strokes = strokesByPlayer.get(player.name);
 
     // Iterate through all holes
     extracted.holes.forEach((hole) => {
@@ -124,10 +211,24 @@ export function calculateDerivedScoring(extracted: ExtractedScorecard): DerivedS
       if (score !== null && score !== undefined) {
         stats.totalScore += score;
         stats.totalPar += hole.par;
+        stats.strokesReceived += strokes?.get(hole.holeNumber) ?? 0;
+        stats.stablefordPoints += stablefordPoints(score, hole.par, stableford) ?? 0;
+        stats.netStablefordPoints +=
+          stablefordPoints(score, hole.par, stableford, strokes?.get(hole.holeNumber) ?? 0) ?? 0;
+
+        if (score === 1) {
+          stats.holesInOne++;
+        }
 
         const relation = calculateRelationToPar(score, hole.par);
         
         switch (relation) {
+          case 'condor':
+            stats.condors++;
+            break;
+          case 'albatross':
+            stats.albatrosses++;
+            break;
           case 'eagle':
             stats.eagles++;
             break;
@@ -150,23 +251,43 @@ export function calculateDerivedScoring(extracted: ExtractedScorecard): DerivedS
       }
     });
 
-    return {
+    const playerDerived: PlayerDerived = {
       name: player.name,
       totalScore: stats.totalScore,
       totalPar: stats.totalPar,
       scoreToPar: stats.totalScore - stats.totalPar,
       eagles: stats.eagles,
+      albatrosses: stats.albatrosses,
+      condors: stats.condors,
+      holesInOne: stats.holesInOne,
       birdies: stats.birdies,
       pars: stats.pars,
       bogeys: stats.bogeys,
       doubleBogeys: stats.doubleBogeys,
       tripleBogeyPlus: stats.tripleBogeyPlus,
+      stablefordPoints: stats.stablefordPoints,
+      stats: calculateRoundStats(player, extracted.holes),
     };
+
+    const holeDetails = summarizeHoleDetails(player, extracted.holes);
+    if (holeDetails) {
+      playerDerived.holeDetails = holeDetails;
+    }
+
+    if (strokes) {
+      playerDerived.courseHandicap = player.courseHandicap;
+      playerDerived.netScore = stats.totalScore - stats.strokesReceived;
+      playerDerived.netToPar = playerDerived.netScore - stats.totalPar;
+      playerDerived.netStablefordPoints = stats.netStablefordPoints;
+    }
+
+    return playerDerived;
   });
 
   return {
     holes,
     players,
+    stablefordSystem: stableford.name,
   };
 }
 
@@ -190,6 +311,10 @@ export function formatScoreToPar(scoreToPar: number): string {
  */
 export function getRelationToParColor(relation: RelationToPar): string {
   switch (relation) {
+    case 'condor':
+      return 'text-pink-700 font-extrabold';
+    case 'albatross':
+      return 'text-fuchsia-700 font-extrabold';
     case 'eagle':
       return 'text-purple-600 font-bold';
     case 'birdie':
@@ -0,0 +1,209 @@
+/**
+ * World Handicap System (WHS) handicap index calculation
+ *
+ * Builds a player's handicap record from their rounds, oldest first, with
+ * one revision per day on which scores were posted (as the WHS revises the
+ * index daily):
+ * - Each round is posted with evaluateHandicapRound (lib/worldHandicap.ts)
+ *   using the index in effect before that day
+ * - Index: average of the lowest differentials among the last 20 (best 8 of
+ *   20; fewer scores use the WHS table, with adjustments for 3, 4 and 6
+ *   scores), no index before 3 scores, never above 54.0
+ * - Low handicap index: the lowest index of the previous 365 days, once the
+ *   record holds 20 scores
+ * - Soft cap: an increase of more than 3.0 over the low index is halved
+ *   beyond 3.0; hard cap: the increase can't exceed 5.0
+ * - Exceptional score reduction: a differential 7.0-9.9 below the index in
+ *   effect lowers the last 20 differentials by 1, 10.0 or more by 2
+ */
+
+import type { HandicapRevision, HandicapScore, HoleInfo, PlayerInfo } from './types';
+import { evaluateHandicapRound, roundToTenth, type TeeRating } from './worldHandicap';
+
+export const MAX_HANDICAP_INDEX = 54;
+
+// Differentials considered
+const RECORD_SIZE = 20;
+
+const SOFT_CAP = 3;
+const HARD_CAP = 5;
+const LOW_INDEX_DAYS = 365;
+
+/**
+ * A round that can be posted: a player on a rated tee
+ */
+export interface PostableRound {
+  roundId: string;
+  playedAt: string; // YYYY-MM-DD
+  courseName: string;
+  player: PlayerInfo;
+  holes: HoleInfo[];
+  tee: TeeRating;
+}
+
+/**
+ * How many of the lowest differentials count, and the adjustment, for a record size
+ *
+ * @returns null with fewer than 3 scores
+ */
+export function differentialsCounted(scores: number): { count: number; adjustment: number } | null {
+  if (scores < 3) return null;
+  if (scores === 3) return { count: 1, adjustment: -2 };
+  if (scores === 4) return { count: 1, adjustment: -1 };
+  if (scores === 5) return { count: 1, adjustment: 0 };
+  if (scores === 6) return { count: 2, adjustment: -1 };
+  if (scores <= 8) return { count: 2, adjustment: 0 };
+  if (scores <= 11) return { count: 3, adjustment: 0 };
+  if (scores <= 14) return { count: 4, adjustment: 0 };
+  if (scores <= 16) return { count: 5, adjustment: 0 };
+  if (scores <= 18) return { count: 6, adjustment: 0 };
+  if (scores === 19) return { count: 7, adjustment: 0 };
+  return { count: 8, adjustment: 0 };
+}
+
+/**
+ * Handicap index from the most recent differentials (oldest first)
+ *
+ * @returns The index and the ids of the differentials counted, or null with fewer than 3
+ */
+export function calculateIndexFromDifferentials(
+  differentials: { id: string; differential: number }[]
+): { index: number; used: string[] } | null {
+  const recent = differentials.slice(-RECORD_SIZE);
+  const rule = differentialsCounted(recent.length);
+  if (!rule) return null;
+
+  const lowest = [...recent].sort((a, b) => a.differential - b.differential).slice(0, rule.count);
+  const average = lowest.reduce((sum, d) => sum + d.differential, 0) / lowest.length;
+
+  return {
+    index: Math.min(roundToTenth(average + rule.adjustment), MAX_HANDICAP_INDEX),
+    used: lowest.map((d) => d.id),
+  };
+}
+
+/**
+ * Limits an index increase over the low handicap index (soft and hard cap)
+ */
+export function applyHandicapCaps(
+  index: number,
+  lowHandicapIndex: number | null
+): { index: number; cap: 'soft' | 'hard' | null } {
+  if (lowHandicapIndex === null || index - lowHandicapIndex <= SOFT_CAP) {
+    return { index, cap: null };
+  }
+
+  const softened = roundToTenth(lowHandicapIndex + SOFT_CAP + (index - lowHandicapIndex - SOFT_CAP) / 2);
+  if (softened - lowHandicapIndex > HARD_CAP) {
+    return { index: roundToTenth(lowHandicapIndex + HARD_CAP), cap: 'hard' };
+  }
+  return { index: softened, cap: 'soft' };
+}
+
+/**
+ * Exceptional score reduction earned by a differential
+ *
+ * @returns 0, -1 (7.0-9.9 below the index) or -2 (10.0 or more below)
+ */
+export function exceptionalScoreReduction(differential: number, indexBefore: number | null): number {
+  if (indexBefore === null) return 0;
+
+  const below = roundToTenth(indexBefore - differential);
+  if (below >= 10) return -2;
+  if (below >= 7) return -1;
+  return 0;
+}
+
+/**
+ * Formats an index the way golfers write it: "12.4", "+1.2" for a plus handicap
+ */
+export function formatHandicapIndex(index: number | null | undefined): string {
+  if (index === null || index === undefined) return '-';
+  return index < 0 ? `+${Math.abs(index).toFixed(1)}` : index.toFixed(1);
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Posts a player's rounds in date order and revises the index after each day
+ */
+export function calculateHandicapHistory(rounds: PostableRound[]): {
+  scores: HandicapScore[];
+  revisions: HandicapRevision[];
+} {
+  const sorted = [...rounds].sort((a, b) => a.playedAt.localeCompare(b.playedAt));
+  const scores: HandicapScore[] = [];
+  const revisions: HandicapRevision[] = [];
+
+  const dates = Array.from(new Set(sorted.map((r) => r.playedAt)));
+  dates.forEach((date) => {
+    const indexBefore = revisions.length > 0 ? revisions[revisions.length - 1].handicapIndex : null;
+    let esr = 0;
+
+    sorted
+      .filter((r) => r.playedAt === date)
+      .forEach((round) => {
+        const result = evaluateHandicapRound(round.player, round.holes, round.tee, indexBefore);
+        const score: HandicapScore = {
+          roundId: round.roundId,
+          playedAt: round.playedAt,
+          courseName: round.courseName,
+          holesPlayed: result.holesPlayed,
+          nineHole: result.nineHole,
+          adjustedGrossScore: result.adjustedGrossScore,
+          scoreDifferential: result.scoreDifferential,
+          esrAdjustment: 0,
+          indexBefore,
+          posted: result.scoreDifferential !== null,
+          usedInIndex: false,
+          notes: [...result.notes],
+        };
+        scores.push(score);
+        if (!score.posted) return;
+
+        const reduction = exceptionalScoreReduction(score.scoreDifferential!, indexBefore);
+        if (reduction !== 0) {
+          esr += reduction;
+          score.notes.push(`Exceptional score: ${reduction} applied to the last ${RECORD_SIZE} differentials`);
+          scores
+            .filter((s) => s.posted)
+            .slice(-RECORD_SIZE)
+            .forEach((s) => {
+              s.esrAdjustment += reduction;
+            });
+        }
+      });
+
+    const posted = scores.filter((s) => s.posted);
+    const calculated = calculateIndexFromDifferentials(
+      posted.map((s) => ({ id: s.roundId, differential: s.scoreDifferential! + s.esrAdjustment }))
+    );
+    if (!calculated) return;
+
+    const previousYear = revisions.filter((r) => daysBetween(r.date, date) <= LOW_INDEX_DAYS);
+    const lowHandicapIndex =
+      posted.length >= RECORD_SIZE && previousYear.length > 0
+        ? Math.min(...previousYear.map((r) => r.handicapIndex))
+        : null;
+    const capped = applyHandicapCaps(calculated.index, lowHandicapIndex);
+
+    revisions.push({
+      date,
+      handicapIndex: capped.index,
+      lowHandicapIndex,
+      cap: capped.cap,
+      esr,
+      scoresInRecord: Math.min(posted.length, RECORD_SIZE),
+      differentialsUsed: calculated.used,
+    });
+  });
+
+  const current = revisions[revisions.length - 1];
+  scores.forEach((s) => {
+    s.usedInIndex = current?.differentialsUsed.includes(s.roundId) ?? false;
+  });
+
+  return { scores, revisions };
+}
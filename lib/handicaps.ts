@@ -0,0 +1,109 @@
+/**
+ * Handicap records of registered players
+ *
+ * Posts the saved rounds a player is linked to (lib/handicapIndex.ts). A
+ * round can be posted once its card carries the tee's course and slope
+ * rating, which matching a stored course fills in (lib/courses.ts). The
+ * current index is copied to the player's profile whenever a round is saved
+ * or deleted, so the player list shows it without recalculating.
+ */
+
+import { calculateHandicapHistory, type PostableRound } from './handicapIndex';
+import { roundPlayedAt } from './playerHistory';
+import { getPlayerStore, type PlayerStore } from './playerStore';
+import { getRoundStore, type RoundStore } from './roundStore';
+import type { HandicapRecord, PlayerProfile, SavedRound } from './types';
+
+// Above this, a rating on a 9-hole card is taken to be the 18-hole rating
+const MAX_NINE_HOLE_COURSE_RATING = 45;
+
+/**
+ * The player's line of a saved round, ready to post
+ *
+ * @returns null if the player isn't on the card or the card has no ratings
+ */
+export function toPostableRound(round: SavedRound, playerId: string): PostableRound | null {
+  const { scorecard } = round;
+  const player = scorecard.players.find((p) => p.playerId === playerId);
+  if (!player || !scorecard.courseRating || !scorecard.slopeRating || scorecard.holes.length === 0) {
+    return null;
+  }
+
+  const holes = [...scorecard.holes].sort((a, b) => a.holeNumber - b.holeNumber);
+  const nineHole = holes.length <= 9;
+  const courseRating =
+    nineHole && scorecard.courseRating > MAX_NINE_HOLE_COURSE_RATING
+      ? scorecard.courseRating / 2
+      : scorecard.courseRating;
+
+  return {
+    roundId: round.id,
+    playedAt: roundPlayedAt(round),
+    courseName: scorecard.courseName,
+    player,
+    holes,
+    tee: {
+      courseRating,
+      slopeRating: scorecard.slopeRating,
+      par: holes.reduce((sum, hole) => sum + hole.par, 0),
+    },
+  };
+}
+
+/**
+ * Builds a registered player's handicap record from the saved rounds
+ */
+export function buildHandicapRecord(player: PlayerProfile, savedRounds: SavedRound[]): HandicapRecord {
+  const linked = savedRounds.filter((round) => round.scorecard.players.some((p) => p.playerId === player.id));
+  const postable = linked
+    .map((round) => toPostableRound(round, player.id))
+    .filter((round): round is PostableRound => round !== null);
+
+  const { scores, revisions } = calculateHandicapHistory(postable);
+  const current = revisions[revisions.length - 1];
+
+  return {
+    playerId: player.id,
+    playerName: player.name,
+    handicapIndex: current?.handicapIndex ?? null,
+    lowHandicapIndex: current?.lowHandicapIndex ?? null,
+    scores,
+    revisions,
+    unratedRounds: linked.length - postable.length,
+  };
+}
+
+/**
+ * Recalculates the players' indexes and stores them on their profiles
+ *
+ * The profile always follows the saved rounds: when a player has fewer than 3
+ * posted scores (e.g. after rounds were deleted) the index is cleared.
+ */
+export async function refreshHandicapIndexes(
+  playerIds: string[],
+  playerStore: PlayerStore = getPlayerStore(),
+  roundStore: RoundStore = getRoundStore()
+): Promise<void> {
+  if (playerIds.length === 0) {
+    return;
+  }
+
+  const rounds = await roundStore.list();
+  for (const id of Array.from(new Set(playerIds))) {
+    const player = await playerStore.get(id);
+    if (!player) continue;
+
+    const { handicapIndex } = buildHandicapRecord(player, rounds);
+    if (handicapIndex !== (player.handicapIndex ?? null)) {
+      await playerStore.update(id, { handicapIndex });
+      console.log(`[Handicaps] ${player.name}: handicap index ${player.handicapIndex ?? '-'} -> ${handicapIndex}`);
+    }
+  }
+}
+
+/**
+ * Registered players linked on a round's card
+ */
+export function linkedPlayerIds(round: SavedRound): string[] {
+  return round.scorecard.players.map((p) => p.playerId).filter((id): id is string => Boolean(id));
+}
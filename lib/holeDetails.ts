@@ -0,0 +1,172 @@
+/**
+ * Per-hole details: putts, fairways, greens in regulation and penalties
+ *
+ * Many scorecards have extra rows under each player for putts, a fairway
+ * check mark or penalty strokes. This module recognizes those rows, parses
+ * their cells, derives greens in regulation (strokes - putts <= par - 2) and
+ * summarizes the details for a player's round.
+ */
+
+import type { FairwayResult, HoleDetailStats, HoleInfo, PlayerHoleScore, PlayerInfo } from './types';
+
+export type HoleDetailRow = 'putts' | 'fairway' | 'penalties';
+
+/**
+ * Identifies a detail row from its label ("Putts", "FW", "FIR", "Pen", ...)
+ *
+ * @returns The kind of row, or null if the label isn't a detail row
+ */
+export function detectDetailRow(label: string): HoleDetailRow | null {
+  const normalized = label.trim().toLowerCase();
+
+  if (normalized.startsWith('putt') || /^#\s*putts$/.test(normalized)) {
+    return 'putts';
+  }
+  if (/^(fw|fwy|fir|f\/w|drive|fairways?( hit)?)$/.test(normalized)) {
+    return 'fairway';
+  }
+  if (/^(pen|pens|penalty|penalties|pen\.? strokes)$/.test(normalized)) {
+    return 'penalties';
+  }
+  return null;
+}
+
+/**
+ * Parses a fairway cell: a check mark or "Y" for hit, "L"/"R" or arrows for a miss
+ *
+ * @returns The fairway result, or undefined when the cell is empty or unreadable
+ */
+export function parseFairway(raw: string | null | undefined): FairwayResult | undefined {
+  const value = (raw || '').trim().toLowerCase();
+  if (!value) return undefined;
+
+  if (['✓', '✔', 'v', 'y', 'yes', 'hit', 'h', '1'].includes(value)) return 'hit';
+  if (['l', 'left', '←', '<'].includes(value)) return 'left';
+  if (['r', 'right', '→', '>'].includes(value)) return 'right';
+  if (['-', '–', 'na', 'n/a', '0', 'n', 'no'].includes(value)) return 'na';
+  return undefined;
+}
+
+/**
+ * Parses a putts or penalties cell
+ *
+ * @returns The count, or null when the cell is empty or not a plausible count
+ */
+export function parseDetailCount(raw: string | number | null | undefined, max = 9): number | null {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  const value = typeof raw === 'number' ? raw : parseInt(String(raw).trim(), 10);
+  return Number.isInteger(value) && value >= 0 && value <= max ? value : null;
+}
+
+/**
+ * Adds the cells of a player's detail rows (one raw cell per hole column) to a hole entry
+ */
+export function applyDetailRows<T extends PlayerHoleScore>(
+  entry: T,
+  detailRows: Partial<Record<HoleDetailRow, (string | null)[]>>,
+  index: number
+): T {
+  const result = { ...entry };
+
+  if (detailRows.putts) {
+    result.putts = parseDetailCount(detailRows.putts[index]);
+  }
+  if (detailRows.fairway) {
+    result.fairway = parseFairway(detailRows.fairway[index]);
+  }
+  if (detailRows.penalties) {
+    result.penalties = parseDetailCount(detailRows.penalties[index]);
+  }
+  return result;
+}
+
+/**
+ * Normalizes the details a Vision model returned for one hole
+ */
+export function normalizeHoleDetails(entry: { putts?: unknown; fairway?: unknown; penalties?: unknown }) {
+  const details: Pick<PlayerHoleScore, 'putts' | 'fairway' | 'penalties'> = {};
+
+  const putts = parseDetailCount(entry.putts as string | number | null | undefined);
+  const fairway = parseFairway(typeof entry.fairway === 'string' ? entry.fairway : undefined);
+  const penalties = parseDetailCount(entry.penalties as string | number | null | undefined);
+
+  if (putts !== null) details.putts = putts;
+  if (fairway) details.fairway = fairway;
+  if (penalties !== null) details.penalties = penalties;
+  return details;
+}
+
+/**
+ * Whether a green was hit in regulation
+ *
+ * @returns null unless both the score and the putts are known
+ */
+export function isGreenInRegulation(score: number | null, putts: number | null | undefined, par: number): boolean | null {
+  if (score === null || putts === null || putts === undefined || putts > score) {
+    return null;
+  }
+  return score - putts <= par - 2;
+}
+
+/**
+ * Summarizes a player's putts, fairways, greens in regulation and penalties
+ *
+ * @returns null when the player has no details recorded
+ */
+export function summarizeHoleDetails(player: PlayerInfo, holes: HoleInfo[]): HoleDetailStats | null {
+  const entries = holes
+    .map((hole) => ({ hole, entry: player.scores.find((s) => s.holeNumber === hole.holeNumber) }))
+    .filter((e): e is { hole: HoleInfo; entry: PlayerHoleScore } => e.entry !== undefined);
+
+  const hasDetails = entries.some(({ entry }) =>
+    (entry.putts !== undefined && entry.putts !== null) ||
+    entry.fairway !== undefined ||
+    (entry.penalties !== undefined && entry.penalties !== null)
+  );
+  if (!hasDetails) {
+    return null;
+  }
+
+  const stats: HoleDetailStats = {
+    putts: 0,
+    puttsHoles: 0,
+    puttsPerHole: null,
+    onePutts: 0,
+    threePutts: 0,
+    fairwaysHit: 0,
+    fairwaysLeft: 0,
+    fairwaysRight: 0,
+    fairwayChances: 0,
+    greensInRegulation: 0,
+    girChances: 0,
+    penalties: 0,
+  };
+
+  entries.forEach(({ hole, entry }) => {
+    if (entry.putts !== undefined && entry.putts !== null) {
+      stats.putts += entry.putts;
+      stats.puttsHoles++;
+      if (entry.putts === 1) stats.onePutts++;
+      if (entry.putts >= 3) stats.threePutts++;
+    }
+
+    if (entry.fairway && entry.fairway !== 'na') {
+      stats.fairwayChances++;
+      if (entry.fairway === 'hit') stats.fairwaysHit++;
+      if (entry.fairway === 'left') stats.fairwaysLeft++;
+      if (entry.fairway === 'right') stats.fairwaysRight++;
+    }
+
+    const gir = isGreenInRegulation(entry.score, entry.putts, hole.par);
+    if (gir !== null) {
+      stats.girChances++;
+      if (gir) stats.greensInRegulation++;
+    }
+
+    stats.penalties += entry.penalties ?? 0;
+  });
+
+  stats.puttsPerHole = stats.puttsHoles > 0 ? Math.round((stats.putts / stats.puttsHoles) * 100) / 100 : null;
+  return stats;
+}
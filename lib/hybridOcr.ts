@@ -9,8 +9,6 @@
  */
 
 import { analyzeWithTextract } from './textractOcr';
-import OpenAI from 'openai';
-import { getOpenAIApiKey } from './secrets';
 import { 
   generateTemplateGuidedPrompt, 
   validateAgainstTemplate,
@@ -18,34 +16,81 @@ import {
 } from './scorecardTemplate';
 import { cleanupExtractedData } from './cleanupOcr';
 import { parseScoreToGross, detectNotationStyle } from './scoreNotation';
-import type { ExtractedScorecard } from './types';
+import { normalizePlayerName, parseModelJson } from './ocrUtils';
+import { assessCellConfidence, withConfidence } from './ocrConfidence';
+import { extractReportedTotals } from './reportedTotals';
+import { normalizeHoleDetails } from './holeDetails';
+import {
+  collectProvenance,
+  type OcrHints,
+  type OcrProgressListener,
+  type OcrProvider,
+} from './ocrProvider';
+import { getOcrTransport, type OcrTransport } from './ocrTransport';
+import type { ExtractedScorecard, HoleInfo, PlayerHoleScore, PlayerInfo } from './types';
 
 /**
  * Enhanced scorecard analysis using hybrid OCR approach
+ *
+ * @param transport - Where Textract/Vision responses come from (live APIs or recorded fixtures)
+ * @param onProgress - Called as each stage starts (job status, streamed progress)
  */
-export async function analyzeWithHybridOcr(imageBuffer: Buffer): Promise<ExtractedScorecard> {
+export async function analyzeWithHybridOcr(
+  imageBuffer: Buffer,
+  hints: OcrHints = {},
+  transport: OcrTransport = getOcrTransport(),
+  onProgress?: OcrProgressListener
+): Promise<ExtractedScorecard> {
   console.log('[Hybrid OCR] Starting hybrid analysis...');
+  onProgress?.({ stage: 'textract', message: 'Detecting the scorecard table with Textract' });
 
   // Step 1: Get structure from Textract (it's good at finding tables)
   let structure: ExtractedScorecard;
   try {
-    structure = await analyzeWithTextract(imageBuffer);
+    structure = await analyzeWithTextract(imageBuffer, hints, transport);
     console.log('[Hybrid OCR] Textract structure extraction successful');
     console.log('[Hybrid OCR] Detected hole count:', structure.holes.length);
+    onProgress?.({
+      stage: 'textract',
+      completed: true,
+      message: `Found ${structure.holes.length} holes and ${structure.players.length} players`,
+      holeCount: structure.holes.length,
+      playerCount: structure.players.length,
+    });
   } catch (error) {
     console.warn('[Hybrid OCR] Textract failed, detecting hole count with Vision...');
-    // Detect hole count first, then do full analysis
-    const holeCount = await detectHoleCount(imageBuffer);
+    // Detect hole count first (unless the caller told us), then do full analysis
+    const holeCount = hints.holeCount ?? await detectHoleCount(imageBuffer, transport);
     console.log('[Hybrid OCR] Detected', holeCount, 'holes, using full Vision analysis');
-    return await fullVisionAnalysis(imageBuffer, holeCount);
+    onProgress?.({ stage: 'vision', message: `Textract found no table - reading all ${holeCount} holes with Vision` });
+    const visionResult = await fullVisionAnalysis(imageBuffer, holeCount, transport);
+    onProgress?.({
+      stage: 'vision',
+      completed: true,
+      message: `Vision read ${visionResult.holes.length} holes and ${visionResult.players.length} players`,
+      holeCount: visionResult.holes.length,
+      playerCount: visionResult.players.length,
+    });
+    return visionResult;
   }
 
   // Step 2: Use OpenAI Vision ONLY to fill in gaps where Textract couldn't read
   console.log('[Hybrid OCR] Using Vision to fill gaps in Textract extraction...');
-  const enhanced = await enhanceWithVision(imageBuffer, structure);
+  onProgress?.({ stage: 'vision', message: 'Cross-checking handwritten scores with Vision' });
+  const enhanced = await enhanceWithVision(imageBuffer, structure, transport);
+  const filledCells = countFilledCells(structure, enhanced);
+  onProgress?.({
+    stage: 'vision',
+    completed: true,
+    message: filledCells > 0
+      ? `Vision cross-check done, filled ${filledCells} unreadable cell(s)`
+      : 'Vision cross-check done',
+    filledCells,
+  });
 
   // Step 2.5: Clean up any invalid data (Out/In/Total columns, etc.)
   console.log('[Hybrid OCR] Cleaning up extracted data...');
+  onProgress?.({ stage: 'cleanup', message: 'Cleaning up and validating the extraction' });
   const cleaned = cleanupExtractedData(enhanced);
 
   // Step 3: Validate against template knowledge
@@ -58,29 +103,37 @@ export async function analyzeWithHybridOcr(imageBuffer: Buffer): Promise<Extract
   } else {
     console.log('[Hybrid OCR] All data validated successfully against template');
   }
+  onProgress?.({
+    stage: 'cleanup',
+    completed: true,
+    message: validation.warnings.length > 0
+      ? `Template validation: ${validation.warnings.length} warning(s)`
+      : 'All data validated against the template',
+    warnings: validation.warnings,
+  });
 
   console.log('[Hybrid OCR] Hybrid analysis complete');
   return cleaned;
 }
 
 /**
- * Detect whether scorecard is 9-hole or 18-hole
+ * Counts scores Vision supplied for cells Textract left empty
  */
-async function detectHoleCount(imageBuffer: Buffer): Promise<number> {
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
+function countFilledCells(structure: ExtractedScorecard, enhanced: ExtractedScorecard): number {
+  return enhanced.players.reduce((count, player, playerIdx) =>
+    count + player.scores.filter((scoreEntry, scoreIdx) =>
+      scoreEntry.score !== null && structure.players[playerIdx]?.scores[scoreIdx]?.score === null
+    ).length,
+  0);
+}
 
-  const response = await openai.chat.completions.create({
+/**
+ * Detect whether scorecard is 9-hole or 18-hole
+ */
+async function detectHoleCount(imageBuffer: Buffer, transport: OcrTransport): Promise<number> {
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Look at this golf scorecard and determine if it's a 9-hole or 18-hole scorecard.
+    prompt: `Look at this golf scorecard and determine if it's a 9-hole or 18-hole scorecard.
 
 Look for:
 - Hole numbers row (1-9 or 1-18)
@@ -88,23 +141,12 @@ Look for:
 - May be split into "Front 9" and "Back 9" for 18-hole courses
 
 Respond with ONLY a number: 9 or 18`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'low', // Low detail is fine for counting holes
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 10,
+    detail: 'low', // Low detail is fine for counting holes
+    maxTokens: 10,
     temperature: 0,
   });
 
-  const content = response.choices[0]?.message?.content?.trim();
-  const holeCount = parseInt(content || '9');
+  const holeCount = parseInt(content?.trim() || '9');
   
   // Validate and default to 9 if invalid
   return [9, 18].includes(holeCount) ? holeCount : 9;
@@ -113,27 +155,20 @@ Respond with ONLY a number: 9 or 18`,
 /**
  * Full OpenAI Vision analysis as fallback
  */
-async function fullVisionAnalysis(imageBuffer: Buffer, holeCount: number = 9): Promise<ExtractedScorecard> {
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
-
+async function fullVisionAnalysis(
+  imageBuffer: Buffer,
+  holeCount: number,
+  transport: OcrTransport
+): Promise<ExtractedScorecard> {
   // Generate template-guided prompt based on detected hole count
   const templatePrompt = generateTemplateGuidedPrompt(holeCount);
   const visualTemplate = getVisualTemplate(holeCount);
 
   console.log(`[Hybrid OCR] Using ${holeCount}-hole template for full Vision analysis`);
 
-  const response = await openai.chat.completions.create({
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `${templatePrompt}
+    prompt: `${templatePrompt}
 
 ${visualTemplate}
 
@@ -146,11 +181,19 @@ Extract and return as JSON (no markdown, no explanations):
   "players": [
     {
       "name": "Player Name",
-      "scores": [{"holeNumber": 1, "score": 4}]
+      "scores": [{"holeNumber": 1, "score": 4, "putts": 2, "fairway": "hit", "penalties": 0}]
     }
   ]
 }
 
+DETAIL ROWS (only if the card has them):
+Some cards have extra rows under a player for putts, fairways hit or penalty strokes.
+When present, add them to that player's hole entries:
+- "putts": number of putts
+- "fairway": "hit", "left", "right" or "na" (par 3s or no mark)
+- "penalties": penalty strokes
+Do NOT treat these rows as separate players. Omit the fields when the card has no such rows.
+
 CRITICAL REMINDERS:
 1. This is a ${holeCount}-hole scorecard. Extract EXACTLY ${holeCount} holes!
 2. DO NOT include "Out", "In", or "Total" columns as holes
@@ -158,55 +201,49 @@ CRITICAL REMINDERS:
 4. For 9-hole: Extract holes 1-9 only
 5. Summary columns are for totals, not individual holes
 6. Use the PAR values as your guide for validating handwritten scores!`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'high', // Use high detail for better handwriting recognition
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 4096,
+    detail: 'high', // Use high detail for better handwriting recognition
+    maxTokens: 4096,
     temperature: 0.1,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     throw new Error('No response from OpenAI Vision');
   }
 
-  let jsonString = content.trim();
-  if (jsonString.startsWith('```json')) {
-    jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-  } else if (jsonString.startsWith('```')) {
-    jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-  }
-
-  const extracted: ExtractedScorecard = JSON.parse(jsonString);
+  const extracted = parseModelJson<ExtractedScorecard>(content);
 
   // Ensure proper structure
   if (!extracted.courseName) {
     extracted.courseName = 'Unknown Course';
   }
   
-  extracted.holes = extracted.holes?.map((hole: any) => ({
+  extracted.holes = extracted.holes?.map((hole: HoleInfo) => ({
     holeNumber: hole.holeNumber || 0,
     par: hole.par || 4,
     yardage: hole.yardage || undefined,
     handicap: hole.handicap || undefined,
   })) || [];
 
-  extracted.players = extracted.players?.map((player: any) => ({
+  extracted.players = extracted.players?.map((player: PlayerInfo) => ({
     name: player.name || 'Unknown Player',
-    scores: Array.isArray(player.scores) ? player.scores.map((s: any) => ({
+    scores: Array.isArray(player.scores) ? player.scores.map((s: PlayerHoleScore) => ({
       holeNumber: s.holeNumber || 0,
       score: s.score === null || s.score === undefined ? null : s.score,
+      source: 'vision' as const,
+      ...normalizeHoleDetails(s),
     })) : [],
   })) || [];
 
+  // Vision-only readings: confidence from plausibility alone
+  extracted.players = extracted.players.map((player: PlayerInfo) => ({
+    ...player,
+    scores: player.scores.map((s: PlayerHoleScore) => {
+      if (s.score === null) return s;
+      const par = extracted.holes.find((h: HoleInfo) => h.holeNumber === s.holeNumber)?.par || 4;
+      return withConfidence(s, assessCellConfidence({ par, vision: s.score }));
+    }),
+  }));
+
   // Clean up any invalid data before returning
   return cleanupExtractedData(extracted);
 }
@@ -216,13 +253,9 @@ CRITICAL REMINDERS:
  */
 async function enhanceWithVision(
   imageBuffer: Buffer, 
-  structure: ExtractedScorecard
+  structure: ExtractedScorecard,
+  transport: OcrTransport
 ): Promise<ExtractedScorecard> {
-  const apiKey = await getOpenAIApiKey();
-  const openai = new OpenAI({ apiKey });
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
-
   // Detect hole count and use appropriate template
   const holeCount = structure.holes.length;
   const holeInfo = structure.holes.map(h => `Hole ${h.holeNumber} (Par ${h.par})`).join(', ');
@@ -243,15 +276,9 @@ async function enhanceWithVision(
 
   console.log(`[Hybrid OCR] Using ${holeCount}-hole template for score enhancement`);
 
-  const response = await openai.chat.completions.create({
+  const content = await transport.completeVision(imageBuffer, {
     model: 'gpt-4o',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `You are an expert at reading golf scorecards with handwritten scores.
+    prompt: `You are an expert at reading golf scorecards with handwritten scores.
 
 SCORECARD STRUCTURE:
 - This is an ${holeCount}-hole scorecard
@@ -313,36 +340,18 @@ IMPORTANT:
 - Use null for empty cells
 - Include ALL ${actualPlayers.length} players
 - Include ALL columns (holes + OUT/IN/TOTAL) for each player`,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${base64Image}`,
-              detail: 'high', // High detail for better handwriting recognition
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: 4096,
+    detail: 'high', // High detail for better handwriting recognition
+    maxTokens: 4096,
     temperature: 0.1,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     console.warn('[Hybrid OCR] No Vision response, using Textract scores');
     return structure;
   }
 
   try {
-    let jsonString = content.trim();
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonString.startsWith('```')) {
-      jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-
-    const visionScores = JSON.parse(jsonString);
+    const visionScores = parseModelJson(content);
 
     // Log Vision response for debugging
     console.log('[Hybrid OCR] Vision returned scores for players:', 
@@ -367,8 +376,16 @@ IMPORTANT:
       if (scorecardNotation === 'relative') {
         console.log('[Hybrid OCR] Using RELATIVE-TO-PAR notation for Vision score conversion');
       }
-      
-      enhanced.players = enhanced.players.map(player => {
+
+      const parFor = (holeNumber: number | string) =>
+        structure.holes.find(h => h.holeNumber === holeNumber)?.par || 4;
+
+      // Step A: Vision's reading of every Textract cell (gross strokes, null if unreadable/implausible)
+      const visionReadings = new Map<string, number | null>();
+      // Handwritten OUT/IN/TOTAL per player, for the totals cross-check
+      const reportedTotals = new Map<string, ReturnType<typeof extractReportedTotals>>();
+
+      structure.players.forEach(player => {
         console.log(`[Hybrid OCR] Looking for Vision match for Textract player: "${player.name}" (normalized: "${normalizePlayerName(player.name)}")`);
         
         const visionPlayer = visionScores.scores.find(
@@ -379,84 +396,88 @@ IMPORTANT:
           }
         );
 
-        if (visionPlayer && visionPlayer.holeScores) {
-          const updatedScores = player.scores.map(scoreEntry => {
-            const visionScore = visionPlayer.holeScores.find(
-              (hs: any) => hs.hole === scoreEntry.holeNumber
+        if (!visionPlayer?.holeScores) {
+          return;
+        }
+
+        reportedTotals.set(
+          normalizePlayerName(player.name),
+          extractReportedTotals(
+            visionPlayer.holeScores.map((hs: any) => ({ holeNumber: hs.hole, score: hs.score })),
+            structure.holes,
+            scorecardNotation
+          )
+        );
+
+        player.scores.forEach(scoreEntry => {
+          const visionScore = visionPlayer.holeScores.find(
+            (hs: any) => hs.hole === scoreEntry.holeNumber
+          );
+
+          if (!visionScore || visionScore.score === undefined || visionScore.score === null) {
+            return;
+          }
+
+          const par = parFor(scoreEntry.holeNumber);
+          const grossScore = toGrossScore(String(visionScore.score), par, scorecardNotation);
+
+          // Only accept reasonable Vision scores (within 7 of par)
+          if (grossScore !== null && Math.abs(grossScore - par) > 7) {
+            console.log(
+              `[Hybrid OCR] Rejected Vision score for ${player.name} hole ${scoreEntry.holeNumber}: ${grossScore} (too far from par ${par})`
             );
-            
-            // ONLY use Vision if Textract returned null (couldn't read it)
-            if (scoreEntry.score === null || scoreEntry.score === undefined) {
-              if (visionScore && visionScore.score !== undefined && visionScore.score !== null) {
-                const hole = structure.holes.find(h => h.holeNumber === scoreEntry.holeNumber);
-                const par = hole?.par || 4;
-                
-                // Convert notation to gross strokes based on scorecard-wide notation style
-                let grossScore: number | null = null;
-                
-                if (scorecardNotation === 'relative') {
-                  // Scorecard uses relative notation - treat plain numbers as relative to par
-                  const scoreStr = String(visionScore.score);
-                  const num = parseInt(scoreStr, 10);
-                  
-                  if (!isNaN(num)) {
-                    grossScore = par + num; // e.g., "1" with par 5 = 6 strokes
-                    console.log(`[Hybrid OCR] Filled gap with Vision for ${player.name} hole ${scoreEntry.holeNumber}: null → ${grossScore} (Par: ${par}, relative notation "${scoreStr}")`);
-                  } else {
-                    grossScore = parseScoreToGross(scoreStr, par);
-                    console.log(`[Hybrid OCR] Filled gap with Vision for ${player.name} hole ${scoreEntry.holeNumber}: null → ${grossScore} (Par: ${par})`);
-                  }
-                } else {
-                  // Scorecard uses gross notation - parse as-is
-                  grossScore = parseScoreToGross(String(visionScore.score), par);
-                  console.log(`[Hybrid OCR] Filled gap with Vision for ${player.name} hole ${scoreEntry.holeNumber}: null → ${grossScore} (Par: ${par})`);
-                }
-                
-                if (grossScore !== null) {
-                  const visionDiff = Math.abs(grossScore - par);
-                  
-                  // Only accept reasonable Vision scores (within 7 of par)
-                  if (visionDiff <= 7) {
-                    // Mark confidence based on how close to par
-                    const confidence: 'high' | 'medium' | 'low' = visionDiff <= 3 ? 'high' : visionDiff <= 5 ? 'medium' : 'low';
-                    return { 
-                      ...scoreEntry, 
-                      score: grossScore,
-                      confidence,
-                      source: 'vision' as const
-                    };
-                  } else {
-                    console.log(
-                      `[Hybrid OCR] Rejected Vision score for ${player.name} hole ${scoreEntry.holeNumber}: ${grossScore} (too far from par ${par})`
-                    );
-                  }
-                }
-              }
-            } else {
-              // Textract has a score - keep it and mark confidence
-              const hole = structure.holes.find(h => h.holeNumber === scoreEntry.holeNumber);
-              const par = hole?.par || 4;
-              const diff = Math.abs(scoreEntry.score - par);
-              const confidence: 'high' | 'medium' | 'low' = diff <= 3 ? 'high' : diff <= 5 ? 'medium' : 'low';
-              
-              console.log(
-                `[Hybrid OCR] Keeping Textract score for ${player.name} hole ${scoreEntry.holeNumber}: ${scoreEntry.score} (confidence: ${confidence})`
-              );
-              
-              return {
-                ...scoreEntry,
-                confidence,
-                source: 'textract' as const
-              };
-            }
-            
-            return scoreEntry;
+            return;
+          }
+
+          visionReadings.set(cellKey(player.name, scoreEntry.holeNumber), grossScore);
+        });
+      });
+
+      // Step B: Re-read cells where Textract and Vision disagree
+      const disagreements = structure.players.flatMap(player =>
+        player.scores
+          .filter(scoreEntry => {
+            const visionScore = visionReadings.get(cellKey(player.name, scoreEntry.holeNumber));
+            return scoreEntry.score !== null && visionScore !== undefined && visionScore !== null &&
+              visionScore !== scoreEntry.score;
+          })
+          .map(scoreEntry => ({ playerName: player.name, holeNumber: scoreEntry.holeNumber as number }))
+      );
+
+      const secondPassReadings = disagreements.length > 0
+        ? await recheckCellsWithVision(imageBuffer, structure, disagreements, scorecardNotation, transport)
+        : new Map<string, number | null>();
+
+      // Step C: Pick each score and compute its confidence from all readings
+      enhanced.players = structure.players.map(player => {
+        const updatedScores = player.scores.map(scoreEntry => {
+          const key = cellKey(player.name, scoreEntry.holeNumber);
+          const assessment = assessCellConfidence({
+            par: parFor(scoreEntry.holeNumber),
+            textract: scoreEntry.score,
+            textractConfidence: scoreEntry.textractConfidence,
+            vision: visionReadings.get(key),
+            secondPass: secondPassReadings.get(key),
           });
 
-          return { ...player, scores: updatedScores };
-        }
+          if (assessment.score === null) {
+            return scoreEntry;
+          }
+
+          if (scoreEntry.score === null) {
+            console.log(`[Hybrid OCR] Filled gap with Vision for ${player.name} hole ${scoreEntry.holeNumber}: null → ${assessment.score}`);
+          } else if (assessment.score !== scoreEntry.score) {
+            console.log(`[Hybrid OCR] Replaced Textract score for ${player.name} hole ${scoreEntry.holeNumber}: ${scoreEntry.score} → ${assessment.score} (two Vision reads agree)`);
+          }
+
+          console.log(
+            `[Hybrid OCR] ${player.name} hole ${scoreEntry.holeNumber}: ${assessment.score} (${assessment.source}, confidence ${assessment.value}: ${assessment.reasons.join('; ')})`
+          );
+
+          return withConfidence(scoreEntry, assessment);
+        });
 
-        return player;
+        return { ...player, ...reportedTotals.get(normalizePlayerName(player.name)), scores: updatedScores };
       });
 
       console.log('[Hybrid OCR] Successfully merged Vision scores with Textract structure');
@@ -470,29 +491,108 @@ IMPORTANT:
   }
 }
 
+function cellKey(playerName: string, holeNumber: number | string): string {
+  return `${normalizePlayerName(playerName)}:${holeNumber}`;
+}
+
 /**
- * Normalize player names for matching
+ * Converts a score as written to gross strokes using the scorecard-wide notation
  */
-function normalizePlayerName(name: string): string {
-  return name.toLowerCase().trim().replace(/[^a-z0-9]/g, '');
+function toGrossScore(raw: string, par: number, notation: 'gross' | 'relative'): number | null {
+  if (notation === 'relative') {
+    // Scorecard uses relative notation - treat plain numbers as relative to par
+    const num = parseInt(raw, 10);
+    if (!isNaN(num)) {
+      return par + num; // e.g., "1" with par 5 = 6 strokes
+    }
+  }
+
+  return parseScoreToGross(raw, par);
+}
+
+// One cell of the second Vision pass, as the model returns it
+interface VisionReread {
+  playerName?: string;
+  hole?: number | string;
+  score?: string | number | null;
 }
 
 /**
- * Detect MIME type from buffer
+ * Second, targeted Vision pass over cells where Textract and Vision disagree
+ *
+ * Unlike the first pass, the prompt asks for the digits exactly as written and
+ * does not nudge the model toward par, so the re-read is an independent vote.
+ *
+ * @returns Gross score per cell key (missing when the cell could not be re-read)
  */
-function detectMimeType(buffer: Buffer): string {
-  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
-    return 'image/jpeg';
-  }
-  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
-    return 'image/png';
-  }
-  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
-    return 'image/gif';
-  }
-  if (buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46) {
-    return 'image/webp';
+async function recheckCellsWithVision(
+  imageBuffer: Buffer,
+  structure: ExtractedScorecard,
+  cells: { playerName: string; holeNumber: number }[],
+  notation: 'gross' | 'relative',
+  transport: OcrTransport
+): Promise<Map<string, number | null>> {
+  const readings = new Map<string, number | null>();
+
+  console.log(`[Hybrid OCR] Textract and Vision disagree on ${cells.length} cell(s), re-reading with Vision...`);
+
+  try {
+    const content = await transport.completeVision(imageBuffer, {
+      model: 'gpt-4o',
+      prompt: `Two readers disagreed on some handwritten scores on this golf scorecard. Look at each listed cell again, very carefully.
+
+SCORECARD STRUCTURE:
+- Players (rows, top to bottom): ${structure.players.map(p => p.name).join(', ')}
+- Holes (columns, left to right): ${structure.holes.map(h => h.holeNumber).join(', ')} (summary columns OUT/IN/TOTAL are not holes)
+
+CELLS TO RE-READ:
+${cells.map(c => `- Player "${c.playerName}", hole ${c.holeNumber}`).join('\n')}
+
+Report each cell EXACTLY as written (e.g. "5", "+1", "-1", "E"). Do not correct values based on par.
+Use null if the cell is empty or illegible.
+
+Return ONLY valid JSON (no markdown):
+{"cells": [{"playerName": "<name>", "hole": <number>, "score": "<as written or null>"}]}`,
+      detail: 'high',
+      maxTokens: 1024,
+      temperature: 0,
+    });
+
+    if (!content) {
+      return readings;
+    }
+
+    const parsed = parseModelJson<{ cells?: unknown }>(content);
+    const rereads: VisionReread[] = Array.isArray(parsed.cells) ? parsed.cells : [];
+
+    cells.forEach(cell => {
+      const reread = rereads.find((r) =>
+        normalizePlayerName(String(r.playerName || '')) === normalizePlayerName(cell.playerName) &&
+        Number(r.hole) === cell.holeNumber
+      );
+
+      if (!reread || reread.score === null || reread.score === undefined) {
+        return;
+      }
+
+      const par = structure.holes.find(h => h.holeNumber === cell.holeNumber)?.par || 4;
+      readings.set(cellKey(cell.playerName, cell.holeNumber), toGrossScore(String(reread.score), par, notation));
+    });
+  } catch (error) {
+    console.warn('[Hybrid OCR] Second Vision pass failed, resolving disagreements without it:', error);
   }
-  
-  return 'image/jpeg';
+
+  return readings;
 }
+
+/**
+ * Hybrid OCR provider: Textract structure with Vision gap filling
+ */
+export const hybridProvider: OcrProvider = {
+  name: 'hybrid',
+  description: 'Textract table structure with OpenAI Vision filling unreadable cells',
+  async analyze(imageBuffer, hints, onProgress) {
+    const scorecard = await analyzeWithHybridOcr(imageBuffer, hints, getOcrTransport(), onProgress);
+    return { scorecard, provenance: collectProvenance(scorecard, 'textract') };
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Cropping of scorecard cells out of the uploaded image
+ *
+ * OCR providers report cell locations as normalized bounding boxes (fractions
+ * of the image size, see BoundingBox in lib/types.ts). These helpers turn such
+ * a box back into pixels so a reviewer can see the handwriting behind a value.
+ */
+
+import sharp from 'sharp';
+import type { BoundingBox } from './types';
+
+const DEFAULT_PADDING = 0.15; // Extra margin around the cell, as a fraction of its size
+
+/**
+ * Parses and validates a bounding box from untrusted input
+ *
+ * @returns The box, or null if it is not a box inside the 0-1 image space
+ */
+export function parseBoundingBox(value: unknown): BoundingBox | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { left, top, width, height } = value as Record<string, unknown>;
+  const numbers = [left, top, width, height];
+
+  if (!numbers.every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1)) {
+    return null;
+  }
+
+  const box = { left, top, width, height } as BoundingBox;
+  if (box.width === 0 || box.height === 0 || box.left + box.width > 1.0001 || box.top + box.height > 1.0001) {
+    return null;
+  }
+
+  return box;
+}
+
+/**
+ * Crops a bounding box (plus padding) out of an image
+ *
+ * @param imageBuffer - The original scorecard image
+ * @param box - Normalized cell location
+ * @param padding - Margin around the cell as a fraction of the cell size
+ * @returns PNG image of the cell
+ */
+export async function cropBoundingBox(
+  imageBuffer: Buffer,
+  box: BoundingBox,
+  padding: number = DEFAULT_PADDING
+): Promise<Buffer> {
+  const { width: imageWidth, height: imageHeight } = await sharp(imageBuffer).metadata();
+
+  if (!imageWidth || !imageHeight) {
+    throw new Error('Could not read image dimensions');
+  }
+
+  const padX = box.width * padding;
+  const padY = box.height * padding;
+
+  const left = Math.max(0, Math.floor((box.left - padX) * imageWidth));
+  const top = Math.max(0, Math.floor((box.top - padY) * imageHeight));
+  const right = Math.min(imageWidth, Math.ceil((box.left + box.width + padX) * imageWidth));
+  const bottom = Math.min(imageHeight, Math.ceil((box.top + box.height + padY) * imageHeight));
+
+  return sharp(imageBuffer)
+    .extract({
+      left,
+      top,
+      width: Math.max(1, right - left),
+      height: Math.max(1, bottom - top),
+    })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,100 @@
+/**
+ * Storage for asynchronous extraction jobs
+ *
+ * The job API (/api/scorecards/jobs) keeps each job's status and, once done,
+ * its ScorecardAnalysisResponse in a JobStore. The store is pluggable: the
+ * in-memory implementation below is meant for local development and
+ * single-instance deployments; a shared store (Redis, DynamoDB, ...) can be
+ * installed with setJobStore() when requests may hit different instances.
+ */
+
+import type { ExtractionJobStatus, ScorecardAnalysisResponse } from './types';
+
+/**
+ * A job as kept in the store
+ */
+export interface ExtractionJob extends ExtractionJobStatus {
+  result?: ScorecardAnalysisResponse;
+}
+
+/**
+ * Pluggable job persistence
+ */
+export interface JobStore {
+  create(job: ExtractionJob): Promise<void>;
+  get(id: string): Promise<ExtractionJob | null>;
+  /** Merges the changes into the job; returns null if the job does not exist */
+  update(id: string, changes: Partial<Omit<ExtractionJob, 'id'>>): Promise<ExtractionJob | null>;
+  delete(id: string): Promise<void>;
+}
+
+// Finished jobs are dropped after this long (in-memory store)
+const DEFAULT_JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory job store
+ *
+ * Jobs live in the server process and are lost on restart. Jobs older than
+ * the TTL are removed lazily whenever a job is created.
+ *
+ * @param ttlMs - How long to keep a job after its last update
+ */
+export function createInMemoryJobStore(ttlMs: number = DEFAULT_JOB_TTL_MS): JobStore {
+  const jobs = new Map<string, ExtractionJob>();
+
+  const removeExpired = () => {
+    const cutoff = Date.now() - ttlMs;
+    jobs.forEach((job, id) => {
+      if (new Date(job.updatedAt).getTime() < cutoff) {
+        jobs.delete(id);
+      }
+    });
+  };
+
+  return {
+    async create(job) {
+      removeExpired();
+      jobs.set(job.id, { ...job });
+    },
+
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    async update(id, changes) {
+      const job = jobs.get(id);
+      if (!job) {
+        return null;
+      }
+
+      const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+      jobs.set(id, updated);
+      return { ...updated };
+    },
+
+    async delete(id) {
+      jobs.delete(id);
+    },
+  };
+}
+
+// Kept on globalThis so jobs survive module reloads in `next dev`
+const globalForJobs = globalThis as unknown as { scorecardJobStore?: JobStore };
+
+/**
+ * Returns the active job store (in-memory unless another one was installed)
+ */
+export function getJobStore(): JobStore {
+  if (!globalForJobs.scorecardJobStore) {
+    globalForJobs.scorecardJobStore = createInMemoryJobStore();
+  }
+  return globalForJobs.scorecardJobStore;
+}
+
+/**
+ * Installs a different job store implementation
+ */
+export function setJobStore(store: JobStore): void {
+  globalForJobs.scorecardJobStore = store;
+}
@@ -0,0 +1,195 @@
+/**
+ * Match play scoring
+ *
+ * Computes hole-by-hole status and the result of matches declared on a
+ * scorecard (`ExtractedScorecard.matches`):
+ * - Singles: player against player
+ * - Four-ball: the better net score of each pair counts on every hole
+ * - Foursomes: each pair plays one ball (alternate shot); the pair's score is
+ *   taken from the first of its players with a score on the hole
+ *
+ * Handicap strokes are a percentage of the difference in course handicaps,
+ * given to the higher handicap and allocated by stroke index:
+ * - Singles (default 100%): the difference between the two players
+ * - Four-ball (default 90%): each player's allowance minus the lowest in the match
+ * - Foursomes (default 50%): of each pair's combined handicaps, then the difference
+ */
+
+import type {
+  ExtractedScorecard,
+  MatchDefinition,
+  MatchHoleResult,
+  MatchResult,
+  PlayerInfo,
+} from './types';
+import { allocateHandicapStrokes } from './golfScoring';
+
+const DEFAULT_ALLOWANCE: Record<MatchDefinition['format'], number> = {
+  singles: 100,
+  'four-ball': 90,
+  foursomes: 50,
+};
+
+/**
+ * Display name of a side ("Jay" or "Jay & Sam")
+ */
+export function formatSideName(players: string[]): string {
+  return players.join(' & ');
+}
+
+/**
+ * Match status from side A's margin, e.g. "Jay 2 UP", "AS", "Sam 1 UP (dormie)"
+ */
+export function formatMatchStatus(margin: number, holesRemaining: number, sideNames: [string, string]): string {
+  if (margin === 0) {
+    return 'AS';
+  }
+
+  const leader = margin > 0 ? sideNames[0] : sideNames[1];
+  const up = Math.abs(margin);
+  return `${leader} ${up} UP${up === holesRemaining ? ' (dormie)' : ''}`;
+}
+
+/**
+ * Handicap strokes each player (or pair, for foursomes) receives in the match
+ */
+function matchStrokes(definition: MatchDefinition, players: PlayerInfo[]): { name: string; strokes: number }[] {
+  const allowance = (definition.handicapAllowance ?? DEFAULT_ALLOWANCE[definition.format]) / 100;
+  const handicapOf = (name: string) => players.find((p) => p.name === name)?.courseHandicap ?? 0;
+
+  if (definition.format === 'foursomes') {
+    const sideHandicaps = definition.sides.map((side) =>
+      Math.round(side.reduce((sum, name) => sum + handicapOf(name), 0) * allowance)
+    );
+    const lowest = Math.min(...sideHandicaps);
+    return definition.sides.map((side, i) => ({ name: formatSideName(side), strokes: sideHandicaps[i] - lowest }));
+  }
+
+  if (definition.format === 'singles') {
+    const [a, b] = [definition.sides[0][0], definition.sides[1][0]];
+    const difference = Math.round(Math.abs(handicapOf(a) - handicapOf(b)) * allowance);
+    return [
+      { name: a, strokes: handicapOf(a) > handicapOf(b) ? difference : 0 },
+      { name: b, strokes: handicapOf(b) > handicapOf(a) ? difference : 0 },
+    ];
+  }
+
+  const names = definition.sides.flat();
+  const playing = names.map((name) => Math.round(handicapOf(name) * allowance));
+  const lowest = Math.min(...playing);
+  return names.map((name, i) => ({ name, strokes: playing[i] - lowest }));
+}
+
+/**
+ * Computes the status and result of one match
+ *
+ * Holes where either side has no score are skipped (status unchanged). The
+ * match ends as soon as one side is up by more holes than remain.
+ */
+export function calculateMatch(definition: MatchDefinition, scorecard: ExtractedScorecard): MatchResult {
+  const holes = [...scorecard.holes].sort((a, b) => a.holeNumber - b.holeNumber);
+  const sideNames: [string, string] = [formatSideName(definition.sides[0]), formatSideName(definition.sides[1])];
+  const strokesReceived = matchStrokes(definition, scorecard.players);
+  const allocations = new Map(
+    strokesReceived.map(({ name, strokes }) => [name, allocateHandicapStrokes(strokes, holes)])
+  );
+
+  const grossScore = (name: string, holeNumber: number) =>
+    scorecard.players.find((p) => p.name === name)?.scores.find((s) => s.holeNumber === holeNumber)?.score ?? null;
+
+  const sideScore = (side: string[], holeNumber: number): number | null => {
+    if (definition.format === 'foursomes') {
+      const score = side.map((name) => grossScore(name, holeNumber)).find((s) => s !== null) ?? null;
+      const strokes = allocations.get(formatSideName(side))?.get(holeNumber) ?? 0;
+      return score === null ? null : score - strokes;
+    }
+
+    const netScores = side
+      .map((name) => {
+        const score = grossScore(name, holeNumber);
+        return score === null ? null : score - (allocations.get(name)?.get(holeNumber) ?? 0);
+      })
+      .filter((s): s is number => s !== null);
+
+    return netScores.length > 0 ? Math.min(...netScores) : null;
+  };
+
+  const results: MatchHoleResult[] = [];
+  let margin = 0;
+  let holesPlayed = 0;
+  let finished = false;
+  let lastPlayedHole: number | null = null;
+
+  for (let i = 0; i < holes.length && !finished; i++) {
+    const hole = holes[i];
+    const holesRemaining = holes.length - i - 1;
+    const scores: [number | null, number | null] = [
+      sideScore(definition.sides[0], hole.holeNumber),
+      sideScore(definition.sides[1], hole.holeNumber),
+    ];
+
+    let winner: 0 | 1 | null = null;
+    if (scores[0] !== null && scores[1] !== null) {
+      holesPlayed++;
+      lastPlayedHole = hole.holeNumber;
+      if (scores[0] < scores[1]) {
+        winner = 0;
+        margin++;
+      } else if (scores[1] < scores[0]) {
+        winner = 1;
+        margin--;
+      }
+      finished = Math.abs(margin) > holesRemaining;
+    }
+
+    results.push({
+      holeNumber: hole.holeNumber,
+      sideScores: scores,
+      winner,
+      margin,
+      status: formatMatchStatus(margin, holesRemaining, sideNames),
+    });
+  }
+
+  const allPlayed = holesPlayed === holes.length && holes.length > 0;
+  const remaining = holes.length - results.length;
+  let result: string | null = null;
+  let status: string;
+
+  if (finished) {
+    result = remaining > 0 ? `${Math.abs(margin)}&${remaining}` : `${Math.abs(margin)} UP`;
+    status = `${margin > 0 ? sideNames[0] : sideNames[1]} wins ${result}`;
+  } else if (allPlayed) {
+    // Only reachable when all square after the last hole
+    result = 'AS';
+    status = 'Match halved';
+  } else if (lastPlayedHole === null) {
+    status = 'Not started';
+  } else {
+    status = `${formatMatchStatus(margin, -1, sideNames)} thru ${lastPlayedHole}`;
+  }
+
+  return {
+    format: definition.format,
+    sides: definition.sides,
+    sideNames,
+    strokesReceived,
+    holes: results,
+    holesPlayed,
+    status,
+    finished: finished || allPlayed,
+    winner: finished ? (margin > 0 ? 0 : 1) : null,
+    result,
+  };
+}
+
+/**
+ * Computes every match declared on the scorecard, skipping matches whose players are not on the card
+ */
+export function calculateMatches(scorecard: ExtractedScorecard): MatchResult[] {
+  const names = new Set(scorecard.players.map((p) => p.name));
+
+  return (scorecard.matches || [])
+    .filter((match) => match.sides.every((side) => side.length > 0 && side.every((name) => names.has(name))))
+    .map((match) => calculateMatch(match, scorecard));
+}
@@ -77,10 +77,17 @@ export function mergePlayers(
     return existingScorecard;
   }
 
-  // Merge players
+  // Merge players. Bounding boxes of the new players point into a different
+  // photo, so they are dropped rather than shown over the original image.
   return {
     ...existingScorecard,
-    players: [...existingScorecard.players, ...newPlayers],
+    players: [
+      ...existingScorecard.players,
+      ...newPlayers.map(({ nameBoundingBox, ...player }) => ({
+        ...player,
+        scores: player.scores.map(({ boundingBox, ...score }) => score),
+      })),
+    ],
   };
 }
 
@@ -0,0 +1,196 @@
+/**
+ * Nassau and side-bet settlement
+ *
+ * Every pair of players on the card plays three bets of the same stake:
+ * the front nine, the back nine and the overall 18 (a 9-hole card has a
+ * single bet on its nine). Bets are won on holes (match) or on strokes
+ * (stroke, using the frontNine/backNine/total from calculatePlayerTotals),
+ * gross or net of each player's handicap strokes.
+ *
+ * Automatic presses: when a player falls `pressDown` down in a bet, a new
+ * bet for the same stake starts on the next hole and runs to the end of that
+ * bet. A press can itself be pressed. Each bet presses at most once.
+ *
+ * Decided bets are settled into a ledger of who owes whom, netted per pair.
+ */
+
+import type {
+  ExtractedScorecard,
+  HoleInfo,
+  NassauBet,
+  NassauMatch,
+  NassauResult,
+  NassauSettings,
+  PlayerInfo,
+  SettlementEntry,
+} from './types';
+import { allocateHandicapStrokes, calculatePlayerTotals } from './golfScoring';
+
+export const DEFAULT_NASSAU_SETTINGS: NassauSettings = {
+  mode: 'gross',
+  format: 'match',
+  stake: 5,
+  pressDown: 2,
+};
+
+interface ActiveBet extends NassauBet {
+  pressed: boolean;
+}
+
+/**
+ * Score counted for a player on each hole (gross, or net of handicap strokes)
+ */
+function countedScores(player: PlayerInfo, holes: HoleInfo[], mode: NassauSettings['mode']): Map<number, number | null> {
+  const strokes = mode === 'net' && player.courseHandicap !== undefined
+    ? allocateHandicapStrokes(player.courseHandicap, holes)
+    : new Map<number, number>();
+
+  return new Map(
+    holes.map((hole) => {
+      const score = player.scores.find((s) => s.holeNumber === hole.holeNumber)?.score ?? null;
+      return [hole.holeNumber, score === null ? null : score - (strokes.get(hole.holeNumber) || 0)];
+    })
+  );
+}
+
+/**
+ * Stroke-play total for the holes of a main bet, from the player's Out/In/Total
+ */
+function strokeTotal(player: PlayerInfo, bet: NassauBet, holes: HoleInfo[], mode: NassauSettings['mode']): number {
+  const totals = calculatePlayerTotals(player);
+  const gross = bet.name === 'Front 9' ? totals.frontNine : bet.name === 'Back 9' ? totals.backNine : totals.total;
+
+  const strokes = mode === 'net' && player.courseHandicap !== undefined
+    ? allocateHandicapStrokes(player.courseHandicap, holes)
+    : new Map<number, number>();
+  let received = 0;
+  strokes.forEach((count, holeNumber) => {
+    if (holeNumber >= bet.startHole && holeNumber <= bet.endHole) {
+      received += count;
+    }
+  });
+
+  return (gross ?? 0) - received;
+}
+
+/**
+ * Plays all Nassau bets (and presses) between two players
+ */
+export function calculateNassauMatch(
+  a: PlayerInfo,
+  b: PlayerInfo,
+  holes: HoleInfo[],
+  settings: NassauSettings
+): NassauMatch {
+  const sortedHoles = [...holes].sort((x, y) => x.holeNumber - y.holeNumber);
+  const front = sortedHoles.filter((h) => h.holeNumber <= 9);
+  const back = sortedHoles.filter((h) => h.holeNumber >= 10);
+  const scoresA = countedScores(a, sortedHoles, settings.mode);
+  const scoresB = countedScores(b, sortedHoles, settings.mode);
+
+  const newBet = (name: string, range: HoleInfo[]): ActiveBet => ({
+    name,
+    startHole: range[0].holeNumber,
+    endHole: range[range.length - 1].holeNumber,
+    margin: 0,
+    holesPlayed: 0,
+    decided: false,
+    winner: null,
+    pressed: false,
+  });
+
+  const bets: ActiveBet[] = [];
+  if (front.length > 0) bets.push(newBet('Front 9', front));
+  if (back.length > 0) bets.push(newBet('Back 9', back));
+  if (front.length > 0 && back.length > 0) bets.push(newBet('Overall', sortedHoles));
+
+  sortedHoles.forEach((hole, index) => {
+    const scoreA = scoresA.get(hole.holeNumber) ?? null;
+    const scoreB = scoresB.get(hole.holeNumber) ?? null;
+    if (scoreA === null || scoreB === null) {
+      return;
+    }
+
+    const delta = settings.format === 'match' ? Math.sign(scoreB - scoreA) : scoreB - scoreA;
+    const nextHole = sortedHoles[index + 1];
+
+    // Presses created on this hole start on the next one, so iterate over a snapshot
+    for (const bet of [...bets]) {
+      if (hole.holeNumber < bet.startHole || hole.holeNumber > bet.endHole) {
+        continue;
+      }
+
+      bet.margin += delta;
+      bet.holesPlayed++;
+
+      const canPress = settings.pressDown > 0 && !bet.pressed && nextHole && nextHole.holeNumber <= bet.endHole;
+      if (canPress && Math.abs(bet.margin) >= settings.pressDown) {
+        bet.pressed = true;
+        const range = sortedHoles.filter((h) => h.holeNumber >= nextHole.holeNumber && h.holeNumber <= bet.endHole);
+        bets.push(newBet(`${bet.name.replace(/ press \(from \d+\)$/, '')} press (from ${nextHole.holeNumber})`, range));
+      }
+    }
+  });
+
+  let balance = 0;
+  const results: NassauBet[] = bets.map(({ pressed: _pressed, ...bet }) => {
+    const holeCount = sortedHoles.filter((h) => h.holeNumber >= bet.startHole && h.holeNumber <= bet.endHole).length;
+    const decided = bet.holesPlayed === holeCount;
+
+    // Stroke-play main bets are settled on the Out/In/Total
+    const isMainBet = ['Front 9', 'Back 9', 'Overall'].includes(bet.name);
+    const margin = decided && settings.format === 'stroke' && isMainBet
+      ? strokeTotal(b, bet, sortedHoles, settings.mode) - strokeTotal(a, bet, sortedHoles, settings.mode)
+      : bet.margin;
+
+    const winner = decided && margin !== 0 ? (margin > 0 ? a.name : b.name) : null;
+    if (winner) {
+      balance += winner === a.name ? settings.stake : -settings.stake;
+    }
+
+    return { ...bet, margin, decided, winner };
+  });
+
+  return { players: [a.name, b.name], bets: results, balance };
+}
+
+/**
+ * Plays the Nassau between every pair of players and settles it
+ */
+export function calculateNassau(scorecard: ExtractedScorecard, settings: NassauSettings): NassauResult {
+  const matches: NassauMatch[] = [];
+  const players = scorecard.players;
+
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      matches.push(calculateNassauMatch(players[i], players[j], scorecard.holes, settings));
+    }
+  }
+
+  const ledger: SettlementEntry[] = matches
+    .filter((match) => match.balance !== 0)
+    .map((match) => ({
+      from: match.balance > 0 ? match.players[1] : match.players[0],
+      to: match.balance > 0 ? match.players[0] : match.players[1],
+      amount: Math.abs(match.balance),
+    }));
+
+  return { settings, matches, ledger };
+}
+
+/**
+ * Describes a bet's standing, e.g. "Jay 2 UP", "Sam by 3", "AS"
+ */
+export function formatNassauBet(bet: NassauBet, players: [string, string], format: NassauSettings['format']): string {
+  if (bet.holesPlayed === 0) {
+    return 'Not started';
+  }
+  if (bet.margin === 0) {
+    return bet.decided ? 'Push' : 'AS';
+  }
+
+  const leader = bet.margin > 0 ? players[0] : players[1];
+  const lead = Math.abs(bet.margin);
+  const standing = format === 'match' ? `${leader} ${lead} UP` : `${leader} by ${lead}`;
+  return bet.decided ? `${standing} (won)` : standing;
+}
@@ -0,0 +1,202 @@
+/**
+ * OCR confidence scoring for individual score cells
+ *
+ * Combines the evidence we have for one handwritten score into a 0-1 value:
+ * - Textract's own word confidence for the cell
+ * - Whether Textract and Vision read the same number
+ * - A second, targeted Vision read when they disagree (majority vote)
+ * - Golf plausibility (how far the score is from par)
+ *
+ * Every result carries human-readable reasons so the editor/API can explain
+ * why a cell needs confirmation.
+ */
+
+import type { ExtractedScorecard, LowConfidenceCell, PlayerHoleScore } from './types';
+
+export type ConfidenceLevel = NonNullable<PlayerHoleScore['confidence']>;
+
+// Below this value a cell is "low" confidence and flagged for confirmation
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+const HIGH_CONFIDENCE_THRESHOLD = 0.8;
+
+// Used when Textract read a value but reported no word confidence
+const DEFAULT_TEXTRACT_CONFIDENCE = 0.75;
+// A single unconfirmed Vision read
+const VISION_ONLY_CONFIDENCE = 0.6;
+
+/**
+ * Everything known about one cell
+ */
+export interface CellReadings {
+  par: number;
+  textract?: number | null; // Gross score read by Textract
+  textractConfidence?: number; // Textract word confidence (0-1)
+  vision?: number | null; // Gross score from the first Vision pass
+  secondPass?: number | null; // Gross score from the targeted re-read
+}
+
+/**
+ * Chosen score for a cell and how much to trust it
+ */
+export interface CellConfidence {
+  score: number | null;
+  source?: 'textract' | 'vision';
+  value: number; // 0-1
+  level: ConfidenceLevel;
+  reasons: string[];
+}
+
+/**
+ * Maps a 0-1 confidence value to the level shown in the UI
+ */
+export function confidenceLevel(value: number): ConfidenceLevel {
+  if (value >= HIGH_CONFIDENCE_THRESHOLD) return 'high';
+  if (value >= LOW_CONFIDENCE_THRESHOLD) return 'medium';
+  return 'low';
+}
+
+/**
+ * Golf plausibility factor: scores far from par are more often misreads
+ */
+function plausibilityFactor(score: number, par: number): { factor: number; reason?: string } {
+  const diff = score - par;
+  const distance = Math.abs(diff);
+  const description = `${distance} ${diff > 0 ? 'over' : 'under'} par`;
+
+  if (diff < -3 || score < 1) return { factor: 0.3, reason: `Implausible score (${description})` };
+  if (distance <= 2) return { factor: 1 };
+  if (distance === 3) return { factor: 0.9, reason: `Unusual score (${description})` };
+  if (distance <= 5) return { factor: 0.7, reason: `Unlikely score (${description})` };
+  return { factor: 0.4, reason: `Implausible score (${description})` };
+}
+
+/**
+ * Picks the score for a cell and computes its confidence
+ *
+ * When Textract and Vision disagree, a matching second Vision read decides;
+ * without a majority the Textract value is kept (conservative approach) with
+ * low confidence.
+ */
+export function assessCellConfidence(readings: CellReadings): CellConfidence {
+  const { par, textract, vision, secondPass } = readings;
+  const hasTextract = textract !== null && textract !== undefined;
+  const hasVision = vision !== null && vision !== undefined;
+  const hasSecondPass = secondPass !== null && secondPass !== undefined;
+  const textractConfidence = readings.textractConfidence ?? DEFAULT_TEXTRACT_CONFIDENCE;
+
+  const reasons: string[] = [];
+  let score: number | null = null;
+  let source: CellConfidence['source'];
+  let value = 0;
+
+  if (hasTextract && readings.textractConfidence !== undefined) {
+    reasons.push(`Textract word confidence ${Math.round(readings.textractConfidence * 100)}%`);
+  }
+
+  if (hasTextract && hasVision) {
+    if (textract === vision) {
+      score = textract;
+      source = 'textract';
+      value = 1 - (1 - textractConfidence) * 0.25;
+      reasons.push('Textract and Vision agree');
+    } else {
+      reasons.push(`Textract read ${textract}, Vision read ${vision}`);
+
+      if (hasSecondPass && secondPass === textract) {
+        score = textract;
+        source = 'textract';
+        value = 0.7;
+        reasons.push(`Second Vision read agrees with Textract (${secondPass})`);
+      } else if (hasSecondPass && secondPass === vision) {
+        score = vision;
+        source = 'vision';
+        value = 0.6;
+        reasons.push(`Second Vision read agrees with Vision (${secondPass})`);
+      } else {
+        score = textract;
+        source = 'textract';
+        value = 0.35;
+        reasons.push(
+          hasSecondPass
+            ? `Second Vision read ${secondPass} matches neither - keeping Textract`
+            : 'No second read to break the tie - keeping Textract'
+        );
+      }
+    }
+  } else if (hasTextract) {
+    score = textract;
+    source = 'textract';
+    value = textractConfidence;
+    reasons.push('Read by Textract only (not cross-checked)');
+  } else if (hasVision) {
+    score = vision;
+    source = 'vision';
+    value = VISION_ONLY_CONFIDENCE;
+    reasons.push('Read by Vision only (Textract found no value)');
+
+    if (hasSecondPass && secondPass === vision) {
+      value = 0.75;
+      reasons.push('Second Vision read agrees');
+    }
+  } else {
+    reasons.push('No reading');
+    return { score: null, value: 0, level: 'low', reasons };
+  }
+
+  const plausibility = plausibilityFactor(score!, par);
+  value *= plausibility.factor;
+  if (plausibility.reason) {
+    reasons.push(plausibility.reason);
+  }
+
+  value = Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+
+  return { score, source, value, level: confidenceLevel(value), reasons };
+}
+
+/**
+ * Applies an assessment to a score entry (keeping its geometry and other fields)
+ */
+export function withConfidence(entry: PlayerHoleScore, assessment: CellConfidence): PlayerHoleScore {
+  return {
+    ...entry,
+    score: assessment.score,
+    source: assessment.source ?? entry.source,
+    confidence: assessment.level,
+    confidenceScore: assessment.value,
+    confidenceReasons: assessment.reasons,
+  };
+}
+
+/**
+ * Lists filled-in cells whose confidence is low enough to require confirmation
+ *
+ * Uses the numeric confidence when a provider computed one, the level otherwise.
+ */
+export function findLowConfidenceCells(scorecard: ExtractedScorecard): LowConfidenceCell[] {
+  const cells: LowConfidenceCell[] = [];
+
+  scorecard.players.forEach((player) => {
+    player.scores.forEach((entry) => {
+      if (typeof entry.holeNumber !== 'number' || entry.score === null) {
+        return;
+      }
+
+      const isLow = entry.confidenceScore !== undefined
+        ? entry.confidenceScore < LOW_CONFIDENCE_THRESHOLD
+        : entry.confidence === 'low';
+
+      if (isLow) {
+        cells.push({
+          playerName: player.name,
+          holeNumber: entry.holeNumber,
+          score: entry.score,
+          confidenceScore: entry.confidenceScore,
+          reasons: entry.confidenceReasons || [],
+        });
+      }
+    });
+  });
+
+  return cells;
+}
@@ -0,0 +1,211 @@
+/**
+ * OCR accuracy evaluation against ground-truth scorecards
+ *
+ * Compares an extracted scorecard to a hand-verified one and reports:
+ * - Per-field accuracy (pars, yardages, handicaps, player names, per-hole scores)
+ * - Confusion pairs for misread scores ("4→9" = expected 4, read 9)
+ * - Aggregates across many cards for one OCR strategy, with accuracy both
+ *   excluding and including cards the strategy failed on
+ *
+ * Used by scripts/evaluate-ocr.ts to compare strategies and prompt changes.
+ */
+
+import type { ExtractedScorecard, ScorecardDiscrepancy } from './types';
+import { diffScorecards, countScoreConfusions } from './validation';
+
+export type EvaluatedField = ScorecardDiscrepancy['field'];
+
+export const EVALUATED_FIELDS: EvaluatedField[] = ['par', 'yardage', 'handicap', 'playerName', 'score'];
+
+/**
+ * Correct vs. total comparisons for one field
+ */
+export interface FieldAccuracy {
+  correct: number;
+  total: number;
+}
+
+/**
+ * Evaluation of a single extracted card
+ */
+export interface ScorecardEvaluation {
+  fields: Record<EvaluatedField, FieldAccuracy>;
+  confusionPairs: Record<string, number>; // "expected→read" → count
+  missingScores: number; // ground truth had a score, extraction had null/nothing
+}
+
+/**
+ * Aggregated evaluation of one strategy over many cards
+ */
+export interface StrategyEvaluation {
+  strategy: string;
+  cards: number;
+  failures: number; // cards where the strategy threw
+  fields: Record<EvaluatedField, FieldAccuracy>; // over the cards that were extracted
+  fieldsWithFailures: Record<EvaluatedField, FieldAccuracy>; // failed cards' fields counted as wrong
+  confusionPairs: Record<string, number>;
+  missingScores: number;
+}
+
+function emptyFields(): Record<EvaluatedField, FieldAccuracy> {
+  return {
+    par: { correct: 0, total: 0 },
+    yardage: { correct: 0, total: 0 },
+    handicap: { correct: 0, total: 0 },
+    playerName: { correct: 0, total: 0 },
+    score: { correct: 0, total: 0 },
+  };
+}
+
+/**
+ * Evaluates an extracted scorecard against its ground truth
+ *
+ * Totals come from the ground truth and errors from diffScorecards, so only
+ * fields present in the ground truth are counted: a reference without yardages
+ * does not penalize (or reward) yardage extraction. Extra extracted players are
+ * not counted against name accuracy.
+ *
+ * @param extracted - Output of an OCR strategy
+ * @param truth - Hand-verified scorecard for the same image
+ */
+export function evaluateScorecard(
+  extracted: ExtractedScorecard,
+  truth: ExtractedScorecard
+): ScorecardEvaluation {
+  const fields = groundTruthFields(truth);
+
+  const discrepancies = diffScorecards(extracted, truth).filter((d) => d.expected !== null);
+  const errorCounts = emptyFields();
+  discrepancies.forEach((d) => errorCounts[d.field].total++);
+
+  EVALUATED_FIELDS.forEach((field) => {
+    fields[field].correct = fields[field].total - errorCounts[field].total;
+  });
+
+  return {
+    fields,
+    confusionPairs: countScoreConfusions(discrepancies),
+    missingScores: discrepancies.filter((d) => d.field === 'score' && d.extracted === null).length,
+  };
+}
+
+/**
+ * Evaluation of a card the strategy failed on: every ground-truth field is wrong
+ *
+ * @param truth - Hand-verified scorecard for the image that failed
+ */
+export function evaluateFailedCard(truth: ExtractedScorecard): ScorecardEvaluation {
+  return { fields: groundTruthFields(truth), confusionPairs: {}, missingScores: 0 };
+}
+
+/**
+ * Fields a ground truth has, as totals with nothing correct yet
+ */
+function groundTruthFields(truth: ExtractedScorecard): Record<EvaluatedField, FieldAccuracy> {
+  const fields = emptyFields();
+
+  fields.par.total = truth.holes.length;
+  fields.yardage.total = truth.holes.filter((h) => h.yardage !== undefined && h.yardage !== null).length;
+  fields.handicap.total = truth.holes.filter((h) => h.handicap !== undefined && h.handicap !== null).length;
+  fields.playerName.total = truth.players.length;
+  fields.score.total = truth.players.reduce(
+    (sum, player) =>
+      sum + player.scores.filter((s) => typeof s.holeNumber === 'number' && s.score !== null).length,
+    0
+  );
+
+  return fields;
+}
+
+function addFields(sum: Record<EvaluatedField, FieldAccuracy>, evaluation: ScorecardEvaluation): void {
+  EVALUATED_FIELDS.forEach((field) => {
+    sum[field].correct += evaluation.fields[field].correct;
+    sum[field].total += evaluation.fields[field].total;
+  });
+}
+
+/**
+ * Combines per-card evaluations into strategy-level numbers
+ *
+ * @param strategy - Name of the OCR strategy
+ * @param evaluations - One evaluation per successfully processed card
+ * @param failed - One evaluateFailedCard() per card where the strategy threw
+ */
+export function aggregateEvaluations(
+  strategy: string,
+  evaluations: ScorecardEvaluation[],
+  failed: ScorecardEvaluation[] = []
+): StrategyEvaluation {
+  const fields = emptyFields();
+  const fieldsWithFailures = emptyFields();
+  const confusionPairs: Record<string, number> = {};
+  let missingScores = 0;
+
+  failed.forEach((evaluation) => addFields(fieldsWithFailures, evaluation));
+
+  evaluations.forEach((evaluation) => {
+    addFields(fields, evaluation);
+    addFields(fieldsWithFailures, evaluation);
+
+    Object.entries(evaluation.confusionPairs).forEach(([pair, count]) => {
+      confusionPairs[pair] = (confusionPairs[pair] || 0) + count;
+    });
+
+    missingScores += evaluation.missingScores;
+  });
+
+  return {
+    strategy,
+    cards: evaluations.length + failed.length,
+    failures: failed.length,
+    fields,
+    fieldsWithFailures,
+    confusionPairs,
+    missingScores,
+  };
+}
+
+/**
+ * Accuracy as a 0-1 ratio (null when nothing was compared)
+ */
+export function accuracyRatio(accuracy: FieldAccuracy): number | null {
+  return accuracy.total === 0 ? null : accuracy.correct / accuracy.total;
+}
+
+const formatAccuracy = (accuracy: FieldAccuracy) => {
+  const ratio = accuracyRatio(accuracy);
+  const percent = ratio === null ? 'n/a' : `${(ratio * 100).toFixed(1)}%`;
+  return `${percent.padStart(6)}  (${accuracy.correct}/${accuracy.total})`;
+};
+
+/**
+ * Formats strategy evaluations as a plain-text report (accuracy including
+ * failed cards is added when a card failed)
+ */
+export function formatEvaluationReport(results: StrategyEvaluation[], topConfusions: number = 10): string {
+  const lines: string[] = [];
+
+  results.forEach((result) => {
+    lines.push(`=== ${result.strategy} (${result.cards} cards, ${result.failures} failed) ===`);
+
+    EVALUATED_FIELDS.forEach((field) => {
+      const withFailures = result.failures > 0 ? `  incl. failed ${formatAccuracy(result.fieldsWithFailures[field])}` : '';
+      lines.push(`  ${field.padEnd(10)} ${formatAccuracy(result.fields[field])}${withFailures}`);
+    });
+
+    lines.push(`  missing scores: ${result.missingScores}`);
+
+    const confusions = Object.entries(result.confusionPairs)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topConfusions);
+
+    if (confusions.length > 0) {
+      lines.push('  top confusions (expected→read):');
+      confusions.forEach(([pair, count]) => lines.push(`    ${pair}  x${count}`));
+    }
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
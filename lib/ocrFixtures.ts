@@ -0,0 +1,140 @@
+/**
+ * Recorded OCR responses for offline development and tests
+ *
+ * Fixtures are keyed by the SHA-256 of the image bytes:
+ *
+ *   <fixture dir>/<image hash>/textract.json        Textract Block[] response
+ *   <fixture dir>/<image hash>/vision-<hash>.json   one file per distinct Vision prompt
+ *
+ * MODES (OCR_FIXTURE_MODE):
+ * - off (default): every call goes to the live services
+ * - replay: only recorded responses are used; a missing fixture is an error
+ * - record: live calls are made and their responses written to fixture files
+ *
+ * Each response is its own file so that parallel calls (adaptive OCR runs its
+ * strategies concurrently) never write to the same file.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Block } from '@aws-sdk/client-textract';
+import type { OcrTransport, VisionRequest } from './ocrTransport';
+
+export type FixtureMode = 'off' | 'replay' | 'record';
+
+interface VisionFixture {
+  model: string;
+  detail?: string;
+  prompt: string;
+  content: string | null;
+}
+
+/**
+ * Reads the fixture mode from OCR_FIXTURE_MODE
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.OCR_FIXTURE_MODE || 'off').toLowerCase();
+  if (mode === 'replay' || mode === 'record') {
+    return mode;
+  }
+  return 'off';
+}
+
+/**
+ * Directory holding recorded responses (OCR_FIXTURE_DIR, default __tests__/fixtures/ocr)
+ */
+export function getFixtureDir(): string {
+  return process.env.OCR_FIXTURE_DIR || path.join(process.cwd(), '__tests__', 'fixtures', 'ocr');
+}
+
+/**
+ * Hashes image bytes to the key used for fixture lookup
+ */
+export function hashImage(imageBuffer: Buffer): string {
+  return createHash('sha256').update(imageBuffer).digest('hex');
+}
+
+/**
+ * Checks whether a Textract response has been recorded for an image
+ */
+export function hasRecordedFixtures(imageBuffer: Buffer, fixtureDir: string = getFixtureDir()): boolean {
+  return fs.existsSync(path.join(fixtureDir, hashImage(imageBuffer), 'textract.json'));
+}
+
+/**
+ * Creates a transport that replays (or records) responses from fixture files
+ *
+ * @param mode - "replay" to serve only recorded responses, "record" to capture live ones
+ * @param live - Transport used for live calls in record mode
+ * @param fixtureDir - Where fixture files live
+ */
+export function createFixtureTransport(
+  mode: Exclude<FixtureMode, 'off'>,
+  live: OcrTransport,
+  fixtureDir: string = getFixtureDir()
+): OcrTransport {
+  return {
+    async analyzeDocument(imageBuffer) {
+      const filePath = path.join(fixtureDir, hashImage(imageBuffer), 'textract.json');
+
+      if (mode === 'replay') {
+        console.log('[OCR Fixtures] Replaying Textract response:', filePath);
+        return readFixture<Block[]>(filePath, 'Textract');
+      }
+
+      const blocks = await live.analyzeDocument(imageBuffer);
+      writeFixture(filePath, blocks);
+      console.log('[OCR Fixtures] Recorded Textract response:', filePath);
+      return blocks;
+    },
+
+    async completeVision(imageBuffer, request) {
+      const filePath = path.join(
+        fixtureDir,
+        hashImage(imageBuffer),
+        `vision-${hashVisionRequest(request)}.json`
+      );
+
+      if (mode === 'replay') {
+        console.log('[OCR Fixtures] Replaying Vision response:', filePath);
+        return readFixture<VisionFixture>(filePath, 'Vision').content;
+      }
+
+      const content = await live.completeVision(imageBuffer, request);
+      const fixture: VisionFixture = {
+        model: request.model,
+        detail: request.detail,
+        prompt: request.prompt,
+        content,
+      };
+      writeFixture(filePath, fixture);
+      console.log('[OCR Fixtures] Recorded Vision response:', filePath);
+      return content;
+    },
+  };
+}
+
+/**
+ * Hashes the parts of a Vision request that affect the reply
+ */
+function hashVisionRequest(request: VisionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.model, request.detail || 'auto', request.prompt]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+function readFixture<T>(filePath: string, kind: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(
+      `No recorded ${kind} response at ${filePath}. Run once with OCR_FIXTURE_MODE=record and live credentials to capture it.`
+    );
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function writeFixture(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
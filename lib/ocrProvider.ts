@@ -0,0 +1,81 @@
+/**
+ * OCR provider contract
+ *
+ * Every extraction strategy (Textract, OpenAI Vision, Gemini, hybrid, adaptive)
+ * implements the same interface: an image buffer plus optional hints in, an
+ * ExtractedScorecard plus per-cell provenance out. The registry in
+ * lib/ocrRegistry.ts maps provider names to implementations.
+ */
+
+import type { CellProvenance, ExtractedScorecard, ExtractionStage } from './types';
+
+/**
+ * Optional hints a caller can pass when it already knows something about the card
+ */
+export interface OcrHints {
+  holeCount?: 9 | 18;
+  notationStyle?: 'gross' | 'relative';
+}
+
+/**
+ * Progress notification emitted when a stage starts or completes
+ */
+export interface OcrProgressEvent {
+  stage: ExtractionStage;
+  message: string;
+  completed?: boolean; // false/absent when the stage starts
+  holeCount?: number; // Structure detected (textract/vision)
+  playerCount?: number;
+  filledCells?: number; // Scores Vision added where Textract read nothing
+  warnings?: string[]; // Template validation warnings (cleanup)
+}
+
+export type OcrProgressListener = (event: OcrProgressEvent) => void;
+
+/**
+ * Result returned by every OCR provider
+ */
+export interface OcrResult {
+  scorecard: ExtractedScorecard;
+  provenance: CellProvenance[];
+}
+
+/**
+ * A pluggable OCR strategy
+ */
+export interface OcrProvider {
+  name: string;
+  description: string;
+  analyze(imageBuffer: Buffer, hints?: OcrHints, onProgress?: OcrProgressListener): Promise<OcrResult>;
+}
+
+/**
+ * Builds per-cell provenance from the scores in a scorecard
+ *
+ * Scores that were not tagged with a source by the provider are attributed
+ * to the provider's default source.
+ */
+export function collectProvenance(
+  scorecard: ExtractedScorecard,
+  defaultSource: CellProvenance['source']
+): CellProvenance[] {
+  const provenance: CellProvenance[] = [];
+
+  scorecard.players.forEach((player) => {
+    player.scores.forEach((scoreEntry) => {
+      if (typeof scoreEntry.holeNumber !== 'number' || scoreEntry.score === null) {
+        return;
+      }
+
+      provenance.push({
+        playerName: player.name,
+        holeNumber: scoreEntry.holeNumber,
+        source: scoreEntry.source || defaultSource,
+        confidence: scoreEntry.confidence,
+        confidenceScore: scoreEntry.confidenceScore,
+      });
+    });
+  });
+
+  return provenance;
+}
@@ -0,0 +1,78 @@
+/**
+ * OCR provider registry
+ *
+ * Maps provider names to OcrProvider implementations so the API route can pick
+ * an extraction strategy by configuration (OCR_PROVIDER environment variable)
+ * or per request (`provider` query/form parameter) without code edits.
+ */
+
+import { collectProvenance, type OcrProvider } from './ocrProvider';
+import { textractProvider } from './textractOcr';
+import { openaiVisionProvider } from './openaiVision';
+import { geminiProvider } from './geminiVision';
+import { analyzeWithHybridOcr, hybridProvider } from './hybridOcr';
+import { adaptiveProvider } from './adaptiveOcr';
+import { liveTransport } from './ocrTransport';
+import { createFixtureTransport, getFixtureMode } from './ocrFixtures';
+
+export const DEFAULT_OCR_PROVIDER = 'hybrid';
+
+const providers = new Map<string, OcrProvider>();
+
+/**
+ * Registers (or replaces) an OCR provider under its name
+ */
+export function registerOcrProvider(provider: OcrProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Lists all registered providers
+ */
+export function listOcrProviders(): OcrProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Resolves the provider to use for a request
+ *
+ * Precedence: explicit request parameter, then OCR_PROVIDER, then the default.
+ *
+ * @param requested - Provider name from the request, if any
+ * @throws Error if the resolved name is not registered
+ */
+export function resolveOcrProvider(requested?: string | null): OcrProvider {
+  const name = (requested || process.env.OCR_PROVIDER || DEFAULT_OCR_PROVIDER).trim().toLowerCase();
+  const provider = providers.get(name);
+
+  if (!provider) {
+    const available = Array.from(providers.keys()).join(', ');
+    throw new Error(`Unknown OCR provider "${name}". Available providers: ${available}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Offline provider: hybrid OCR replayed from recorded fixtures, never touches the network
+ *
+ * Only registered when OCR_FIXTURE_MODE=replay, so it can't be selected where
+ * no fixtures are expected (tests register it themselves).
+ */
+export const offlineProvider: OcrProvider = {
+  name: 'offline',
+  description: 'Hybrid OCR replayed from recorded Textract/Vision fixtures (local development)',
+  async analyze(imageBuffer, hints, onProgress) {
+    const transport = createFixtureTransport('replay', liveTransport);
+    const scorecard = await analyzeWithHybridOcr(imageBuffer, hints, transport, onProgress);
+    return { scorecard, provenance: collectProvenance(scorecard, 'textract') };
+  },
+};
+
+// Built-in providers
+[textractProvider, openaiVisionProvider, geminiProvider, hybridProvider, adaptiveProvider]
+  .forEach(registerOcrProvider);
+
+if (getFixtureMode() === 'replay') {
+  registerOcrProvider(offlineProvider);
+}
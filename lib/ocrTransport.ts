@@ -0,0 +1,90 @@
+/**
+ * OCR transport layer
+ *
+ * The only place that talks to AWS Textract and OpenAI Vision over the network.
+ * OCR modules build prompts and parse replies; the transport just returns the
+ * raw Textract blocks or the raw model reply. Swapping the transport (see
+ * lib/ocrFixtures.ts) lets the whole pipeline run offline from recorded responses.
+ */
+
+import { TextractClient, AnalyzeDocumentCommand, Block } from '@aws-sdk/client-textract';
+import { createOpenAIClient, toImageDataUrl } from './ocrUtils';
+import { createFixtureTransport, getFixtureMode } from './ocrFixtures';
+
+/**
+ * A single Vision prompt sent together with the scorecard image
+ */
+export interface VisionRequest {
+  model: string;
+  prompt: string;
+  detail?: 'low' | 'high' | 'auto';
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * Raw access to the OCR services
+ */
+export interface OcrTransport {
+  analyzeDocument(imageBuffer: Buffer): Promise<Block[]>;
+  completeVision(imageBuffer: Buffer, request: VisionRequest): Promise<string | null>;
+}
+
+/**
+ * Transport that calls the real AWS Textract and OpenAI APIs
+ */
+export const liveTransport: OcrTransport = {
+  async analyzeDocument(imageBuffer) {
+    const client = new TextractClient({
+      region: process.env.AWS_REGION || 'us-east-1',
+    });
+
+    const command = new AnalyzeDocumentCommand({
+      Document: {
+        Bytes: imageBuffer,
+      },
+      FeatureTypes: ['TABLES', 'FORMS'],
+    });
+
+    const response = await client.send(command);
+    return response.Blocks || [];
+  },
+
+  async completeVision(imageBuffer, request) {
+    const openai = await createOpenAIClient();
+
+    const response = await openai.chat.completions.create({
+      model: request.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: request.prompt,
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: toImageDataUrl(imageBuffer),
+                ...(request.detail ? { detail: request.detail } : {}),
+              },
+            },
+          ],
+        },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+
+    return response.choices[0]?.message?.content ?? null;
+  },
+};
+
+/**
+ * Returns the transport selected by OCR_FIXTURE_MODE (live when unset or "off")
+ */
+export function getOcrTransport(): OcrTransport {
+  const mode = getFixtureMode();
+  return mode === 'off' ? liveTransport : createFixtureTransport(mode, liveTransport);
+}
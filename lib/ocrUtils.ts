@@ -0,0 +1,95 @@
+/**
+ * Shared helpers for the OCR modules
+ *
+ * Client construction, MIME sniffing, model JSON parsing and player name
+ * normalization used to be copy-pasted into every OCR module. They live here
+ * so that each provider only contains its own prompts and merge logic.
+ */
+
+import OpenAI from 'openai';
+import { getOpenAIApiKey } from './secrets';
+
+/**
+ * Creates an OpenAI client using the key from Secrets Manager (or local env)
+ */
+export async function createOpenAIClient(): Promise<OpenAI> {
+  const apiKey = await getOpenAIApiKey();
+  return new OpenAI({ apiKey });
+}
+
+// ISO base media brands of HEIC (HEVC-coded) and other HEIF images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1'];
+
+/**
+ * Detects the image type from buffer magic numbers
+ *
+ * @returns The MIME type, or null if the bytes are not a recognized image
+ */
+export function detectImageType(buffer: Buffer): string | null {
+  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
+    return 'image/jpeg';
+  }
+  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
+    return 'image/png';
+  }
+  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
+    return 'image/gif';
+  }
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (buffer.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = buffer.toString('latin1', 8, 12);
+    if (HEIC_BRANDS.includes(brand)) {
+      return 'image/heic';
+    }
+    if (HEIF_BRANDS.includes(brand)) {
+      return 'image/heif';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Detects MIME type from buffer magic numbers
+ */
+export function detectMimeType(buffer: Buffer): string {
+  // Default to jpeg
+  return detectImageType(buffer) ?? 'image/jpeg';
+}
+
+/**
+ * Builds a data URL for sending an image to a vision model
+ */
+export function toImageDataUrl(imageBuffer: Buffer): string {
+  return `data:${detectMimeType(imageBuffer)};base64,${imageBuffer.toString('base64')}`;
+}
+
+/**
+ * Removes markdown code fences that models sometimes wrap JSON replies in
+ */
+export function stripJsonFences(content: string): string {
+  let jsonString = content.trim();
+  if (jsonString.startsWith('```')) {
+    jsonString = jsonString.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  }
+  return jsonString;
+}
+
+/**
+ * Parses a model reply as JSON, tolerating markdown code fences
+ *
+ * @throws SyntaxError if the reply is not valid JSON
+ */
+export function parseModelJson<T = any>(content: string): T {
+  return JSON.parse(stripJsonFences(content));
+}
+
+/**
+ * Normalize player names for matching
+ */
+export function normalizePlayerName(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]/g, '');
+}
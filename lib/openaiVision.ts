@@ -10,9 +10,11 @@
  * - The API key is never exposed to the client (server-side only)
  */
 
-import OpenAI from 'openai';
-import { getOpenAIApiKey } from './secrets';
 import { parseScoreToGross } from './scoreNotation';
+import { stripJsonFences } from './ocrUtils';
+import { normalizeHoleDetails } from './holeDetails';
+import { collectProvenance, type OcrHints, type OcrProvider } from './ocrProvider';
+import { getOcrTransport, type OcrTransport } from './ocrTransport';
 
 import type { ExtractedScorecard } from './types';
 
@@ -20,33 +22,27 @@ import type { ExtractedScorecard } from './types';
  * Analyzes a golf scorecard image using OpenAI Vision API
  * 
  * @param imageBuffer - The image file as a Buffer
+ * @param hints - Optional hints (e.g. a known hole count) from the caller
+ * @param transport - Where Vision responses come from (live API or recorded fixtures)
  * @returns Structured scorecard data
  * @throws Error if analysis fails
  */
-export async function analyzeScorecardImage(imageBuffer: Buffer): Promise<ExtractedScorecard> {
+export async function analyzeScorecardImage(
+  imageBuffer: Buffer,
+  hints: OcrHints = {},
+  transport: OcrTransport = getOcrTransport()
+): Promise<ExtractedScorecard> {
   console.log('[OpenAI Vision] Starting scorecard image analysis...');
 
-  // Get API key from Secrets Manager (or local env)
-  const apiKey = await getOpenAIApiKey();
-  
-  // Initialize OpenAI client
-  const openai = new OpenAI({ apiKey });
-
-  // Convert buffer to base64
-  const base64Image = imageBuffer.toString('base64');
-  const mimeType = detectMimeType(imageBuffer);
+  const holeCountHint = hints.holeCount
+    ? `\nThis is a ${hints.holeCount}-hole scorecard. Extract EXACTLY ${hints.holeCount} holes.\n`
+    : '';
 
   try {
-    const response = await openai.chat.completions.create({
+    const content = await transport.completeVision(imageBuffer, {
       model: 'gpt-4o',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `You are an expert at analyzing golf scorecards. Extract ALL information from this scorecard image with EXTREME ACCURACY.
-
+      prompt: `You are an expert at analyzing golf scorecards. Extract ALL information from this scorecard image with EXTREME ACCURACY.
+${holeCountHint}
 CRITICAL INSTRUCTIONS:
 1. Read numbers VERY carefully - double-check each score
 2. Match player names to their correct row
@@ -79,6 +75,14 @@ Extract the following data:
   * Player name (exactly as written)
   * Score for EACH hole (the actual GROSS strokes taken, or null if not played/visible)
 
+DETAIL ROWS (only if the card has them):
+Some cards have extra rows under a player for putts, fairways hit or penalty strokes.
+When present, add them to that player's hole entries:
+- "putts": number of putts
+- "fairway": "hit", "left", "right" or "na" (par 3s or no mark)
+- "penalties": penalty strokes
+Do NOT treat these rows as separate players. Omit the fields when the card has no such rows.
+
 VALIDATION:
 - Hole numbers should be sequential (1, 2, 3, ...)
 - Par values are typically between 3-5
@@ -96,25 +100,14 @@ Return ONLY valid JSON (no markdown, no code blocks, no explanations):
   "players": [
     {
       "name": "Player Name",
-      "scores": [{"holeNumber": 1, "score": 4}]
+      "scores": [{"holeNumber": 1, "score": 4, "putts": 2, "fairway": "hit", "penalties": 0}]
     }
   ]
 }`,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:${mimeType};base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 4096,
+      maxTokens: 4096,
       temperature: 0.1, // Low temperature for more consistent extraction
     });
 
-    const content = response.choices[0]?.message?.content;
     
     if (!content) {
       throw new Error('No response content from OpenAI Vision');
@@ -124,12 +117,7 @@ Return ONLY valid JSON (no markdown, no code blocks, no explanations):
 
     // Parse the JSON response
     // Remove markdown code blocks if present
-    let jsonString = content.trim();
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonString.startsWith('```')) {
-      jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
+    const jsonString = stripJsonFences(content);
 
     let extracted: ExtractedScorecard;
     
@@ -185,6 +173,7 @@ Return ONLY valid JSON (no markdown, no code blocks, no explanations):
           return {
             holeNumber,
             score: normalizedScore,
+            ...normalizeHoleDetails(s),
           };
         }) : [],
       };
@@ -209,23 +198,14 @@ Return ONLY valid JSON (no markdown, no code blocks, no explanations):
 }
 
 /**
- * Detects MIME type from buffer magic numbers
+ * OpenAI Vision-only OCR provider
  */
-function detectMimeType(buffer: Buffer): string {
-  // Check for common image formats
-  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
-    return 'image/jpeg';
-  }
-  if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
-    return 'image/png';
-  }
-  if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
-    return 'image/gif';
-  }
-  if (buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46) {
-    return 'image/webp';
-  }
-  
-  // Default to jpeg
-  return 'image/jpeg';
-}
+export const openaiVisionProvider: OcrProvider = {
+  name: 'openai',
+  description: 'OpenAI GPT-4o Vision full-card extraction',
+  async analyze(imageBuffer, hints, onProgress) {
+    onProgress?.({ stage: 'vision', message: 'Reading the scorecard with OpenAI Vision' });
+    const scorecard = await analyzeScorecardImage(imageBuffer, hints);
+    return { scorecard, provenance: collectProvenance(scorecard, 'vision') };
+  },
+};
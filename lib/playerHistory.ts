@@ -0,0 +1,208 @@
+/**
+ * A registered player's history across saved rounds
+ *
+ * Built from the derived scoring stored with each round (PlayerDerived and
+ * the per-hole results from calculateDerivedScoring), for every round in
+ * which a card player is linked to the registered player:
+ * - Scoring trend: least-squares slope and last 5 vs. previous 5 rounds
+ * - Average to par, birdie and double-bogey rates
+ * - Best score per course
+ * - Per-hole averages on courses played more than once
+ *
+ * Scores to par are scaled to 18 holes so 9- and 18-hole rounds compare;
+ * rounds of fewer than 9 holes are listed but left out of the trend.
+ */
+
+import { normalizePlayerName } from './ocrUtils';
+import type {
+  CourseBest,
+  CourseHoleAverages,
+  PlayerHistory,
+  PlayerProfile,
+  PlayerRoundSummary,
+  PlayerTrend,
+  SavedRound,
+} from './types';
+
+// Rounds compared on each side of the recent-vs-previous trend
+const TREND_WINDOW = 5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const average = (values: number[]) =>
+  values.length > 0 ? round2(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+/**
+ * Date a round was played: the date on the card if it parses, else when it was saved
+ */
+export function roundPlayedAt(round: SavedRound): string {
+  const cardDate = round.scorecard.date?.trim();
+
+  if (cardDate && /^\d{4}-\d{2}-\d{2}/.test(cardDate)) {
+    return cardDate.slice(0, 10);
+  }
+  const parsed = cardDate ? new Date(cardDate) : null;
+  if (parsed && !isNaN(parsed.getTime())) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+  }
+  return round.createdAt.slice(0, 10);
+}
+
+/**
+ * Key that groups rounds on the same course
+ */
+function courseKey(round: SavedRound): string {
+  return round.scorecard.courseId || `name:${normalizePlayerName(round.scorecard.courseName || '')}`;
+}
+
+/**
+ * The player's line of a saved round
+ *
+ * @returns null if the player isn't on the card or has no scores
+ */
+function summarizeRound(round: SavedRound, playerId: string): PlayerRoundSummary | null {
+  const cardPlayer = round.scorecard.players.find((p) => p.playerId === playerId);
+  const derived = cardPlayer && round.derived.players.find((p) => p.name === cardPlayer.name);
+  if (!cardPlayer || !derived) {
+    return null;
+  }
+
+  const holesPlayed = round.derived.holes.filter((hole) =>
+    hole.playerResults.some((r) => r.playerName === cardPlayer.name && r.score !== null)
+  ).length;
+  if (holesPlayed === 0) {
+    return null;
+  }
+
+  return {
+    roundId: round.id,
+    playedAt: roundPlayedAt(round),
+    courseKey: courseKey(round),
+    courseName: round.scorecard.courseName,
+    teeName: round.scorecard.teeName,
+    holesPlayed,
+    totalScore: derived.totalScore,
+    totalPar: derived.totalPar,
+    scoreToPar: derived.scoreToPar,
+    toParPer18: round2((derived.scoreToPar / holesPlayed) * 18),
+    birdiesOrBetter: derived.birdies + derived.eagles + derived.albatrosses + derived.condors,
+    doubleBogeysOrWorse: derived.doubleBogeys + derived.tripleBogeyPlus,
+  };
+}
+
+/**
+ * Trend of the scaled score to par, oldest round first
+ */
+export function calculateTrend(toPar: number[]): PlayerTrend {
+  let slopePerRound: number | null = null;
+
+  if (toPar.length >= 3) {
+    const n = toPar.length;
+    const meanX = (n - 1) / 2;
+    const meanY = toPar.reduce((sum, y) => sum + y, 0) / n;
+    const covariance = toPar.reduce((sum, y, x) => sum + (x - meanX) * (y - meanY), 0);
+    const variance = toPar.reduce((sum, _y, x) => sum + (x - meanX) ** 2, 0);
+    slopePerRound = round2(covariance / variance);
+  }
+
+  const recentAverageToPar = average(toPar.slice(-TREND_WINDOW));
+  const previousAverageToPar = average(toPar.slice(-2 * TREND_WINDOW, -TREND_WINDOW));
+
+  return {
+    slopePerRound,
+    recentAverageToPar,
+    previousAverageToPar,
+    change:
+      recentAverageToPar !== null && previousAverageToPar !== null
+        ? round2(recentAverageToPar - previousAverageToPar)
+        : null,
+  };
+}
+
+/**
+ * Builds a registered player's history from the saved rounds
+ */
+export function buildPlayerHistory(player: PlayerProfile, savedRounds: SavedRound[]): PlayerHistory {
+  const entries = savedRounds
+    .map((round) => ({ round, summary: summarizeRound(round, player.id) }))
+    .filter((e): e is { round: SavedRound; summary: PlayerRoundSummary } => e.summary !== null)
+    .sort((a, b) => a.summary.playedAt.localeCompare(b.summary.playedAt) || a.round.createdAt.localeCompare(b.round.createdAt));
+  const rounds = entries.map((e) => e.summary);
+
+  const holesPlayed = rounds.reduce((sum, r) => sum + r.holesPlayed, 0);
+  const rate = (count: number) => (holesPlayed > 0 ? Math.round((count / holesPlayed) * 1000) / 1000 : null);
+  const trendRounds = rounds.filter((r) => r.holesPlayed >= 9);
+
+  // Group by course
+  const byCourse = new Map<string, typeof entries>();
+  entries.forEach((entry) => {
+    byCourse.set(entry.summary.courseKey, [...(byCourse.get(entry.summary.courseKey) || []), entry]);
+  });
+  const courses = Array.from(byCourse.values()).sort(
+    (a, b) => b.length - a.length || a[0].summary.courseName.localeCompare(b[0].summary.courseName)
+  );
+
+  const courseBests: CourseBest[] = courses.map((courseEntries) => {
+    const mostHoles = Math.max(...courseEntries.map((e) => e.summary.holesPlayed));
+    const full = courseEntries.map((e) => e.summary).filter((r) => r.holesPlayed === mostHoles);
+    const best = full.reduce((lowest, r) => (r.totalScore < lowest.totalScore ? r : lowest));
+
+    return {
+      courseKey: best.courseKey,
+      courseName: courseEntries[courseEntries.length - 1].summary.courseName,
+      rounds: courseEntries.length,
+      bestRoundId: best.roundId,
+      bestScore: best.totalScore,
+      bestToPar: best.scoreToPar,
+      bestPlayedAt: best.playedAt,
+      averageScore: average(full.map((r) => r.totalScore))!,
+    };
+  });
+
+  const holeAverages: CourseHoleAverages[] = courses
+    .filter((courseEntries) => courseEntries.length >= 2)
+    .map((courseEntries) => {
+      const holes = new Map<number, { par: number; scores: number[] }>();
+
+      courseEntries.forEach(({ round }) => {
+        const name = round.scorecard.players.find((p) => p.playerId === player.id)!.name;
+        round.derived.holes.forEach((hole) => {
+          const score = hole.playerResults.find((r) => r.playerName === name)?.score;
+          if (score === null || score === undefined) return;
+
+          const entry = holes.get(hole.holeNumber) || { par: hole.par, scores: [] };
+          entry.par = hole.par; // Latest round wins if the par changed
+          entry.scores.push(score);
+          holes.set(hole.holeNumber, entry);
+        });
+      });
+
+      return {
+        courseKey: courseEntries[0].summary.courseKey,
+        courseName: courseEntries[courseEntries.length - 1].summary.courseName,
+        rounds: courseEntries.length,
+        holes: Array.from(holes.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([holeNumber, { par, scores }]) => ({
+            holeNumber,
+            par,
+            played: scores.length,
+            averageScore: average(scores)!,
+            averageToPar: round2(average(scores)! - par),
+          })),
+      };
+    });
+
+  return {
+    player,
+    rounds,
+    holesPlayed,
+    averageToPar: average(trendRounds.map((r) => r.toParPer18)),
+    birdieRate: rate(rounds.reduce((sum, r) => sum + r.birdiesOrBetter, 0)),
+    doubleBogeyRate: rate(rounds.reduce((sum, r) => sum + r.doubleBogeysOrWorse, 0)),
+    trend: calculateTrend(trendRounds.map((r) => r.toParPer18)),
+    courseBests,
+    holeAverages,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Linking names on a scorecard to registered players
+ *
+ * The same golfer shows up on cards as "Jay Patel", "JAY", "Jay P." or "JP",
+ * and OCR adds its own misreads ("Jav"). Each card name is compared with every
+ * registered player's name and aliases:
+ * - Same name ignoring case/punctuation: 1
+ * - Abbreviated words ("Jay P." vs "Jay Patel"): 0.9
+ * - Initials ("JP" vs "Jay Patel"): 0.85
+ * - First name only ("Jay" vs "Jay Patel"): 0.8
+ * - Otherwise the edit-distance similarity of the letters
+ *
+ * A name is linked automatically only when one player clearly matches best;
+ * otherwise the closest players are returned for the user to confirm.
+ */
+
+import { normalizePlayerName } from './ocrUtils';
+import type { ExtractedScorecard, PlayerLink, PlayerLinkCandidate, PlayerProfile } from './types';
+
+// At or above this a single best match is linked without asking
+export const LINK_THRESHOLD = 0.9;
+
+// Below this a player isn't offered as a candidate
+export const CANDIDATE_THRESHOLD = 0.6;
+
+const MAX_CANDIDATES = 5;
+
+function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * One-directional checks: is `short` a shortened form of `full`?
+ */
+function shortenedScore(short: string[], full: string[]): number {
+  if (full.length < 2) return 0;
+
+  const abbreviated = short.length === full.length &&
+    short.every((token, i) => token === full[i] || (token.length === 1 && full[i].startsWith(token)));
+  if (abbreviated) return 0.9;
+
+  if (short.length === 1 && short[0] === full.map((token) => token[0]).join('')) return 0.85;
+  if (short.length === 1 && short[0] === full[0]) return 0.8;
+  return 0;
+}
+
+/**
+ * How likely two names refer to the same player (0-1)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const normalizedA = normalizePlayerName(a);
+  const normalizedB = normalizePlayerName(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const shortened = Math.max(shortenedScore(tokensA, tokensB), shortenedScore(tokensB, tokensA));
+  if (shortened > 0) return shortened;
+
+  const distance = levenshtein(normalizedA, normalizedB);
+  return Math.round((1 - distance / Math.max(normalizedA.length, normalizedB.length)) * 100) / 100;
+}
+
+/**
+ * Best match of a card name against one player's name and aliases
+ */
+function matchProfile(cardName: string, profile: PlayerProfile): PlayerLinkCandidate {
+  return [profile.name, ...profile.aliases].reduce<PlayerLinkCandidate>(
+    (best, label) => {
+      const score = nameSimilarity(cardName, label);
+      return score > best.score ? { ...best, score, matchedOn: label } : best;
+    },
+    { playerId: profile.id, name: profile.name, score: 0, matchedOn: profile.name }
+  );
+}
+
+/**
+ * Links one name on the card to the registry
+ */
+export function matchPlayerName(cardName: string, profiles: PlayerProfile[]): PlayerLink {
+  const candidates = profiles
+    .map((profile) => matchProfile(cardName, profile))
+    .filter((candidate) => candidate.score >= CANDIDATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best, runnerUp] = candidates;
+  if (best && best.score >= LINK_THRESHOLD && (!runnerUp || runnerUp.score < best.score)) {
+    return { cardName, status: 'linked', playerId: best.playerId, candidates };
+  }
+
+  return { cardName, status: candidates.length > 0 ? 'ambiguous' : 'unknown', candidates };
+}
+
+/**
+ * Links every player on the card to the registry
+ *
+ * Players that already carry a known playerId keep it. Two card players
+ * linked to the same registered player both need confirming instead.
+ */
+export function linkScorecardPlayers(scorecard: ExtractedScorecard, profiles: PlayerProfile[]): PlayerLink[] {
+  const links = scorecard.players.map((player): PlayerLink => {
+    const profile = player.playerId ? profiles.find((p) => p.id === player.playerId) : undefined;
+    if (profile) {
+      return {
+        cardName: player.name,
+        status: 'linked',
+        playerId: profile.id,
+        candidates: [{ playerId: profile.id, name: profile.name, score: 1, matchedOn: profile.name }],
+      };
+    }
+    return matchPlayerName(player.name, profiles);
+  });
+
+  return links.map((link) => {
+    const shared = links.filter((other) => other.status === 'linked' && other.playerId === link.playerId);
+    if (link.status === 'linked' && shared.length > 1) {
+      const { playerId, ...rest } = link;
+      return { ...rest, status: 'ambiguous' };
+    }
+    return link;
+  });
+}
+
+/**
+ * Sets (or with null, clears) the registered player of a card player
+ */
+export function applyPlayerLink(
+  scorecard: ExtractedScorecard,
+  cardName: string,
+  playerId: string | null
+): ExtractedScorecard {
+  return {
+    ...scorecard,
+    players: scorecard.players.map((player) => {
+      if (player.name !== cardName) return player;
+      if (playerId) return { ...player, playerId };
+
+      const { playerId: previous, ...unlinked } = player;
+      return unlinked;
+    }),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Storage for the player registry
+ *
+ * Registered players (/api/players) are kept in a PlayerStore: JSON files on
+ * disk by default (see lib/recordStore.ts), or any other implementation
+ * installed with setPlayerStore().
+ *
+ * ENVIRONMENT:
+ * - PLAYER_STORE_DIR: directory of the file store (default .data/players)
+ */
+
+import path from 'path';
+import { createFileRecordStore, createInMemoryRecordStore, type RecordStore } from './recordStore';
+import type { PlayerProfile } from './types';
+
+export type PlayerStore = RecordStore<PlayerProfile>;
+
+/**
+ * In-memory player store (players are lost on restart)
+ */
+export function createInMemoryPlayerStore(): PlayerStore {
+  return createInMemoryRecordStore<PlayerProfile>();
+}
+
+/**
+ * File player store: <dir>/<player id>.json
+ *
+ * @param dir - Directory to keep the player files in (default PLAYER_STORE_DIR or .data/players)
+ */
+export function createFilePlayerStore(
+  dir: string = process.env.PLAYER_STORE_DIR || path.join(process.cwd(), '.data', 'players')
+): PlayerStore {
+  return createFileRecordStore<PlayerProfile>(dir);
+}
+
+// Kept on globalThis so the installed store survives module reloads in `next dev`
+const globalForPlayers = globalThis as unknown as { scorecardPlayerStore?: PlayerStore };
+
+/**
+ * Returns the active player store (the file store unless another one was installed)
+ */
+export function getPlayerStore(): PlayerStore {
+  if (!globalForPlayers.scorecardPlayerStore) {
+    globalForPlayers.scorecardPlayerStore = createFilePlayerStore();
+  }
+  return globalForPlayers.scorecardPlayerStore;
+}
+
+/**
+ * Installs a different player store implementation
+ */
+export function setPlayerStore(store: PlayerStore): void {
+  globalForPlayers.scorecardPlayerStore = store;
+}
@@ -0,0 +1,134 @@
+/**
+ * Player registry
+ *
+ * Registered players have a stable id, the aliases their name appears under
+ * on cards and a handicap index. Names read from a card are linked to them
+ * with lib/playerMatching.ts; when the user confirms an uncertain link, the
+ * card name is added as an alias so the next card links on its own.
+ */
+
+import { randomUUID } from 'crypto';
+import { normalizePlayerName } from './ocrUtils';
+import { getPlayerStore, type PlayerStore } from './playerStore';
+import type { PlayerProfile } from './types';
+
+export interface PlayerInput {
+  name?: string;
+  aliases?: string[];
+  handicapIndex?: number | null;
+}
+
+/**
+ * Checks the fields of a create/update request body
+ *
+ * @param requireName - Whether `name` must be present (creating a player)
+ * @throws Error describing what is wrong
+ */
+export function parsePlayerInput(value: unknown, requireName: boolean): PlayerInput {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid player: expected an object');
+  }
+
+  const body = value as Record<string, unknown>;
+  const input: PlayerInput = {};
+
+  if (body.name !== undefined || requireName) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new Error('Invalid player: name must be a non-empty string');
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.aliases !== undefined) {
+    if (!Array.isArray(body.aliases) || body.aliases.some((alias) => typeof alias !== 'string')) {
+      throw new Error('Invalid player: aliases must be an array of strings');
+    }
+    input.aliases = body.aliases.map((alias: string) => alias.trim()).filter(Boolean);
+  }
+
+  if (body.handicapIndex !== undefined) {
+    const index = body.handicapIndex;
+    // WHS handicap indexes run from +10 (stored as -10) to 54
+    if (index !== null && (typeof index !== 'number' || !Number.isFinite(index) || index < -10 || index > 54)) {
+      throw new Error('Invalid player: handicapIndex must be a number between -10 and 54, or null');
+    }
+    input.handicapIndex = index as number | null;
+  }
+
+  return input;
+}
+
+/**
+ * Drops aliases that repeat the name or each other (ignoring case and punctuation)
+ */
+function uniqueAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([normalizePlayerName(name)]);
+  return aliases.filter((alias) => {
+    const key = normalizePlayerName(alias);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Registers a player
+ */
+export async function createPlayer(
+  input: PlayerInput & { name: string },
+  store: PlayerStore = getPlayerStore()
+): Promise<PlayerProfile> {
+  const now = new Date().toISOString();
+  const player: PlayerProfile = {
+    id: randomUUID(),
+    name: input.name,
+    aliases: uniqueAliases(input.name, input.aliases ?? []),
+    handicapIndex: input.handicapIndex ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(player);
+  console.log(`[Players] Registered player ${player.id} (${player.name})`);
+  return player;
+}
+
+/**
+ * Updates a player's name, aliases or handicap index
+ *
+ * @returns The updated player, or null if it does not exist
+ */
+export async function updatePlayer(
+  id: string,
+  input: PlayerInput,
+  store: PlayerStore = getPlayerStore()
+): Promise<PlayerProfile | null> {
+  const player = await store.get(id);
+  if (!player) {
+    return null;
+  }
+
+  const name = input.name ?? player.name;
+  return store.update(id, {
+    name,
+    aliases: uniqueAliases(name, input.aliases ?? player.aliases),
+    ...(input.handicapIndex !== undefined ? { handicapIndex: input.handicapIndex } : {}),
+  });
+}
+
+/**
+ * Remembers another way a player's name appears on cards
+ *
+ * @returns The updated player, or null if it does not exist
+ */
+export async function addPlayerAlias(
+  id: string,
+  alias: string,
+  store: PlayerStore = getPlayerStore()
+): Promise<PlayerProfile | null> {
+  const player = await store.get(id);
+  if (!player) {
+    return null;
+  }
+  return updatePlayer(id, { aliases: [...player.aliases, alias.trim()] }, store);
+}
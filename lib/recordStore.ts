@@ -0,0 +1,192 @@
+/**
+ * Generic persistence for saved records (rounds, players, ...)
+ *
+ * Each kind of record gets a store with the same shape: create, get, list,
+ * update and delete, keyed by the record id. Two implementations:
+ * - File store: one JSON file per record, for local use and single-instance
+ *   deployments with a writable disk
+ * - In-memory store: records live in the process, for tests
+ *
+ * A database-backed store only has to implement RecordStore.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Fields every stored record has
+ */
+export interface StoredRecord {
+  id: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+/**
+ * Pluggable record persistence
+ */
+export interface RecordStore<T extends StoredRecord> {
+  create(record: T): Promise<void>;
+  get(id: string): Promise<T | null>;
+  /** All records, most recently updated first */
+  list(): Promise<T[]>;
+  /** Merges the changes into the record; returns null if the record does not exist */
+  update(id: string, changes: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<T | null>;
+  /** Returns false if the record does not exist */
+  delete(id: string): Promise<boolean>;
+}
+
+// Record ids are used as file names, so only accept what randomUUID() produces
+const RECORD_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const byLastUpdate = (a: StoredRecord, b: StoredRecord) => b.updatedAt.localeCompare(a.updatedAt);
+
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * In-memory record store
+ *
+ * Records are copied in and out so callers can't change stored data by accident.
+ */
+export function createInMemoryRecordStore<T extends StoredRecord>(): RecordStore<T> {
+  const records = new Map<string, T>();
+
+  return {
+    async create(record) {
+      records.set(record.id, structuredClone(record));
+    },
+
+    async get(id) {
+      const record = records.get(id);
+      return record ? structuredClone(record) : null;
+    },
+
+    async list() {
+      return Array.from(records.values()).map((record) => structuredClone(record)).sort(byLastUpdate);
+    },
+
+    async update(id, changes) {
+      const record = records.get(id);
+      if (!record) {
+        return null;
+      }
+
+      const updated = { ...record, ...structuredClone(changes), updatedAt: new Date().toISOString() };
+      records.set(id, updated);
+      return structuredClone(updated);
+    },
+
+    async delete(id) {
+      return records.delete(id);
+    },
+  };
+}
+
+/**
+ * File record store: <dir>/<record id>.json
+ *
+ * Listing reads every file, which is fine for a few thousand records. Writes
+ * to the same record are queued so concurrent updates don't overwrite each
+ * other (within one process).
+ *
+ * @param dir - Directory to keep the record files in (created on first write)
+ */
+export function createFileRecordStore<T extends StoredRecord>(dir: string): RecordStore<T> {
+  const filePath = (id: string) => path.join(dir, `${id}.json`);
+
+  // Last pending write per record id
+  const queues = new Map<string, Promise<unknown>>();
+
+  const serialized = <R>(id: string, task: () => Promise<R>): Promise<R> => {
+    const previous = queues.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    queues.set(id, next);
+    next
+      .catch(() => undefined)
+      .then(() => {
+        if (queues.get(id) === next) queues.delete(id);
+      });
+    return next;
+  };
+
+  const read = async (id: string): Promise<T | null> => {
+    if (!RECORD_ID_PATTERN.test(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(filePath(id), 'utf-8')) as T;
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const write = async (record: T) => {
+    await fs.mkdir(dir, { recursive: true });
+    // Write then rename so a crash never leaves a half-written record
+    const tempPath = path.join(dir, `${record.id}.${randomUUID()}.tmp`);
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2));
+    await fs.rename(tempPath, filePath(record.id));
+  };
+
+  return {
+    async create(record) {
+      if (!RECORD_ID_PATTERN.test(record.id)) {
+        throw new Error(`Invalid record id: ${record.id}`);
+      }
+      await serialized(record.id, () => write(record));
+    },
+
+    get: read,
+
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return [];
+        }
+        throw error;
+      }
+
+      const records: (T | null)[] = await Promise.all(
+        files.filter((file) => file.endsWith('.json')).map((file) => read(file.slice(0, -'.json'.length)))
+      );
+      return records.filter((record): record is T => record !== null).sort(byLastUpdate);
+    },
+
+    update(id, changes) {
+      return serialized(id, async () => {
+        const record = await read(id);
+        if (!record) {
+          return null;
+        }
+
+        const updated = { ...record, ...changes, updatedAt: new Date().toISOString() };
+        await write(updated);
+        return updated;
+      });
+    },
+
+    async delete(id) {
+      if (!RECORD_ID_PATTERN.test(id)) {
+        return false;
+      }
+      return serialized(id, async () => {
+        try {
+          await fs.unlink(filePath(id));
+          return true;
+        } catch (error) {
+          if (isMissingFile(error)) {
+            return false;
+          }
+          throw error;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Cross-check of handwritten OUT/IN/TOTAL against the hole scores
+ *
+ * Players usually write their nine-hole and round totals on the card. OCR reads
+ * those cells as reportedFrontNine / reportedBackNine / reportedTotal; when they
+ * disagree with the summed hole scores, one of the holes was probably misread.
+ * This module finds such mismatches and suggests which hole to correct, using:
+ * - A single empty hole in the segment (the total tells us its value)
+ * - Common handwriting confusions (4↔9, 7↔1, 5↔6, 3↔8)
+ * - OCR confidence of the candidate cells
+ * - Whether the corrected score is closer to par
+ */
+
+import type {
+  ExtractedScorecard,
+  HoleInfo,
+  PlayerInfo,
+  ScoreCorrectionSuggestion,
+  TotalsCheck,
+  TotalsMismatch,
+} from './types';
+import { calculatePlayerTotals } from './golfScoring';
+
+type Segment = TotalsMismatch['segment'];
+
+const SEGMENT_LABELS: Record<Segment, string> = {
+  front: 'OUT',
+  back: 'IN',
+  total: 'TOTAL',
+};
+
+// Digit pairs that are often confused in handwriting (same list as the Vision prompt)
+const CONFUSION_PAIRS: [number, number][] = [[4, 9], [7, 1], [5, 6], [3, 8]];
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Parses an OUT/IN/TOTAL value as read by OCR into gross strokes
+ *
+ * Relative-notation cards often carry relative totals too ("+5", "E", or a
+ * small plain number), which are converted using the par of the segment.
+ *
+ * @param raw - Value from the OCR response
+ * @param segmentPar - Sum of the pars of the holes the total covers
+ * @param notation - Scorecard-wide notation style
+ * @returns Gross strokes, or null if the value is missing or unreadable
+ */
+export function parseReportedTotal(
+  raw: unknown,
+  segmentPar: number,
+  notation: 'gross' | 'relative' = 'gross'
+): number | null {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+
+  const value = String(raw).trim();
+  if (value === '') {
+    return null;
+  }
+
+  if (/^e$/i.test(value)) {
+    return segmentPar;
+  }
+
+  const num = parseInt(value, 10);
+  if (isNaN(num)) {
+    return null;
+  }
+
+  // Explicit sign, or a plain number too small to be a gross total on a relative card
+  if (/^[+-]\d+$/.test(value) || (notation === 'relative' && num < 20)) {
+    return segmentPar + num;
+  }
+
+  return num > 0 ? num : null;
+}
+
+/**
+ * Reads OUT/IN/TOTAL entries from a player's OCR score list
+ *
+ * Vision (and some providers) return the summary columns as scores with a
+ * string holeNumber; they are converted to the reported* fields of PlayerInfo.
+ *
+ * @param entries - Raw score entries, including the summary columns
+ * @param holes - Holes of the scorecard (for the segment pars)
+ * @param notation - Scorecard-wide notation style
+ */
+export function extractReportedTotals(
+  entries: { holeNumber: number | string; score: unknown }[],
+  holes: HoleInfo[],
+  notation: 'gross' | 'relative' = 'gross'
+): Pick<PlayerInfo, 'reportedFrontNine' | 'reportedBackNine' | 'reportedTotal'> {
+  const parOf = (segment: Segment) =>
+    holesInSegment(holes, segment).reduce((sum, h) => sum + h.par, 0);
+  const fields: Record<string, { field: 'reportedFrontNine' | 'reportedBackNine' | 'reportedTotal'; segment: Segment }> = {
+    out: { field: 'reportedFrontNine', segment: 'front' },
+    in: { field: 'reportedBackNine', segment: 'back' },
+    total: { field: 'reportedTotal', segment: 'total' },
+  };
+
+  const result: Pick<PlayerInfo, 'reportedFrontNine' | 'reportedBackNine' | 'reportedTotal'> = {};
+
+  entries.forEach((entry) => {
+    if (typeof entry.holeNumber !== 'string') {
+      return;
+    }
+
+    const target = fields[entry.holeNumber.trim().toLowerCase()];
+    if (!target || result[target.field] !== undefined) {
+      return;
+    }
+
+    const value = parseReportedTotal(entry.score, parOf(target.segment), notation);
+    if (value !== null) {
+      result[target.field] = value;
+    }
+  });
+
+  return result;
+}
+
+function holesInSegment(holes: HoleInfo[], segment: Segment): HoleInfo[] {
+  if (segment === 'front') return holes.filter((h) => h.holeNumber <= 9);
+  if (segment === 'back') return holes.filter((h) => h.holeNumber >= 10);
+  return holes;
+}
+
+function isConfusionPair(a: number, b: number): boolean {
+  return CONFUSION_PAIRS.some(([x, y]) => (a === x && b === y) || (a === y && b === x));
+}
+
+/**
+ * Suggests which hole(s) explain a difference between a reported and a summed total
+ */
+function locateMisread(
+  player: PlayerInfo,
+  holes: HoleInfo[],
+  mismatch: TotalsMismatch
+): ScoreCorrectionSuggestion[] {
+  const label = SEGMENT_LABELS[mismatch.segment];
+  const summary = `${label} on the card is ${mismatch.reported} but the holes add up to ${mismatch.calculated}`;
+  const difference = mismatch.difference;
+
+  const scoreFor = (holeNumber: number) => player.scores.find((s) => s.holeNumber === holeNumber);
+
+  // A single unread hole: the total tells us what it was
+  const emptyHoles = holes.filter((h) => (scoreFor(h.holeNumber)?.score ?? null) === null);
+  if (emptyHoles.length === 1 && difference >= 1 && difference <= emptyHoles[0].par + 5) {
+    return [{
+      holeNumber: emptyHoles[0].holeNumber,
+      currentScore: null,
+      suggestedScore: difference,
+      reason: `${summary}; hole ${emptyHoles[0].holeNumber} has no score`,
+    }];
+  }
+
+  const candidates = holes
+    .map((hole): { weight: number; suggestion: ScoreCorrectionSuggestion } | null => {
+      const entry = scoreFor(hole.holeNumber);
+      if (!entry || entry.score === null) {
+        return null;
+      }
+
+      const suggested = entry.score + difference;
+      if (suggested < 1 || suggested < hole.par - 3 || suggested > hole.par + 5) {
+        return null;
+      }
+
+      let weight = 0;
+      const reasons: string[] = [];
+
+      if (isConfusionPair(entry.score, suggested)) {
+        weight += 3;
+        reasons.push(`${entry.score} and ${suggested} are often confused`);
+      }
+      if (entry.confidence === 'low') {
+        weight += 2;
+        reasons.push('low OCR confidence');
+      } else if (entry.confidence === 'medium') {
+        weight += 1;
+        reasons.push('medium OCR confidence');
+      }
+      if (Math.abs(suggested - hole.par) < Math.abs(entry.score - hole.par)) {
+        weight += 1;
+        reasons.push(`${suggested} is closer to par ${hole.par}`);
+      }
+
+      return {
+        weight,
+        suggestion: {
+          holeNumber: hole.holeNumber,
+          currentScore: entry.score,
+          suggestedScore: suggested,
+          reason: `${summary}; ${reasons.join(', ')}`,
+        },
+      };
+    })
+    .filter((c): c is { weight: number; suggestion: ScoreCorrectionSuggestion } => c !== null && c.weight > 0);
+
+  return candidates
+    .sort((a, b) => b.weight - a.weight || a.suggestion.holeNumber - b.suggestion.holeNumber)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((c) => c.suggestion);
+}
+
+/**
+ * Compares a player's reported OUT/IN/TOTAL with their hole scores
+ *
+ * @param player - Player with reported totals from OCR
+ * @param holes - Holes of the scorecard
+ * @returns The check, or null if nothing was reported or everything matches
+ */
+export function checkReportedTotals(player: PlayerInfo, holes: HoleInfo[]): TotalsCheck | null {
+  const calculated = calculatePlayerTotals(player);
+  const reported: Record<Segment, number | undefined> = {
+    front: player.reportedFrontNine,
+    back: player.reportedBackNine,
+    total: player.reportedTotal,
+  };
+  const sums: Record<Segment, number | undefined> = {
+    front: calculated.frontNine,
+    back: calculated.backNine,
+    total: calculated.total,
+  };
+
+  const mismatches: TotalsMismatch[] = [];
+  const notes: string[] = [];
+
+  (['front', 'back', 'total'] as Segment[]).forEach((segment) => {
+    const reportedValue = reported[segment];
+    const sum = sums[segment];
+
+    if (reportedValue === undefined || sum === undefined || holesInSegment(holes, segment).length === 0) {
+      return;
+    }
+
+    if (reportedValue !== sum) {
+      mismatches.push({
+        segment,
+        reported: reportedValue,
+        calculated: sum,
+        difference: reportedValue - sum,
+      });
+    }
+  });
+
+  if (reported.front !== undefined && reported.back !== undefined && reported.total !== undefined &&
+      reported.front + reported.back !== reported.total) {
+    notes.push(
+      `OUT (${reported.front}) + IN (${reported.back}) on the card does not equal TOTAL (${reported.total})`
+    );
+  }
+
+  if (mismatches.length === 0 && notes.length === 0) {
+    return null;
+  }
+
+  const suggestions: ScoreCorrectionSuggestion[] = [];
+  const nineHoleMismatches = mismatches.filter((m) => m.segment !== 'total');
+  const totalMismatch = mismatches.find((m) => m.segment === 'total');
+
+  nineHoleMismatches.forEach((mismatch) => {
+    suggestions.push(...locateMisread(player, holesInSegment(holes, mismatch.segment), mismatch));
+  });
+
+  if (totalMismatch) {
+    const explained = nineHoleMismatches.reduce((sum, m) => sum + m.difference, 0) === totalMismatch.difference;
+    const frontMatches = reported.front !== undefined && !nineHoleMismatches.some((m) => m.segment === 'front');
+    const backMatches = reported.back !== undefined && !nineHoleMismatches.some((m) => m.segment === 'back');
+
+    if (explained && nineHoleMismatches.length > 0) {
+      // Already located through OUT/IN
+    } else if (frontMatches && (backMatches || holesInSegment(holes, 'back').length === 0)) {
+      notes.push(`TOTAL on the card (${totalMismatch.reported}) was probably misread - OUT/IN match the holes`);
+    } else if (nineHoleMismatches.length === 0) {
+      // Only TOTAL available: search the holes not confirmed by a matching OUT/IN
+      const searchHoles = holes.filter((h) =>
+        !(frontMatches && h.holeNumber <= 9) && !(backMatches && h.holeNumber >= 10)
+      );
+      suggestions.push(...locateMisread(player, searchHoles, totalMismatch));
+    }
+  }
+
+  if (mismatches.length > 0 && suggestions.length === 0 && notes.length === 0) {
+    notes.push('Could not tell which hole was misread - please check this player\'s scores against the card');
+  }
+
+  return {
+    playerName: player.name,
+    mismatches,
+    suggestions,
+    notes,
+  };
+}
+
+/**
+ * Runs checkReportedTotals for every player, returning only players with findings
+ */
+export function checkScorecardTotals(scorecard: ExtractedScorecard): TotalsCheck[] {
+  return scorecard.players
+    .map((player) => checkReportedTotals(player, scorecard.holes))
+    .filter((check): check is TotalsCheck => check !== null);
+}
@@ -0,0 +1,141 @@
+/**
+ * Storage for the source images of saved rounds
+ *
+ * The scorecard photo a round was extracted from is kept apart from the round
+ * record (lib/roundStore.ts) so listing rounds doesn't read every image. Images
+ * are stored under a key (the round id) that the round's image reference
+ * carries as `storageKey`; /api/rounds/{id}/image serves them. Only images of
+ * ROUND_IMAGE_TYPES (checked against the bytes) are stored. Like the round
+ * store, the default file store is meant for local use and a different store
+ * can be installed with setRoundImageStore().
+ *
+ * ENVIRONMENT:
+ * - ROUND_IMAGE_DIR: directory of the file store (default .data/round-images)
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { detectImageType } from './ocrUtils';
+
+/**
+ * Pluggable image persistence, keyed by storage key
+ */
+export interface RoundImageStore {
+  save(key: string, bytes: Buffer): Promise<void>;
+  /** Returns null if nothing is stored under the key */
+  load(key: string): Promise<Buffer | null>;
+  /** Returns false if nothing was stored under the key */
+  delete(key: string): Promise<boolean>;
+}
+
+// Images are served back from the app's origin, so only formats that can't carry script
+export const ROUND_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+/**
+ * The type of an image as detected from its bytes, never as claimed by the client
+ *
+ * @returns The MIME type, or null if the bytes are not an image that can be stored
+ */
+export function roundImageType(bytes: Buffer): string | null {
+  const type = detectImageType(bytes);
+  return type && ROUND_IMAGE_TYPES.includes(type) ? type : null;
+}
+
+// Keys are used as file names, so only accept what randomUUID() produces
+const KEY_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * In-memory image store (images are lost on restart)
+ */
+export function createInMemoryRoundImageStore(): RoundImageStore {
+  const images = new Map<string, Buffer>();
+
+  return {
+    async save(key, bytes) {
+      images.set(key, Buffer.from(bytes));
+    },
+    async load(key) {
+      const bytes = images.get(key);
+      return bytes ? Buffer.from(bytes) : null;
+    },
+    async delete(key) {
+      return images.delete(key);
+    },
+  };
+}
+
+/**
+ * File image store: <dir>/<key>.img
+ *
+ * @param dir - Directory to keep the images in (default ROUND_IMAGE_DIR or .data/round-images)
+ */
+export function createFileRoundImageStore(
+  dir: string = process.env.ROUND_IMAGE_DIR || path.join(process.cwd(), '.data', 'round-images')
+): RoundImageStore {
+  const filePath = (key: string) => path.join(dir, `${key}.img`);
+
+  return {
+    async save(key, bytes) {
+      if (!KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid image key: ${key}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a crash never leaves a half-written image
+      const tempPath = path.join(dir, `${key}.${randomUUID()}.tmp`);
+      await fs.writeFile(tempPath, bytes);
+      await fs.rename(tempPath, filePath(key));
+    },
+
+    async load(key) {
+      if (!KEY_PATTERN.test(key)) {
+        return null;
+      }
+      try {
+        return await fs.readFile(filePath(key));
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      if (!KEY_PATTERN.test(key)) {
+        return false;
+      }
+      try {
+        await fs.unlink(filePath(key));
+        return true;
+      } catch (error) {
+        if (isMissingFile(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// Kept on globalThis so the installed store survives module reloads in `next dev`
+const globalForImages = globalThis as unknown as { scorecardRoundImageStore?: RoundImageStore };
+
+/**
+ * Returns the active image store (the file store unless another one was installed)
+ */
+export function getRoundImageStore(): RoundImageStore {
+  if (!globalForImages.scorecardRoundImageStore) {
+    globalForImages.scorecardRoundImageStore = createFileRoundImageStore();
+  }
+  return globalForImages.scorecardRoundImageStore;
+}
+
+/**
+ * Installs a different image store implementation
+ */
+export function setRoundImageStore(store: RoundImageStore): void {
+  globalForImages.scorecardRoundImageStore = store;
+}
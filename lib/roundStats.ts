@@ -0,0 +1,112 @@
+/**
+ * Extended round statistics
+ *
+ * Per-player statistics beyond the birdie/par/bogey counts:
+ * - Scoring average (and average to par) on par 3s, 4s and 5s
+ * - Scoring on the hardest third vs. the easiest third of holes by stroke index
+ * - Bounce-back rate: birdie or better on the hole after a bogey or worse
+ * - Longest streak of consecutive holes at par or better
+ * - Front/back nine split, to par
+ *
+ * Only holes with a score count; a hole without one breaks streaks and
+ * bounce-back chances.
+ */
+
+import type { HoleGroupStats, HoleInfo, PlayerInfo, RoundStats } from './types';
+
+/**
+ * Averages a player's scores over a group of holes
+ */
+function holeGroupStats(holes: HoleInfo[], scores: Map<number, number>): HoleGroupStats {
+  const played = holes.filter((hole) => scores.has(hole.holeNumber));
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100 : null;
+
+  return {
+    holeNumbers: holes.map((hole) => hole.holeNumber),
+    holesPlayed: played.length,
+    averageScore: average(played.map((hole) => scores.get(hole.holeNumber)!)),
+    averageToPar: average(played.map((hole) => scores.get(hole.holeNumber)! - hole.par)),
+  };
+}
+
+/**
+ * Calculates the extended statistics for one player's round
+ *
+ * @param player - Player and their hole scores
+ * @param holes - Holes of the round, with stroke indexes in `handicap`
+ */
+export function calculateRoundStats(player: PlayerInfo, holes: HoleInfo[]): RoundStats {
+  const sortedHoles = [...holes].sort((a, b) => a.holeNumber - b.holeNumber);
+  const scores = new Map<number, number>();
+  player.scores.forEach((s) => {
+    // Skip OUT/IN/TOTAL columns read as hole entries
+    if (typeof s.holeNumber === 'number' && s.score !== null && s.score !== undefined) {
+      scores.set(s.holeNumber, s.score);
+    }
+  });
+
+  // Scoring by par type
+  const pars = Array.from(new Set(sortedHoles.map((hole) => hole.par))).sort((a, b) => a - b);
+  const byPar = pars.map((par) => ({
+    par,
+    ...holeGroupStats(sortedHoles.filter((hole) => hole.par === par), scores),
+  }));
+
+  // Hardest vs easiest third of the holes that have a stroke index
+  const ranked = sortedHoles
+    .filter((hole) => hole.handicap !== undefined && hole.handicap !== null)
+    .sort((a, b) => a.handicap! - b.handicap!);
+  const third = Math.floor(ranked.length / 3);
+  const hardestHoles = holeGroupStats(ranked.slice(0, third), scores);
+  const easiestHoles = holeGroupStats(third > 0 ? ranked.slice(-third) : [], scores);
+
+  // Bounce-backs and streaks, in hole order
+  let bounceBacks = 0;
+  let bounceBackChances = 0;
+  let streak = 0;
+  let longestParStreak = 0;
+  let previousToPar: number | null = null;
+
+  sortedHoles.forEach((hole) => {
+    const score = scores.get(hole.holeNumber);
+    if (score === undefined) {
+      previousToPar = null;
+      streak = 0;
+      return;
+    }
+
+    const toPar = score - hole.par;
+    if (previousToPar !== null && previousToPar >= 1) {
+      bounceBackChances++;
+      if (toPar <= -1) {
+        bounceBacks++;
+      }
+    }
+
+    streak = toPar <= 0 ? streak + 1 : 0;
+    longestParStreak = Math.max(longestParStreak, streak);
+    previousToPar = toPar;
+  });
+
+  // Front/back split
+  const nineToPar = (nine: HoleInfo[]) => {
+    const played = nine.filter((hole) => scores.has(hole.holeNumber));
+    return played.length > 0 ? played.reduce((sum, hole) => sum + scores.get(hole.holeNumber)! - hole.par, 0) : null;
+  };
+  const frontNineToPar = nineToPar(sortedHoles.filter((hole) => hole.holeNumber <= 9));
+  const backNineToPar = nineToPar(sortedHoles.filter((hole) => hole.holeNumber >= 10));
+
+  return {
+    byPar,
+    hardestHoles,
+    easiestHoles,
+    bounceBacks,
+    bounceBackChances,
+    bounceBackRate: bounceBackChances > 0 ? Math.round((bounceBacks / bounceBackChances) * 1000) / 1000 : null,
+    longestParStreak,
+    frontNineToPar,
+    backNineToPar,
+    splitDifference: frontNineToPar !== null && backNineToPar !== null ? backNineToPar - frontNineToPar : null,
+  };
+}
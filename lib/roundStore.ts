@@ -0,0 +1,56 @@
+/**
+ * Storage for saved rounds
+ *
+ * The rounds API (/api/rounds) keeps each round's scorecard, derived scoring,
+ * source image reference and edit history in a RoundStore. Like the job store
+ * (lib/jobStore.ts) it is pluggable: by default rounds are JSON files on disk
+ * (see lib/recordStore.ts), which is meant for local use. A database-backed
+ * store can be installed with setRoundStore().
+ *
+ * ENVIRONMENT:
+ * - ROUND_STORE_DIR: directory of the file store (default .data/rounds)
+ */
+
+import path from 'path';
+import { createFileRecordStore, createInMemoryRecordStore, type RecordStore } from './recordStore';
+import type { SavedRound } from './types';
+
+export type RoundStore = RecordStore<SavedRound>;
+
+/**
+ * In-memory round store (rounds are lost on restart)
+ */
+export function createInMemoryRoundStore(): RoundStore {
+  return createInMemoryRecordStore<SavedRound>();
+}
+
+/**
+ * File round store: <dir>/<round id>.json
+ *
+ * @param dir - Directory to keep the round files in (default ROUND_STORE_DIR or .data/rounds)
+ */
+export function createFileRoundStore(
+  dir: string = process.env.ROUND_STORE_DIR || path.join(process.cwd(), '.data', 'rounds')
+): RoundStore {
+  return createFileRecordStore<SavedRound>(dir);
+}
+
+// Kept on globalThis so the installed store survives module reloads in `next dev`
+const globalForRounds = globalThis as unknown as { scorecardRoundStore?: RoundStore };
+
+/**
+ * Returns the active round store (the file store unless another one was installed)
+ */
+export function getRoundStore(): RoundStore {
+  if (!globalForRounds.scorecardRoundStore) {
+    globalForRounds.scorecardRoundStore = createFileRoundStore();
+  }
+  return globalForRounds.scorecardRoundStore;
+}
+
+/**
+ * Installs a different round store implementation
+ */
+export function setRoundStore(store: RoundStore): void {
+  globalForRounds.scorecardRoundStore = store;
+}
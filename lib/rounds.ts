@@ -0,0 +1,198 @@
+/**
+ * Saved rounds
+ *
+ * Creating and updating rounds in the round store (lib/roundStore.ts). The
+ * derived scoring is always recalculated from the scorecard on the server, and
+ * every update records what changed (diffScorecardVersions against the previous
+ * version, see lib/validation.ts) in the round's edit history. The source
+ * image is stored in the round image store (lib/roundImageStore.ts) under the
+ * round's id.
+ */
+
+import { randomUUID } from 'crypto';
+import { calculateDerivedScoring } from './golfScoring';
+import { diffScorecardVersions } from './validation';
+import { getRoundStore, type RoundStore } from './roundStore';
+import { getRoundImageStore, roundImageType, type RoundImageStore } from './roundImageStore';
+import type { ExtractedScorecard, RoundImageRef, RoundSummary, SavedRound } from './types';
+
+export interface NewRoundInput {
+  scorecard: ExtractedScorecard;
+  image?: RoundImageRef;
+  provider?: string;
+}
+
+/**
+ * Checks that a request body field is a scorecard
+ *
+ * @throws Error describing what is wrong
+ */
+export function parseScorecard(value: unknown): ExtractedScorecard {
+  const scorecard = value as ExtractedScorecard | null;
+
+  if (!scorecard || typeof scorecard !== 'object') {
+    throw new Error('Invalid round: expected a scorecard object');
+  }
+  if (typeof scorecard.courseName !== 'string') {
+    throw new Error('Invalid round: scorecard.courseName must be a string');
+  }
+  if (!Array.isArray(scorecard.holes) || !Array.isArray(scorecard.players)) {
+    throw new Error('Invalid round: scorecard.holes and scorecard.players must be arrays');
+  }
+  if (scorecard.players.some((player) => typeof player?.name !== 'string' || !Array.isArray(player.scores))) {
+    throw new Error('Invalid round: every player needs a name and a scores array');
+  }
+  return scorecard;
+}
+
+/**
+ * Checks the optional image reference of a new round
+ *
+ * @throws Error describing what is wrong
+ */
+export function parseImageRef(value: unknown): RoundImageRef | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const image = value as Partial<RoundImageRef>;
+  if (typeof image !== 'object' || typeof image.fileName !== 'string' || !image.fileName) {
+    throw new Error('Invalid round: image must be {fileName, contentType?, size?}');
+  }
+  return {
+    fileName: image.fileName,
+    contentType: typeof image.contentType === 'string' ? image.contentType : undefined,
+    size: typeof image.size === 'number' ? image.size : undefined,
+  };
+}
+
+/**
+ * Saves a new round
+ */
+export async function createRound(input: NewRoundInput, store: RoundStore = getRoundStore()): Promise<SavedRound> {
+  const now = new Date().toISOString();
+  const round: SavedRound = {
+    id: randomUUID(),
+    scorecard: input.scorecard,
+    derived: calculateDerivedScoring(input.scorecard),
+    image: input.image,
+    provider: input.provider,
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(round);
+  console.log(`[Rounds] Saved round ${round.id} (${round.scorecard.courseName || 'unknown course'})`);
+  return round;
+}
+
+/**
+ * Replaces a round's scorecard, recording the changes in its edit history
+ *
+ * @returns The updated round, or null if it does not exist
+ */
+export async function updateRound(
+  id: string,
+  scorecard: ExtractedScorecard,
+  note?: string,
+  store: RoundStore = getRoundStore()
+): Promise<SavedRound | null> {
+  const round = await store.get(id);
+  if (!round) {
+    return null;
+  }
+
+  const changes = diffScorecardVersions(scorecard, round.scorecard);
+  const history = [...round.history];
+  if (changes.length > 0 || note) {
+    history.push({ editedAt: new Date().toISOString(), changes, ...(note ? { note } : {}) });
+  }
+
+  const updated = await store.update(id, {
+    scorecard,
+    derived: calculateDerivedScoring(scorecard),
+    history,
+  });
+  console.log(`[Rounds] Updated round ${id} (${changes.length} change(s))`);
+  return updated;
+}
+
+/**
+ * Stores the source image of a round and points the round's image reference at it
+ *
+ * The content type is detected from the bytes (see roundImageType).
+ *
+ * @returns The updated round, or null if it does not exist
+ * @throws Error if the bytes are not a JPEG, PNG, WebP or HEIC image
+ */
+export async function attachRoundImage(
+  id: string,
+  image: { fileName: string; bytes: Buffer },
+  store: RoundStore = getRoundStore(),
+  imageStore: RoundImageStore = getRoundImageStore()
+): Promise<SavedRound | null> {
+  const contentType = roundImageType(image.bytes);
+  if (!contentType) {
+    throw new Error('Invalid image: only JPEG, PNG, WebP and HEIC images can be stored');
+  }
+
+  if (!(await store.get(id))) {
+    return null;
+  }
+
+  await imageStore.save(id, image.bytes);
+  const updated = await store.update(id, {
+    image: { fileName: image.fileName, contentType, size: image.bytes.length, storageKey: id },
+  });
+  console.log(`[Rounds] Stored image of round ${id} (${image.bytes.length} bytes)`);
+  return updated;
+}
+
+/**
+ * The stored source image of a round
+ *
+ * @returns null if the round has no stored image
+ */
+export async function loadRoundImage(
+  round: SavedRound,
+  imageStore: RoundImageStore = getRoundImageStore()
+): Promise<Buffer | null> {
+  return round.image?.storageKey ? imageStore.load(round.image.storageKey) : null;
+}
+
+/**
+ * Removes a round and its stored image
+ *
+ * @returns false if the round does not exist
+ */
+export async function deleteRound(
+  id: string,
+  store: RoundStore = getRoundStore(),
+  imageStore: RoundImageStore = getRoundImageStore()
+): Promise<boolean> {
+  const round = await store.get(id);
+  if (!round || !(await store.delete(id))) {
+    return false;
+  }
+
+  if (round.image?.storageKey) {
+    await imageStore.delete(round.image.storageKey);
+  }
+  return true;
+}
+
+/**
+ * Listing entry for a round
+ */
+export function toRoundSummary(round: SavedRound): RoundSummary {
+  return {
+    id: round.id,
+    courseName: round.scorecard.courseName,
+    date: round.scorecard.date,
+    players: round.scorecard.players.map((player) => player.name),
+    edits: round.history.length,
+    createdAt: round.createdAt,
+    updatedAt: round.updatedAt,
+  };
+}
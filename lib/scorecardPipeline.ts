@@ -0,0 +1,150 @@
+/**
+ * Scorecard analysis pipeline
+ *
+ * Everything between an uploaded image and a ScorecardAnalysisResponse:
+ * HEIC conversion, OCR with the selected provider, course lookup, Out/In/Total,
+ * derived scoring and the confirmation lists. Shared by the synchronous
+ * /api/scorecards route and the asynchronous extraction jobs.
+ */
+
+import type { OcrHints, OcrProgressListener, OcrProvider } from './ocrProvider';
+import { calculateDerivedScoring, calculatePlayerTotals } from './golfScoring';
+import { findLowConfidenceCells } from './ocrConfidence';
+import { checkScorecardTotals } from './reportedTotals';
+import { calculateMatches } from './matchPlay';
+import { convertHeicToJpeg, isHeicFile } from './heicConverter';
+import { lookupCourse } from './courses';
+import type { CourseMatch, MatchDefinition, ScorecardAnalysisResponse } from './types';
+
+/**
+ * Reads an uploaded image into a buffer, converting HEIC to JPEG
+ */
+export async function readImageFile(file: File): Promise<Buffer> {
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  if (isHeicFile(file.type, file.name)) {
+    console.log('[Pipeline] HEIC file detected, converting...');
+    return Buffer.from(await convertHeicToJpeg(buffer));
+  }
+
+  return buffer;
+}
+
+/**
+ * Reads optional OCR hints (holeCount, notationStyle) from the form data
+ */
+export function parseOcrHints(formData: FormData): OcrHints {
+  const hints: OcrHints = {};
+
+  const holeCount = formData.get('holeCount');
+  if (holeCount === '9' || holeCount === '18') {
+    hints.holeCount = holeCount === '9' ? 9 : 18;
+  }
+
+  const notationStyle = formData.get('notationStyle');
+  if (notationStyle === 'gross' || notationStyle === 'relative') {
+    hints.notationStyle = notationStyle;
+  }
+
+  return hints;
+}
+
+/**
+ * Reads match play matches to score from the optional `matches` form field (JSON array)
+ *
+ * @throws Error if the field is not a valid list of matches
+ */
+export function parseMatchDefinitions(formData: FormData): MatchDefinition[] {
+  const raw = formData.get('matches');
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(String(raw));
+  } catch {
+    throw new Error('Invalid matches: expected a JSON array');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid matches: expected a JSON array');
+  }
+
+  return parsed.map((match, index) => {
+    const sides = match?.sides;
+    const validSides = Array.isArray(sides) && sides.length === 2 &&
+      sides.every((side: unknown) => Array.isArray(side) && side.length > 0 && side.every((n) => typeof n === 'string'));
+
+    if (!['singles', 'four-ball', 'foursomes'].includes(match?.format) || !validSides) {
+      throw new Error(`Invalid match ${index + 1}: expected {format: "singles" | "four-ball" | "foursomes", sides: [[names], [names]]}`);
+    }
+
+    return {
+      format: match.format,
+      sides: [sides[0], sides[1]],
+      handicapAllowance: typeof match.handicapAllowance === 'number' ? match.handicapAllowance : undefined,
+    };
+  });
+}
+
+/**
+ * Runs OCR on an image and builds the full analysis response
+ *
+ * @param imageBuffer - JPEG/PNG image (see readImageFile)
+ * @param provider - OCR strategy to use
+ * @param hints - Optional hints from the caller
+ * @param onProgress - Called as each stage starts and completes
+ * @param matches - Match play matches to score between the extracted players
+ */
+export async function analyzeScorecard(
+  imageBuffer: Buffer,
+  provider: OcrProvider,
+  hints: OcrHints = {},
+  onProgress?: OcrProgressListener,
+  matches: MatchDefinition[] = []
+): Promise<ScorecardAnalysisResponse> {
+  console.log(`[Pipeline] Starting OCR extraction with provider "${provider.name}"...`);
+  const { scorecard: ocrScorecard, provenance } = await provider.analyze(imageBuffer, hints, onProgress);
+
+  onProgress?.({ stage: 'scoring', message: 'Calculating totals and scoring' });
+
+  // Recognize the course/tee and fill in hole data the photo didn't show.
+  // The course database is optional, so a failing lookup doesn't fail the upload.
+  let extracted = ocrScorecard;
+  let course: CourseMatch | undefined;
+  try {
+    const lookup = await lookupCourse(ocrScorecard);
+    if (lookup) {
+      extracted = lookup.scorecard;
+      course = lookup.match;
+    }
+  } catch (error) {
+    console.warn('[Pipeline] Course lookup failed:', error);
+  }
+
+  // Calculate Out/In/Total for each player (auto-calculated from scores)
+  console.log('[Pipeline] Calculating player totals (Out/In/Total)...');
+  const withTotals = {
+    ...extracted,
+    players: extracted.players.map((player) => calculatePlayerTotals(player)),
+    ...(matches.length > 0 ? { matches } : {}),
+  };
+
+  // Calculate derived scoring statistics
+  console.log('[Pipeline] Calculating derived scoring...');
+  const derived = calculateDerivedScoring(withTotals);
+
+  onProgress?.({ stage: 'scoring', completed: true, message: 'Scoring complete' });
+
+  return {
+    extracted: withTotals,
+    derived,
+    provider: provider.name,
+    provenance,
+    lowConfidenceCells: findLowConfidenceCells(withTotals),
+    totalsChecks: checkScorecardTotals(withTotals),
+    matches: calculateMatches(withTotals),
+    ...(course ? { course } : {}),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Server-sent events (SSE) helpers
+ *
+ * /api/scorecards can stream extraction progress as SSE over the POST
+ * response. Browsers' EventSource only supports GET, so the client reads the
+ * response body itself and feeds it to createSseParser.
+ */
+
+/**
+ * Formats one SSE message (data is JSON-encoded)
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Creates an incremental SSE parser
+ *
+ * Chunks may split messages anywhere; complete messages are passed to
+ * onEvent with their event name (default "message") and raw data.
+ *
+ * @returns A function to call with each decoded chunk of the stream
+ */
+export function createSseParser(onEvent: (event: string, data: string) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      message.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      });
+
+      if (data.length > 0) {
+        onEvent(event, data.join('\n'));
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  };
+}
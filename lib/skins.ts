@@ -0,0 +1,92 @@
+/**
+ * Skins game calculation
+ *
+ * Each hole is worth one skin, won by the player with the outright lowest
+ * score (gross, or net using the handicap strokes in the derived scoring).
+ * When the hole is tied, or the low score fails the validation rule (e.g.
+ * "birdie to win"), the skin carries over to the next hole if carryovers are
+ * on and is lost otherwise. Payouts are skins won × the value per skin.
+ */
+
+import type { HoleDerived, SkinsHoleResult, SkinsResult, SkinsSettings } from './types';
+
+export const DEFAULT_SKINS_SETTINGS: SkinsSettings = {
+  mode: 'gross',
+  carryover: true,
+  validation: 'none',
+  valuePerSkin: 5,
+};
+
+// Highest score relative to par that can win a skin under each validation rule
+const VALIDATION_MAX_TO_PAR: Record<SkinsSettings['validation'], number> = {
+  none: Infinity,
+  par: 0,
+  birdie: -1,
+};
+
+/**
+ * Calculates skins won per hole and the payout per player
+ *
+ * Players without a score on a hole don't compete for it. In net mode,
+ * players without a course handicap play off their gross score.
+ *
+ * @param holes - Per-hole derived scoring (DerivedScoring.holes)
+ * @param settings - Rules of the game
+ */
+export function calculateSkins(holes: HoleDerived[], settings: SkinsSettings): SkinsResult {
+  const sortedHoles = [...holes].sort((a, b) => a.holeNumber - b.holeNumber);
+  const maxToPar = VALIDATION_MAX_TO_PAR[settings.validation];
+  const skinsByPlayer = new Map<string, number>();
+  let carried = 0;
+
+  for (const result of sortedHoles[0]?.playerResults || []) {
+    skinsByPlayer.set(result.playerName, 0);
+  }
+
+  const results: SkinsHoleResult[] = sortedHoles.map((hole) => {
+    const inPlay = carried + 1;
+    const scores = hole.playerResults
+      .map((result) => ({
+        name: result.playerName,
+        score: settings.mode === 'net' && result.netScore !== undefined ? result.netScore : result.score,
+      }))
+      .filter((s): s is { name: string; score: number } => s.score !== null);
+
+    if (scores.length < 2) {
+      // Not enough scores to contest the hole: the skin stays in play
+      carried = settings.carryover ? inPlay : 0;
+      return { holeNumber: hole.holeNumber, winner: null, winningScore: null, skins: 0, carried, note: 'Not enough scores' };
+    }
+
+    const low = Math.min(...scores.map((s) => s.score));
+    const lowPlayers = scores.filter((s) => s.score === low).map((s) => s.name);
+
+    let note: string | undefined;
+    if (lowPlayers.length > 1) {
+      note = `Tied by ${lowPlayers.join(', ')}`;
+    } else if (low - hole.par > maxToPar) {
+      note = `${lowPlayers[0]} did not make ${settings.validation} to win`;
+    }
+
+    if (note) {
+      carried = settings.carryover ? inPlay : 0;
+      return { holeNumber: hole.holeNumber, winner: null, winningScore: low, skins: 0, carried, note };
+    }
+
+    const winner = lowPlayers[0];
+    skinsByPlayer.set(winner, (skinsByPlayer.get(winner) || 0) + inPlay);
+    carried = 0;
+    return { holeNumber: hole.holeNumber, winner, winningScore: low, skins: inPlay, carried: 0 };
+  });
+
+  return {
+    settings,
+    holes: results,
+    players: Array.from(skinsByPlayer, ([name, skins]) => ({
+      name,
+      skins,
+      payout: skins * settings.valuePerSkin,
+    })),
+    unclaimedSkins: carried,
+  };
+}
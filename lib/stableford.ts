@@ -0,0 +1,52 @@
+/**
+ * Stableford points scoring
+ *
+ * Points are awarded per hole from the score relative to par (net of handicap
+ * strokes for net Stableford). The points table is configurable per scorecard
+ * (`ExtractedScorecard.stableford`); standard and modified tables are built in.
+ */
+
+import type { StablefordTable } from './types';
+
+// Standard Stableford: 0 for double bogey or worse up to 6 for a condor
+export const STANDARD_STABLEFORD: StablefordTable = {
+  name: 'Standard',
+  points: { [-4]: 6, [-3]: 5, [-2]: 4, [-1]: 3, 0: 2, 1: 1, 2: 0 },
+};
+
+// Modified Stableford (as used on tour): rewards birdies, penalizes bogeys
+export const MODIFIED_STABLEFORD: StablefordTable = {
+  name: 'Modified',
+  points: { [-3]: 8, [-2]: 5, [-1]: 2, 0: 0, 1: -1, 2: -3 },
+};
+
+export const STABLEFORD_TABLES: StablefordTable[] = [STANDARD_STABLEFORD, MODIFIED_STABLEFORD];
+
+/**
+ * Stableford points for one hole
+ *
+ * @param score - Gross score (null if not played)
+ * @param par - Par of the hole
+ * @param table - Points table
+ * @param strokesReceived - Handicap strokes on the hole, for net points
+ * @returns Points, or null if the hole was not played
+ */
+export function stablefordPoints(
+  score: number | null,
+  par: number,
+  table: StablefordTable = STANDARD_STABLEFORD,
+  strokesReceived = 0
+): number | null {
+  if (score === null) {
+    return null;
+  }
+
+  const listed = Object.keys(table.points).map(Number);
+  if (listed.length === 0) {
+    return 0;
+  }
+
+  // Clamp to the best and worst results the table lists
+  const toPar = Math.min(Math.max(score - strokesReceived - par, Math.min(...listed)), Math.max(...listed));
+  return table.points[toPar] ?? 0;
+}
@@ -0,0 +1,128 @@
+/**
+ * Team formats
+ *
+ * Groups the players on the card into teams (`ExtractedScorecard.teams`) and
+ * scores every team per hole:
+ * - Best ball: the lowest 1 (or 2, ...) scores of the team count on each hole
+ * - Aggregate: every player's score counts
+ * - Scramble: the team plays one ball, recorded as a single row on the card
+ *
+ * Scores are gross or net of each player's handicap strokes. Teams are ranked
+ * on their score to par over the holes they have completed, as a leaderboard.
+ */
+
+import type {
+  ExtractedScorecard,
+  PlayerInfo,
+  TeamDefinition,
+  TeamHoleScore,
+  TeamResult,
+  TeamScoring,
+  TeamSettings,
+} from './types';
+import { allocateHandicapStrokes } from './golfScoring';
+
+/**
+ * Number of scores that count per hole for a team
+ */
+function scoresCounting(settings: TeamSettings, team: TeamDefinition): number {
+  if (settings.format === 'aggregate') {
+    return team.players.length;
+  }
+  if (settings.format === 'scramble') {
+    return 1;
+  }
+  return Math.min(settings.ballsCounting ?? 1, team.players.length);
+}
+
+/**
+ * Scores one team hole by hole
+ */
+function scoreTeam(scorecard: ExtractedScorecard, settings: TeamSettings, team: TeamDefinition) {
+  const holes = [...scorecard.holes].sort((a, b) => a.holeNumber - b.holeNumber);
+  const counting = scoresCounting(settings, team);
+  const members = team.players
+    .map((name) => scorecard.players.find((p) => p.name === name))
+    .filter((player): player is PlayerInfo => player !== undefined);
+
+  const strokesByPlayer = new Map(
+    members.map((player) => [
+      player.name,
+      settings.mode === 'net' && player.courseHandicap !== undefined
+        ? allocateHandicapStrokes(player.courseHandicap, holes)
+        : new Map<number, number>(),
+    ])
+  );
+
+  const teamHoles: TeamHoleScore[] = holes.map((hole) => {
+    const scores = members
+      .map((player) => {
+        const score = player.scores.find((s) => s.holeNumber === hole.holeNumber)?.score ?? null;
+        const strokes = strokesByPlayer.get(player.name)?.get(hole.holeNumber) || 0;
+        return { name: player.name, score: score === null ? null : score - strokes };
+      })
+      .filter((s): s is { name: string; score: number } => s.score !== null)
+      .sort((a, b) => a.score - b.score);
+
+    const counted = scores.slice(0, counting);
+
+    return {
+      holeNumber: hole.holeNumber,
+      score: counted.length === counting ? counted.reduce((sum, s) => sum + s.score, 0) : null,
+      par: hole.par * counting,
+      counted: counted.length === counting ? counted.map((s) => s.name) : [],
+    };
+  });
+
+  const played = teamHoles.filter((h) => h.score !== null);
+  return {
+    holes: teamHoles,
+    holesPlayed: played.length,
+    total: played.reduce((sum, h) => sum + h.score!, 0),
+    toPar: played.reduce((sum, h) => sum + h.score! - h.par, 0),
+  };
+}
+
+/**
+ * Scores every team and orders them as a leaderboard
+ *
+ * @returns null when no teams are declared on the scorecard
+ */
+export function calculateTeamScoring(scorecard: ExtractedScorecard): TeamScoring | null {
+  const settings = scorecard.teams;
+  if (!settings || settings.teams.length === 0) {
+    return null;
+  }
+
+  const teams: TeamResult[] = settings.teams
+    .map((team) => ({
+      name: team.name,
+      players: team.players,
+      ...scoreTeam(scorecard, settings, team),
+      position: null as number | null,
+      tied: false,
+    }))
+    .sort((a, b) => {
+      // Teams that haven't started go to the bottom
+      if ((a.holesPlayed === 0) !== (b.holesPlayed === 0)) {
+        return a.holesPlayed === 0 ? 1 : -1;
+      }
+      return a.toPar - b.toPar;
+    });
+
+  teams.forEach((team, index) => {
+    if (team.holesPlayed === 0) {
+      return;
+    }
+    const previous = teams[index - 1];
+    team.position = previous && previous.toPar === team.toPar ? previous.position : index + 1;
+    team.tied = teams.some((other) => other !== team && other.holesPlayed > 0 && other.toPar === team.toPar);
+  });
+
+  return {
+    format: settings.format,
+    ballsCounting: settings.format === 'best-ball' ? settings.ballsCounting ?? 1 : undefined,
+    mode: settings.mode,
+    teams,
+  };
+}
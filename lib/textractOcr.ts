@@ -6,46 +6,40 @@
  * than general-purpose vision models for structured documents like scorecards.
  */
 
-import {
-  TextractClient,
-  AnalyzeDocumentCommand,
-  Block,
-  Relationship,
-} from '@aws-sdk/client-textract';
-import type { ExtractedScorecard } from './types';
+import type { Block, Relationship } from '@aws-sdk/client-textract';
+import type { BoundingBox, ExtractedScorecard } from './types';
 import { parseScoreToGross, detectNotationStyle } from './scoreNotation';
+import { collectProvenance, type OcrHints, type OcrProvider } from './ocrProvider';
+import { assessCellConfidence, withConfidence } from './ocrConfidence';
+import { applyDetailRows, detectDetailRow, type HoleDetailRow } from './holeDetails';
+import { getOcrTransport, type OcrTransport } from './ocrTransport';
 
 /**
  * Analyzes a golf scorecard image using AWS Textract
  * 
  * @param imageBuffer - The image file as a Buffer
+ * @param hints - Optional hints (e.g. a known notation style) from the caller
+ * @param transport - Where Textract responses come from (live API or recorded fixtures)
  * @returns Structured scorecard data extracted from the image
  */
-export async function analyzeWithTextract(imageBuffer: Buffer): Promise<ExtractedScorecard> {
+export async function analyzeWithTextract(
+  imageBuffer: Buffer,
+  hints: OcrHints = {},
+  transport: OcrTransport = getOcrTransport()
+): Promise<ExtractedScorecard> {
   console.log('[Textract] Starting scorecard OCR analysis...');
 
-  const client = new TextractClient({
-    region: process.env.AWS_REGION || 'us-east-1',
-  });
-
   try {
-    const command = new AnalyzeDocumentCommand({
-      Document: {
-        Bytes: imageBuffer,
-      },
-      FeatureTypes: ['TABLES', 'FORMS'],
-    });
-
-    const response = await client.send(command);
+    const blocks = await transport.analyzeDocument(imageBuffer);
     
-    if (!response.Blocks || response.Blocks.length === 0) {
+    if (blocks.length === 0) {
       throw new Error('No data extracted from image');
     }
 
-    console.log('[Textract] Extracted blocks:', response.Blocks.length);
+    console.log('[Textract] Extracted blocks:', blocks.length);
 
     // Parse the Textract response into scorecard structure
-    const scorecard = parseTextractResponse(response.Blocks);
+    const scorecard = parseTextractResponse(blocks, hints);
     
     console.log('[Textract] Successfully parsed scorecard:', {
       course: scorecard.courseName,
@@ -68,7 +62,7 @@ export async function analyzeWithTextract(imageBuffer: Buffer): Promise<Extracte
 /**
  * Parses Textract blocks into structured scorecard data
  */
-function parseTextractResponse(blocks: Block[]): ExtractedScorecard {
+function parseTextractResponse(blocks: Block[], hints: OcrHints): ExtractedScorecard {
   // Extract all text from LINE blocks for metadata
   const lines = blocks
     .filter(block => block.BlockType === 'LINE' && block.Text)
@@ -97,11 +91,13 @@ function parseTextractResponse(blocks: Block[]): ExtractedScorecard {
   });
 
   // Parse the table into scorecard structure
-  return parseTableToScorecard(mainTable, lines);
+  return parseTableToScorecard(mainTable, lines, hints);
 }
 
 interface Table {
   rows: string[][];
+  boxes: (BoundingBox | undefined)[][]; // Cell geometry, same shape as rows
+  confidences: (number | undefined)[][]; // Lowest word confidence per cell (0-1), same shape as rows
 }
 
 /**
@@ -137,6 +133,8 @@ function extractTables(blocks: Block[]): Table[] {
 
     // Build table grid
     const tableGrid: Map<string, string> = new Map();
+    const boxGrid: Map<string, BoundingBox> = new Map();
+    const confidenceGrid: Map<string, number> = new Map();
     let maxRow = 0;
     let maxCol = 0;
 
@@ -154,40 +152,79 @@ function extractTables(blocks: Block[]): Table[] {
       if (cell.Relationships) {
         const childRel = cell.Relationships.find((rel: Relationship) => rel.Type === 'CHILD');
         if (childRel?.Ids) {
-          const words = childRel.Ids
+          const wordBlocks = childRel.Ids
             .map((id: string) => blockMap.get(id))
-            .filter((block): block is Block => block !== undefined && block.BlockType === 'WORD')
-            .map((block: Block) => block.Text || '');
-          cellText = words.join(' ').trim();
+            .filter((block): block is Block => block !== undefined && block.BlockType === 'WORD');
+          cellText = wordBlocks.map((block: Block) => block.Text || '').join(' ').trim();
+
+          // A cell is only as reliable as its least certain word
+          const wordConfidences = wordBlocks
+            .map((block: Block) => block.Confidence)
+            .filter((c): c is number => c !== undefined);
+          if (wordConfidences.length > 0) {
+            confidenceGrid.set(`${row}-${col}`, Math.min(...wordConfidences) / 100);
+          }
         }
       }
 
       tableGrid.set(`${row}-${col}`, cellText);
+
+      const box = toBoundingBox(cell);
+      if (box) {
+        boxGrid.set(`${row}-${col}`, box);
+      }
     });
 
     // Convert grid to 2D array
     const rows: string[][] = [];
+    const boxes: (BoundingBox | undefined)[][] = [];
+    const confidences: (number | undefined)[][] = [];
     for (let r = 1; r <= maxRow; r++) {
       const row: string[] = [];
+      const boxRow: (BoundingBox | undefined)[] = [];
+      const confidenceRow: (number | undefined)[] = [];
       for (let c = 1; c <= maxCol; c++) {
         row.push(tableGrid.get(`${r}-${c}`) || '');
+        boxRow.push(boxGrid.get(`${r}-${c}`));
+        confidenceRow.push(confidenceGrid.get(`${r}-${c}`));
       }
       rows.push(row);
+      boxes.push(boxRow);
+      confidences.push(confidenceRow);
     }
 
     if (rows.length > 0) {
-      tables.push({ rows });
+      tables.push({ rows, boxes, confidences });
     }
   });
 
   return tables;
 }
 
+/**
+ * Converts a Textract block's geometry to a normalized bounding box
+ */
+function toBoundingBox(block: Block): BoundingBox | undefined {
+  const box = block.Geometry?.BoundingBox;
+  if (!box || box.Left === undefined || box.Top === undefined || box.Width === undefined || box.Height === undefined) {
+    return undefined;
+  }
+
+  return {
+    left: box.Left,
+    top: box.Top,
+    width: box.Width,
+    height: box.Height,
+  };
+}
+
 /**
  * Parses a table structure into scorecard format
  */
-function parseTableToScorecard(table: Table, metadataLines: string[]): ExtractedScorecard {
+function parseTableToScorecard(table: Table, metadataLines: string[], hints: OcrHints): ExtractedScorecard {
   const rows = table.rows;
+  const boxes = table.boxes;
+  const confidences = table.confidences;
   
   // Try to find course name from metadata lines
   let courseName = metadataLines.find(line => 
@@ -394,6 +431,7 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
       par,
       yardage: undefined,
       handicap: undefined,
+      parBoundingBox: parRowIndex !== -1 ? boxes[parRowIndex][colIdx] : undefined,
     };
   });
 
@@ -443,6 +481,7 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
     row: number;
     col: number;
     rawScores: (string | null)[];
+    detailRows: Partial<Record<HoleDetailRow, (string | null)[]>>;
   }> = [];
 
   for (let r = startPlayerRow; r < rows.length; r++) {
@@ -472,6 +511,19 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
     
     // Skip empty rows or metadata rows
     if (!playerName || playerName.length === 0) continue;
+
+    // Putts / fairway / penalty rows belong to the player row above them
+    const detailRow = detectDetailRow(name0) || detectDetailRow(playerName);
+    if (detailRow) {
+      const owner = playerData[playerData.length - 1];
+      if (owner) {
+        owner.detailRows[detailRow] = holeColumns.map((colIdx) => rows[r][colIdx]?.trim() || null);
+        console.log(`[Textract] Found ${detailRow} row for ${owner.name} at row ${r}`);
+      } else {
+        console.log(`[Textract] Skipping ${detailRow} row at row ${r} - no player above it`);
+      }
+      continue;
+    }
     
     // Check both column 0 AND the player name column for metadata keywords
     const col0Label = name0.toLowerCase();
@@ -558,12 +610,12 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
     
     // Add to collection for scorecard-wide detection
     allRawScores.push(...rawScores.filter(s => s !== null));
-    playerData.push({ name: playerName, row: r, col: playerNameCol, rawScores });
+    playerData.push({ name: playerName, row: r, col: playerNameCol, rawScores, detailRows: {} });
   }
 
-  // STEP 2: Detect notation style ONCE for entire scorecard
+  // STEP 2: Detect notation style ONCE for entire scorecard (unless the caller already knows it)
   const pars = holes.map(h => h.par);
-  const scorecardNotation = detectNotationStyle(allRawScores, pars);
+  const scorecardNotation = hints.notationStyle || detectNotationStyle(allRawScores, pars);
   
   if (scorecardNotation === 'relative') {
     console.log('[Textract] Detected RELATIVE-TO-PAR notation for entire scorecard');
@@ -574,18 +626,22 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
   }
 
   // STEP 3: Convert all player scores using the detected notation
-  const players: Array<{ name: string; scores: Array<{ holeNumber: number; score: number | null }> }> = [];
+  const players: ExtractedScorecard['players'] = [];
   
   for (const pd of playerData) {
     const scores = pd.rawScores.map((cellValue, idx) => {
       const holeNumber = idx + 1;
       const hole = holes[idx];
       
+      const boundingBox = boxes[pd.row][holeColumns[idx]];
+      const textractConfidence = confidences[pd.row][holeColumns[idx]];
+      
       if (!cellValue) {
-        return {
+        return applyDetailRows({
           holeNumber,
           score: null,
-        };
+          boundingBox,
+        }, pd.detailRows, idx);
       }
       
       // Convert based on scorecard-wide notation
@@ -604,10 +660,12 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
         score = parseScoreToGross(cellValue, hole.par);
       }
       
-      return {
-        holeNumber,
-        score,
-      };
+      const entry = applyDetailRows({ holeNumber, score, boundingBox, textractConfidence }, pd.detailRows, idx);
+      
+      // Textract-only confidence; hybrid OCR re-assesses with Vision readings
+      return score === null
+        ? entry
+        : withConfidence(entry, assessCellConfidence({ par: hole.par, textract: score, textractConfidence }));
     });
 
     console.log(`[Textract] ${pd.name} scores:`, scores.map((s, i) => `H${i+1}:${s.score ?? '-'}`).join(' '));
@@ -618,6 +676,7 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
       players.push({
         name: pd.name,
         scores,
+        nameBoundingBox: boxes[pd.row][pd.col],
       });
     }
   }
@@ -637,3 +696,16 @@ function parseTableToScorecard(table: Table, metadataLines: string[]): Extracted
     notationStyle: scorecardNotation, // Pass detected notation to hybrid OCR
   };
 }
+
+/**
+ * Textract-only OCR provider (no Vision gap filling)
+ */
+export const textractProvider: OcrProvider = {
+  name: 'textract',
+  description: 'AWS Textract table extraction only',
+  async analyze(imageBuffer, hints, onProgress) {
+    onProgress?.({ stage: 'textract', message: 'Reading the scorecard table with Textract' });
+    const scorecard = await analyzeWithTextract(imageBuffer, hints);
+    return { scorecard, provenance: collectProvenance(scorecard, 'textract') };
+  },
+};
@@ -2,12 +2,21 @@
  * Type definitions for the golf scorecard application
  */
 
+// Location of a table cell in the image, as fractions (0-1) of image width/height
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
 // Hole information extracted from the scorecard
 export interface HoleInfo {
   holeNumber: number;
   par: number;
   yardage?: number;
   handicap?: number;
+  parBoundingBox?: BoundingBox; // Where the par was read (Textract only)
 }
 
 // Individual player's score for a specific hole
@@ -15,9 +24,19 @@ export interface PlayerHoleScore {
   holeNumber: number | string; // string to handle OCR extracting "OUT", "IN", "TOTAL" columns
   score: number | null; // null if not played yet
   confidence?: 'high' | 'medium' | 'low'; // OCR confidence level
+  confidenceScore?: number; // OCR confidence 0-1 (see lib/ocrConfidence.ts)
+  confidenceReasons?: string[]; // Why the confidence is what it is
+  textractConfidence?: number; // Textract's word confidence for the cell (0-1)
   source?: 'textract' | 'vision' | 'manual'; // Where the score came from
+  boundingBox?: BoundingBox; // Where the score cell is in the image (Textract only)
+  putts?: number | null; // Optional detail rows (see lib/holeDetails.ts)
+  fairway?: FairwayResult;
+  penalties?: number | null;
 }
 
+// Tee shot result on a par 4 or 5 ('na' on par 3s or when not recorded as a fairway hole)
+export type FairwayResult = 'hit' | 'left' | 'right' | 'na';
+
 // Player information with their scores
 export interface PlayerInfo {
   name: string;
@@ -25,6 +44,12 @@ export interface PlayerInfo {
   frontNine?: number;  // Out - total for holes 1-9 (auto-calculated)
   backNine?: number;   // In - total for holes 10-18 (auto-calculated)
   total?: number;      // Total - sum of all holes (auto-calculated)
+  reportedFrontNine?: number; // OUT as handwritten on the card (OCR)
+  reportedBackNine?: number;  // IN as handwritten on the card (OCR)
+  reportedTotal?: number;     // TOTAL as handwritten on the card (OCR)
+  courseHandicap?: number; // Handicap strokes for this round (negative = plus handicap)
+  nameBoundingBox?: BoundingBox; // Where the name was read (Textract only)
+  playerId?: string; // Registered player this row belongs to (see PlayerProfile)
 }
 
 // Complete extracted scorecard data from OpenAI Vision
@@ -32,13 +57,174 @@ export interface ExtractedScorecard {
   courseName: string;
   teeName?: string;
   date?: string;
+  courseId?: string; // Course in the course database the card was matched to
+  courseRating?: number; // Rating and slope of the tee played (from the course database)
+  slopeRating?: number;
   holes: HoleInfo[];
   players: PlayerInfo[];
   notationStyle?: 'gross' | 'relative'; // Score notation style detected from the scorecard
+  stableford?: StablefordTable; // Points table for Stableford scoring (standard when absent)
+  matches?: MatchDefinition[]; // Match play matches declared between the players
+  skins?: SkinsSettings; // Skins game played off the card
+  nassau?: NassauSettings; // Nassau bets between every pair of players
+  teams?: TeamSettings; // Players grouped into teams for a team format
+}
+
+// Stableford points by score relative to par (e.g. {"-1": 3, "0": 2}); scores better
+// than the best entry get its points, scores worse than the worst entry get the worst's
+export interface StablefordTable {
+  name: string;
+  points: Record<number, number>;
+}
+
+// A match play match between two sides of players on the card
+export interface MatchDefinition {
+  format: 'singles' | 'four-ball' | 'foursomes';
+  sides: [string[], string[]]; // Player names: one per side for singles, two for four-ball/foursomes
+  handicapAllowance?: number; // Percent; defaults 100 singles, 90 four-ball, 50 foursomes
+}
+
+// Match state after one hole (margin is from side A's point of view)
+export interface MatchHoleResult {
+  holeNumber: number;
+  sideScores: [number | null, number | null]; // Net scores compared on the hole
+  winner: 0 | 1 | null; // null = halved or not played
+  margin: number; // Holes up for side A after this hole (negative = side B up)
+  status: string; // e.g. "Jay 1 UP", "AS", "Sam 2 UP (dormie)"
+}
+
+// Hole-by-hole status and result of a match
+export interface MatchResult {
+  format: MatchDefinition['format'];
+  sides: [string[], string[]];
+  sideNames: [string, string];
+  strokesReceived: { name: string; strokes: number }[]; // Players (sides for foursomes) receiving strokes
+  holes: MatchHoleResult[];
+  holesPlayed: number;
+  status: string; // Current status, e.g. "Jay 2 UP thru 12"
+  finished: boolean;
+  winner: 0 | 1 | null; // null while in progress or when halved
+  result: string | null; // "3&2", "1 UP" or "AS" once finished
+}
+
+// Rules of a skins game
+export interface SkinsSettings {
+  mode: 'gross' | 'net';
+  carryover: boolean; // Tied (or unvalidated) skins carry to the next hole; otherwise they are lost
+  validation: 'none' | 'par' | 'birdie'; // Worst score that can win a skin, relative to par
+  valuePerSkin: number; // Dollars
+}
+
+// Skins outcome of one hole
+export interface SkinsHoleResult {
+  holeNumber: number;
+  winner: string | null;
+  winningScore: number | null; // Gross or net score that won (or tied for) the hole
+  skins: number; // Skins won on the hole, including carryovers (0 when nobody won)
+  carried: number; // Skins carried to the next hole
+  note?: string; // Why nobody won, e.g. "Tied by Jay, Sam"
+}
+
+// Skins won and payout per player
+export interface SkinsResult {
+  settings: SkinsSettings;
+  holes: SkinsHoleResult[];
+  players: { name: string; skins: number; payout: number }[];
+  unclaimedSkins: number; // Skins still carried after the last hole
+}
+
+// Rules of a Nassau (front nine, back nine and overall bets)
+export interface NassauSettings {
+  mode: 'gross' | 'net';
+  format: 'match' | 'stroke'; // Holes won, or strokes over the holes of each bet
+  stake: number; // Dollars per bet (presses included)
+  pressDown: number; // Auto press when a player falls this far down in a bet (0 = no presses)
+}
+
+// One Nassau bet (a nine, the overall or a press) between two players
+export interface NassauBet {
+  name: string; // "Front 9", "Back 9", "Overall", "Front 9 press (from 5)"
+  startHole: number;
+  endHole: number;
+  margin: number; // Holes (match) or strokes (stroke) the first player is ahead
+  holesPlayed: number;
+  decided: boolean; // Every hole of the bet has been played
+  winner: string | null; // null while undecided or when pushed
+}
+
+// All Nassau bets between a pair of players
+export interface NassauMatch {
+  players: [string, string];
+  bets: NassauBet[];
+  balance: number; // Dollars the first player wins (negative = owes) on decided bets
+}
+
+// Net amount one player owes another after settling all bets
+export interface SettlementEntry {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface NassauResult {
+  settings: NassauSettings;
+  matches: NassauMatch[];
+  ledger: SettlementEntry[];
+}
+
+// Team format played by every team on the card
+export interface TeamSettings {
+  format: 'best-ball' | 'aggregate' | 'scramble';
+  ballsCounting?: number; // Best ball: how many of the team's scores count per hole (default 1)
+  mode: 'gross' | 'net';
+  teams: TeamDefinition[];
+}
+
+// A team of players on the card (for scramble, the team's own row on the card)
+export interface TeamDefinition {
+  name: string;
+  players: string[];
+}
+
+// A team's score on one hole
+export interface TeamHoleScore {
+  holeNumber: number;
+  score: number | null; // null until enough of the team has a score
+  par: number; // Par × scores counted
+  counted: string[]; // Players whose scores count
+}
+
+// A team's round and its place on the leaderboard
+export interface TeamResult {
+  name: string;
+  players: string[];
+  holes: TeamHoleScore[];
+  holesPlayed: number;
+  total: number;
+  toPar: number;
+  position: number | null; // null until the team has played a hole
+  tied: boolean;
+}
+
+// Team scores ordered as a leaderboard
+export interface TeamScoring {
+  format: TeamSettings['format'];
+  ballsCounting?: number; // Best ball only
+  mode: TeamSettings['mode'];
+  teams: TeamResult[];
 }
 
 // Relation to par for a single hole
-export type RelationToPar = 'eagle' | 'birdie' | 'par' | 'bogey' | 'double-bogey' | 'triple-bogey+' | null;
+export type RelationToPar =
+  | 'condor' // 4 under par (or better)
+  | 'albatross' // 3 under par
+  | 'eagle'
+  | 'birdie'
+  | 'par'
+  | 'bogey'
+  | 'double-bogey'
+  | 'triple-bogey+'
+  | null;
 
 // Derived scoring analysis for a hole
 export interface HoleDerived {
@@ -48,6 +234,13 @@ export interface HoleDerived {
     playerName: string;
     score: number | null;
     relationToPar: RelationToPar;
+    holeInOne?: boolean; // Set on aces (an ace is also an eagle, albatross or condor by par)
+    greenInRegulation?: boolean; // Set when putts are recorded: strokes - putts <= par - 2
+    strokesReceived?: number; // Handicap strokes on this hole (set when the player has a course handicap)
+    netScore?: number | null;
+    netRelationToPar?: RelationToPar;
+    stablefordPoints: number | null;
+    netStablefordPoints?: number | null;
   }[];
 }
 
@@ -62,19 +255,343 @@ export interface PlayerDerived {
   bogeys: number;
   doubleBogeys: number;
   eagles: number;
+  albatrosses: number;
+  condors: number;
+  holesInOne: number;
   tripleBogeyPlus: number;
+  courseHandicap?: number; // Net fields are only set when the player has a course handicap
+  netScore?: number; // totalScore minus strokes received on the holes played
+  netToPar?: number;
+  stablefordPoints: number;
+  netStablefordPoints?: number;
+  stats: RoundStats;
+  holeDetails?: HoleDetailStats; // Set when putts, fairways or penalties were recorded
+}
+
+// Putting, driving and penalty statistics from the optional detail rows
+export interface HoleDetailStats {
+  putts: number;
+  puttsHoles: number; // Holes with putts recorded
+  puttsPerHole: number | null;
+  onePutts: number;
+  threePutts: number; // Three putts or more
+  fairwaysHit: number;
+  fairwaysLeft: number;
+  fairwaysRight: number;
+  fairwayChances: number; // Holes with a fairway result other than 'na'
+  greensInRegulation: number;
+  girChances: number; // Holes with a score and putts recorded
+  penalties: number;
+}
+
+// Scoring on a group of holes (e.g. all par 3s, or the hardest holes)
+export interface HoleGroupStats {
+  holeNumbers: number[];
+  holesPlayed: number;
+  averageScore: number | null; // null when none of the holes were played
+  averageToPar: number | null;
+}
+
+// Extended statistics for a player's round
+export interface RoundStats {
+  byPar: ({ par: number } & HoleGroupStats)[]; // One entry per par value on the card, ascending
+  hardestHoles: HoleGroupStats; // Lowest third of stroke indexes (`handicap`)
+  easiestHoles: HoleGroupStats; // Highest third of stroke indexes
+  bounceBacks: number; // Birdie or better on the hole after a bogey or worse
+  bounceBackChances: number; // Holes played after a bogey or worse
+  bounceBackRate: number | null; // bounceBacks / bounceBackChances
+  longestParStreak: number; // Consecutive holes at par or better
+  frontNineToPar: number | null;
+  backNineToPar: number | null;
+  splitDifference: number | null; // Back nine minus front nine, to par (negative = finished stronger)
 }
 
 // Complete derived scoring data
 export interface DerivedScoring {
   holes: HoleDerived[];
   players: PlayerDerived[];
+  stablefordSystem?: string; // Name of the Stableford table used
+}
+
+// Where a single extracted score came from, reported by an OCR provider
+export interface CellProvenance {
+  playerName: string;
+  holeNumber: number;
+  source: 'textract' | 'vision' | 'manual';
+  confidence?: 'high' | 'medium' | 'low';
+  confidenceScore?: number;
+}
+
+// A filled-in score the client should ask the user to confirm
+export interface LowConfidenceCell {
+  playerName: string;
+  holeNumber: number;
+  score: number;
+  confidenceScore?: number;
+  reasons: string[];
+}
+
+// One difference between an extracted scorecard and a reference scorecard
+export interface ScorecardDiscrepancy {
+  field: 'par' | 'yardage' | 'handicap' | 'playerName' | 'score';
+  holeNumber?: number; // Hole fields and scores
+  playerName?: string; // Extracted name when the player was matched, otherwise the reference name
+  extracted: string | number | null; // null = missing from the extraction
+  expected: string | number | null; // null = not in the reference (extra player)
+}
+
+// A handwritten OUT/IN/TOTAL that doesn't match the summed hole scores
+export interface TotalsMismatch {
+  segment: 'front' | 'back' | 'total';
+  reported: number;
+  calculated: number;
+  difference: number; // reported - calculated
+}
+
+// A probable hole misread, located from a totals mismatch
+export interface ScoreCorrectionSuggestion {
+  holeNumber: number;
+  currentScore: number | null;
+  suggestedScore: number;
+  reason: string;
+}
+
+// Result of comparing a player's reported totals with their hole scores
+export interface TotalsCheck {
+  playerName: string;
+  mismatches: TotalsMismatch[];
+  suggestions: ScoreCorrectionSuggestion[]; // Most likely first
+  notes: string[];
 }
 
 // API response from /api/scorecards
 export interface ScorecardAnalysisResponse {
   extracted: ExtractedScorecard;
   derived: DerivedScoring;
+  provider?: string; // OCR provider that produced the extraction
+  provenance?: CellProvenance[];
+  lowConfidenceCells?: LowConfidenceCell[]; // Cells that need confirmation
+  totalsChecks?: TotalsCheck[]; // Players whose handwritten OUT/IN/TOTAL disagree with their holes
+  matches?: MatchResult[]; // Results of the declared match play matches
+  course?: CourseMatch; // Course/tee recognized in the course database
+}
+
+// Stages of the extraction pipeline, reported as progress
+export type ExtractionStage = 'textract' | 'vision' | 'cleanup' | 'scoring';
+
+// Status of an asynchronous extraction job (/api/scorecards/jobs)
+export interface ExtractionJobStatus {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage?: ExtractionStage; // Stage currently running
+  progress: number; // 0-100
+  message?: string; // What the current stage is doing
+  provider: string;
+  error?: string; // Set when status is 'failed'
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// Uploaded image a saved round was extracted from
+export interface RoundImageRef {
+  fileName: string;
+  contentType?: string;
+  size?: number; // Bytes
+  storageKey?: string; // Set once the image itself is stored (GET /api/rounds/{id}/image)
+}
+
+// One save of a round after it was created: what changed since the previous version
+export interface RoundEdit {
+  editedAt: string; // ISO timestamp
+  changes: ScorecardDiscrepancy[]; // extracted = new value, expected = previous value
+  note?: string;
+}
+
+// A round kept in the round store (/api/rounds)
+export interface SavedRound {
+  id: string;
+  scorecard: ExtractedScorecard;
+  derived: DerivedScoring;
+  image?: RoundImageRef;
+  provider?: string; // OCR provider the scorecard was extracted with
+  history: RoundEdit[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// Listing entry for GET /api/rounds
+export interface RoundSummary {
+  id: string;
+  courseName: string;
+  date?: string;
+  players: string[];
+  edits: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Stored layout of one set of tees
+export interface CourseTee {
+  name: string; // e.g. "Blue", "White"
+  courseRating?: number;
+  slopeRating?: number;
+  holes: Omit<HoleInfo, 'parBoundingBox'>[]; // handicap = stroke index
+}
+
+// A course in the course database (/api/courses)
+export interface Course {
+  id: string;
+  name: string;
+  aliases: string[]; // Other ways the name appears on cards
+  location?: string;
+  tees: CourseTee[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// Extracted hole data that disagrees with the stored layout (the extracted value was kept)
+export interface CourseDisagreement {
+  holeNumber: number;
+  field: 'par' | 'yardage' | 'handicap';
+  extracted: number;
+  stored: number;
+}
+
+// Course and tee an extraction was recognized as
+export interface CourseMatch {
+  courseId: string;
+  courseName: string;
+  teeName: string;
+  score: number; // 0-1 confidence of the match
+  filled: number; // Hole values that were missing and taken from the stored layout
+  disagreements: CourseDisagreement[];
+}
+
+// A player in the player registry (/api/players)
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  aliases: string[]; // Other ways the name appears on cards, e.g. "JAY", "Jay P.", "JP"
+  handicapIndex?: number | null; // Negative = plus handicap
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// A registered player a name on the card may refer to
+export interface PlayerLinkCandidate {
+  playerId: string;
+  name: string;
+  score: number; // 0-1 similarity
+  matchedOn: string; // Name or alias that matched best
+}
+
+// How a name on the card was linked to the player registry
+export interface PlayerLink {
+  cardName: string;
+  status: 'linked' | 'ambiguous' | 'unknown'; // ambiguous = the user should confirm
+  playerId?: string; // Set when linked
+  candidates: PlayerLinkCandidate[]; // Best first
+}
+
+// One saved round of a registered player, for their history
+export interface PlayerRoundSummary {
+  roundId: string;
+  playedAt: string; // Date of the round (card date, else when it was saved), YYYY-MM-DD
+  courseKey: string; // courseId, or the normalized course name for unmatched courses
+  courseName: string;
+  teeName?: string;
+  holesPlayed: number;
+  totalScore: number;
+  totalPar: number;
+  scoreToPar: number;
+  toParPer18: number; // scoreToPar scaled to 18 holes, so 9- and 18-hole rounds compare
+  birdiesOrBetter: number;
+  doubleBogeysOrWorse: number;
+}
+
+// Whether a player's scoring is going up or down
+export interface PlayerTrend {
+  slopePerRound: number | null; // Least-squares change in toParPer18 per round; negative = improving
+  recentAverageToPar: number | null; // Average toParPer18 of the last 5 rounds
+  previousAverageToPar: number | null; // ... of the 5 rounds before those
+  change: number | null; // recent - previous; negative = improving
+}
+
+// Best and average score on one course
+export interface CourseBest {
+  courseKey: string;
+  courseName: string;
+  rounds: number;
+  bestRoundId: string;
+  bestScore: number; // Lowest score among the rounds with the most holes played there
+  bestToPar: number;
+  bestPlayedAt: string;
+  averageScore: number;
+}
+
+// Per-hole scoring on a course played more than once
+export interface CourseHoleAverages {
+  courseKey: string;
+  courseName: string;
+  rounds: number;
+  holes: {
+    holeNumber: number;
+    par: number;
+    played: number;
+    averageScore: number;
+    averageToPar: number;
+  }[];
+}
+
+// A registered player's scoring across their saved rounds (/api/players/{id}/history)
+export interface PlayerHistory {
+  player: PlayerProfile;
+  rounds: PlayerRoundSummary[]; // Oldest first
+  holesPlayed: number;
+  averageToPar: number | null; // Per 18 holes
+  birdieRate: number | null; // Birdie or better, per hole played
+  doubleBogeyRate: number | null; // Double bogey or worse, per hole played
+  trend: PlayerTrend;
+  courseBests: CourseBest[];
+  holeAverages: CourseHoleAverages[];
+}
+
+// One saved round as posted to a player's handicap record
+export interface HandicapScore {
+  roundId: string;
+  playedAt: string; // YYYY-MM-DD
+  courseName: string;
+  holesPlayed: number;
+  nineHole: boolean;
+  adjustedGrossScore: number;
+  scoreDifferential: number | null; // 18-hole equivalent; null if the score couldn't be posted
+  esrAdjustment: number; // Exceptional score reductions applied to this differential (0, -1, -2, ...)
+  indexBefore: number | null; // Handicap index in effect when the round was played
+  posted: boolean;
+  usedInIndex: boolean; // Among the differentials counted in the current index
+  notes: string[];
+}
+
+// The handicap index after the scores of one day
+export interface HandicapRevision {
+  date: string; // YYYY-MM-DD
+  handicapIndex: number;
+  lowHandicapIndex: number | null; // Lowest index in the previous 365 days (once 20 scores exist)
+  cap: 'soft' | 'hard' | null; // Cap that limited the increase
+  esr: number; // Exceptional score reduction triggered that day
+  scoresInRecord: number; // Differentials considered (at most the last 20)
+  differentialsUsed: string[]; // Round ids of the differentials counted
+}
+
+// A registered player's WHS handicap record (/api/players/{id}/handicap)
+export interface HandicapRecord {
+  playerId: string;
+  playerName: string;
+  handicapIndex: number | null; // null until 3 scores are posted
+  lowHandicapIndex: number | null;
+  scores: HandicapScore[]; // Oldest first
+  revisions: HandicapRevision[]; // Oldest first
+  unratedRounds: number; // Linked rounds without a course/slope rating, which can't be posted
 }
 
 // API request to /api/assistant
@@ -1,186 +1,195 @@
 /**
- * Validation and correction utilities using reference data
- * 
- * This module helps improve extraction accuracy by comparing against known correct data
+ * Comparison of extracted scorecards against reference data
+ *
+ * Produces a structured list of discrepancies between what OCR read and what a
+ * reference scorecard says (ground truth for evaluation, or known course data).
+ * Nothing here modifies the extraction - callers decide what to do with the diff:
+ * the evaluation harness scores it, the editor shows "expected vs read".
  */
 
-import type { ExtractedScorecard, HoleInfo, PlayerInfo } from './types';
-import fs from 'fs';
-import path from 'path';
-
-// Load reference scores from the correct_scores.json file
-let referenceScores: ExtractedScorecard | null = null;
-
-function loadReferenceScores(): ExtractedScorecard | null {
-  if (referenceScores) {
-    return referenceScores;
-  }
-
-  try {
-    const filePath = path.join(process.cwd(), 'correct_scores.json');
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
-    referenceScores = JSON.parse(fileContent);
-    console.log('[Validation] Loaded reference scores from correct_scores.json');
-    console.log('[Validation] Reference players:', referenceScores?.players.map(p => p.name));
-    return referenceScores;
-  } catch (error) {
-    console.warn('[Validation] Could not load correct_scores.json - validation disabled');
-    console.warn('[Validation] Error:', error);
-    return null;
-  }
-}
+import type { ExtractedScorecard, ScorecardDiscrepancy } from './types';
+import { normalizePlayerName } from './ocrUtils';
 
 /**
- * Validates and corrects extracted scorecard data against reference
- * This helps identify and log common OCR mistakes for improvement
+ * Diffs an extracted scorecard against a reference scorecard
+ *
+ * - Holes are matched by hole number; yardage and handicap are only compared
+ *   when the reference has them
+ * - Players are matched by normalized name; reference players that were not
+ *   found are reported (with all their scores missing), as are extracted players
+ *   that are not in the reference
+ *
+ * @param extracted - Scorecard read by OCR (or edited by the user)
+ * @param reference - Scorecard known to be correct
+ * @returns Discrepancies in hole order, then player order
  */
-export function validateAndCorrect(extracted: ExtractedScorecard): ExtractedScorecard {
-  const reference = loadReferenceScores();
-  
-  if (!reference) {
-    console.log('[Validation] No reference data available - skipping validation');
-    return extracted;
-  }
-
-  console.log('[Validation] Checking extracted data against reference...');
-  console.log('[Validation] Extracted players:', extracted.players.map(p => p.name));
-  console.log('[Validation] Reference players:', reference.players.map(p => p.name));
-  
-  const corrected = JSON.parse(JSON.stringify(extracted)); // Deep clone
-  let correctionsMade = 0;
-  
-  // Validate hole data
-  if (corrected.holes.length === reference.holes.length) {
-    corrected.holes = corrected.holes.map((hole: HoleInfo, index: number) => {
-      const refHole = reference.holes[index];
-      const corrections: string[] = [];
-      
-      if (hole.par !== refHole.par) {
-        corrections.push(`par ${hole.par}→${refHole.par}`);
-        hole.par = refHole.par;
-        correctionsMade++;
-      }
-      if (hole.yardage !== refHole.yardage) {
-        corrections.push(`yardage ${hole.yardage}→${refHole.yardage}`);
-        hole.yardage = refHole.yardage;
-        correctionsMade++;
-      }
-      if (hole.handicap !== refHole.handicap) {
-        corrections.push(`handicap ${hole.handicap}→${refHole.handicap}`);
-        hole.handicap = refHole.handicap;
-        correctionsMade++;
+export function diffScorecards(
+  extracted: ExtractedScorecard,
+  reference: ExtractedScorecard
+): ScorecardDiscrepancy[] {
+  const discrepancies: ScorecardDiscrepancy[] = [];
+
+  // Hole data
+  reference.holes.forEach((refHole) => {
+    const hole = extracted.holes.find((h) => h.holeNumber === refHole.holeNumber);
+
+    if (hole?.par !== refHole.par) {
+      discrepancies.push({
+        field: 'par',
+        holeNumber: refHole.holeNumber,
+        extracted: hole?.par ?? null,
+        expected: refHole.par,
+      });
+    }
+
+    if (refHole.yardage !== undefined && refHole.yardage !== null && hole?.yardage !== refHole.yardage) {
+      discrepancies.push({
+        field: 'yardage',
+        holeNumber: refHole.holeNumber,
+        extracted: hole?.yardage ?? null,
+        expected: refHole.yardage,
+      });
+    }
+
+    if (refHole.handicap !== undefined && refHole.handicap !== null && hole?.handicap !== refHole.handicap) {
+      discrepancies.push({
+        field: 'handicap',
+        holeNumber: refHole.holeNumber,
+        extracted: hole?.handicap ?? null,
+        expected: refHole.handicap,
+      });
+    }
+  });
+
+  // Reference players and their scores
+  reference.players.forEach((refPlayer) => {
+    const player = extracted.players.find(
+      (p) => normalizePlayerName(p.name) === normalizePlayerName(refPlayer.name)
+    );
+
+    if (!player) {
+      discrepancies.push({
+        field: 'playerName',
+        playerName: refPlayer.name,
+        extracted: null,
+        expected: refPlayer.name,
+      });
+    }
+
+    refPlayer.scores.forEach((refScore) => {
+      if (typeof refScore.holeNumber !== 'number' || refScore.score === null) {
+        return;
       }
-      
-      if (corrections.length > 0) {
-        console.log(`[Validation] Hole ${hole.holeNumber} corrections: ${corrections.join(', ')}`);
+
+      const score = player?.scores.find((s) => s.holeNumber === refScore.holeNumber)?.score ?? null;
+
+      if (score !== refScore.score) {
+        discrepancies.push({
+          field: 'score',
+          holeNumber: refScore.holeNumber,
+          playerName: player?.name ?? refPlayer.name,
+          extracted: score,
+          expected: refScore.score,
+        });
       }
-      
-      return hole;
     });
-  }
-  
-  // Validate and correct player scores
-  corrected.players = corrected.players.map((player: PlayerInfo) => {
-    // Find matching reference player (case-insensitive, fuzzy match)
-    const normalizedName = normalizePlayerName(player.name);
-    console.log(`[Validation] Looking for player: "${player.name}" (normalized: "${normalizedName}")`);
-    
-    const refPlayer = reference.players.find(
-      (rp) => {
-        const refNormalized = normalizePlayerName(rp.name);
-        console.log(`[Validation] Comparing with reference: "${rp.name}" (normalized: "${refNormalized}")`);
-        return refNormalized === normalizedName;
-      }
+  });
+
+  // Extracted players missing from the reference
+  extracted.players.forEach((player) => {
+    const inReference = reference.players.some(
+      (rp) => normalizePlayerName(rp.name) === normalizePlayerName(player.name)
     );
-    
-    if (refPlayer) {
-      console.log(`[Validation] Found match: ${player.name} ↔ ${refPlayer.name}`);
-      player.scores = player.scores.map((score) => {
-        const refScore = refPlayer.scores.find((rs) => rs.holeNumber === score.holeNumber);
-        
-        if (refScore && score.score !== refScore.score) {
-          console.log(
-            `[Validation] Correcting ${player.name} hole ${score.holeNumber}: ${score.score} → ${refScore.score}`
-          );
-          correctionsMade++;
-          return { ...score, score: refScore.score };
-        }
-        
-        return score;
+
+    if (!inReference) {
+      discrepancies.push({
+        field: 'playerName',
+        playerName: player.name,
+        extracted: player.name,
+        expected: null,
       });
-    } else {
-      console.log(`[Validation] ⚠️  WARNING: Player "${player.name}" not found in reference data`);
-      console.log(`[Validation] Available reference players:`, reference.players.map(p => p.name));
     }
-    
-    return player;
   });
-  
-  if (correctionsMade > 0) {
-    console.log(`[Validation] Made ${correctionsMade} corrections based on reference data`);
-  } else {
-    console.log('[Validation] All data matches reference - extraction was perfect!');
-  }
-  
-  return corrected;
+
+  return discrepancies;
 }
 
 /**
- * Normalizes player names for fuzzy matching
+ * Diffs two versions of the same scorecard, e.g. before and after a manual edit
+ *
+ * Unlike diffScorecards, neither side is taken as the reference: a value added
+ * where there was none (a blank score filled in, a yardage typed in) and a value
+ * cleared are changes too. Holes are matched by number and players by
+ * normalized name; an added or removed player is reported along with each of
+ * their scores.
+ *
+ * @param updated - The new version
+ * @param previous - The version it replaces
+ * @returns Changes (extracted = new value, expected = previous value) in hole
+ *   order, then player order
  */
-function normalizePlayerName(name: string): string {
-  return name.toLowerCase().trim().replace(/[^a-z0-9]/g, '');
+export function diffScorecardVersions(
+  updated: ExtractedScorecard,
+  previous: ExtractedScorecard
+): ScorecardDiscrepancy[] {
+  const changes: ScorecardDiscrepancy[] = [];
+  const union = <T>(a: T[], b: T[]) => [...a, ...b.filter((item) => !a.includes(item))];
+
+  // Hole data
+  union(previous.holes.map((h) => h.holeNumber), updated.holes.map((h) => h.holeNumber)).forEach((holeNumber) => {
+    const before = previous.holes.find((h) => h.holeNumber === holeNumber);
+    const after = updated.holes.find((h) => h.holeNumber === holeNumber);
+
+    (['par', 'yardage', 'handicap'] as const).forEach((field) => {
+      const value = after?.[field] ?? null;
+      const previousValue = before?.[field] ?? null;
+      if (value !== previousValue) {
+        changes.push({ field, holeNumber, extracted: value, expected: previousValue });
+      }
+    });
+  });
+
+  // Players and their scores
+  const names = union(previous.players.map((p) => normalizePlayerName(p.name)), updated.players.map((p) => normalizePlayerName(p.name)));
+  names.forEach((name) => {
+    const before = previous.players.find((p) => normalizePlayerName(p.name) === name);
+    const after = updated.players.find((p) => normalizePlayerName(p.name) === name);
+    const playerName = after?.name ?? before!.name;
+
+    if (!before || !after) {
+      changes.push({ field: 'playerName', playerName, extracted: after?.name ?? null, expected: before?.name ?? null });
+    }
+
+    const holeNumbers = (player?: { scores: { holeNumber: number | string }[] }) =>
+      (player?.scores ?? []).map((s) => s.holeNumber).filter((h): h is number => typeof h === 'number');
+    union(holeNumbers(before), holeNumbers(after)).forEach((holeNumber) => {
+      const score = after?.scores.find((s) => s.holeNumber === holeNumber)?.score ?? null;
+      const previousScore = before?.scores.find((s) => s.holeNumber === holeNumber)?.score ?? null;
+      if (score !== previousScore) {
+        changes.push({ field: 'score', holeNumber, playerName, extracted: score, expected: previousScore });
+      }
+    });
+  });
+
+  return changes;
 }
 
 /**
- * Analyzes common OCR errors to improve future extractions
+ * Counts misread scores by pattern ("4→9" = expected 4, read 9)
+ *
+ * Missing scores (read nothing) are not confusions and are skipped.
  */
-export function analyzeExtractionErrors(
-  extracted: ExtractedScorecard
-): void {
-  const reference = loadReferenceScores();
-  
-  if (!reference) {
-    return; // Skip analysis if no reference data
-  }
-  
-  const errors: { type: string; from: any; to: any }[] = [];
-  
-  reference.players.forEach((refPlayer) => {
-    const extractedPlayer = extracted.players.find(
-      (p) => normalizePlayerName(p.name) === normalizePlayerName(refPlayer.name)
-    );
-    
-    if (extractedPlayer) {
-      refPlayer.scores.forEach((refScore) => {
-        const extractedScore = extractedPlayer.scores.find(
-          (s) => s.holeNumber === refScore.holeNumber
-        );
-        
-        if (extractedScore && extractedScore.score !== refScore.score) {
-          errors.push({
-            type: 'score_mismatch',
-            from: extractedScore.score,
-            to: refScore.score,
-          });
-        }
-      });
+export function countScoreConfusions(discrepancies: ScorecardDiscrepancy[]): Record<string, number> {
+  const confusions: Record<string, number> = {};
+
+  discrepancies.forEach((d) => {
+    if (d.field !== 'score' || d.extracted === null || d.expected === null) {
+      return;
     }
+
+    const pattern = `${d.expected}→${d.extracted}`;
+    confusions[pattern] = (confusions[pattern] || 0) + 1;
   });
-  
-  if (errors.length > 0) {
-    console.log('[Analysis] Common OCR errors detected:');
-    const errorPatterns = new Map<string, number>();
-    
-    errors.forEach((err) => {
-      const pattern = `${err.from}→${err.to}`;
-      errorPatterns.set(pattern, (errorPatterns.get(pattern) || 0) + 1);
-    });
-    
-    Array.from(errorPatterns.entries())
-      .sort((a, b) => b[1] - a[1])
-      .forEach(([pattern, count]) => {
-        console.log(`  ${pattern} (${count} times)`);
-      });
-  }
+
+  return confusions;
 }
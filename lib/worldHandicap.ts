@@ -0,0 +1,207 @@
+/**
+ * World Handicap System (WHS) calculations for posting a round
+ *
+ * Given a player's round, the tee's ratings and (optionally) a handicap index:
+ * - Course handicap: Handicap Index × (Slope Rating / 113) + (Course Rating - Par)
+ * - Net double bogey: the maximum hole score for handicap purposes
+ *   (par + 2 + handicap strokes received; par + 5 without a handicap index)
+ * - Adjusted gross score: hole scores capped at net double bogey, over the
+ *   holes played
+ * - Score differential: (113 / Slope Rating) × (Adjusted Gross Score - Course Rating - PCC)
+ *
+ * Holes not played are scored with the expected score, as the WHS does since
+ * 2024: the differential of the holes played (course rating pro-rated to the
+ * holes played) is combined with the expected score differential of the
+ * remaining holes of an 18-hole round, based on the handicap index. This makes
+ * 18-hole rounds of 10-17 holes and all 9-hole rounds (rated with the 9-hole
+ * course/slope rating and half the handicap index) postable as 18-hole
+ * differentials, provided the player has an index.
+ */
+
+import type { HoleInfo, PlayerInfo } from './types';
+import { allocateHandicapStrokes } from './golfScoring';
+
+// Slope rating of a course of standard difficulty
+export const STANDARD_SLOPE = 113;
+
+// Minimum holes played for a score to be acceptable
+const MIN_HOLES_18 = 10;
+const MIN_HOLES_9 = 7;
+
+/**
+ * Ratings of the tee the round was played from
+ *
+ * For a 9-hole round, use the 9-hole ratings and par of the nine played.
+ */
+export interface TeeRating {
+  courseRating: number;
+  slopeRating: number;
+  par: number;
+}
+
+/**
+ * A hole score as used for handicap purposes
+ */
+export interface AdjustedHoleScore {
+  holeNumber: number;
+  score: number | null; // Gross score as played (null = not played)
+  strokesReceived: number;
+  maxScore: number; // Net double bogey (or par + 5 without a handicap index)
+  adjustedScore: number | null; // Score counted for handicap purposes (null = not played, see expected score)
+}
+
+/**
+ * Handicap result for one player's round
+ */
+export interface HandicapRound {
+  playerName: string;
+  holesPlayed: number;
+  nineHole: boolean;
+  courseHandicap: number | null; // null without a handicap index
+  adjustedGrossScore: number; // Over the holes played
+  holes: AdjustedHoleScore[];
+  scoreDifferential: number | null; // 18-hole equivalent; null if the score can't be posted
+  acceptable: boolean; // Enough holes played to post the score
+  notes: string[];
+}
+
+/**
+ * Rounds to one decimal place, as WHS reports differentials and indexes
+ */
+export function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Calculates the WHS course handicap for a tee
+ *
+ * @param handicapIndex - Player's handicap index (negative = plus handicap)
+ * @param tee - Ratings of the tee (9-hole ratings for a 9-hole round)
+ * @param nineHole - Whether the round is 9 holes (uses half the handicap index)
+ * @returns Course handicap rounded to the nearest whole number
+ */
+export function calculateCourseHandicap(handicapIndex: number, tee: TeeRating, nineHole = false): number {
+  const index = nineHole ? handicapIndex / 2 : handicapIndex;
+  return Math.round(index * (tee.slopeRating / STANDARD_SLOPE) + (tee.courseRating - tee.par));
+}
+
+/**
+ * Maximum hole score for handicap purposes
+ *
+ * @param par - Par of the hole
+ * @param strokesReceived - Handicap strokes on the hole, or null without a handicap index
+ */
+export function netDoubleBogey(par: number, strokesReceived: number | null): number {
+  return strokesReceived === null ? par + 5 : par + 2 + strokesReceived;
+}
+
+/**
+ * Score differential from an adjusted gross score
+ *
+ * @param adjustedGrossScore - AGS for the holes the tee ratings cover
+ * @param tee - Ratings of the tee
+ * @param pcc - Playing conditions calculation adjustment for the day
+ */
+export function calculateScoreDifferential(adjustedGrossScore: number, tee: TeeRating, pcc = 0): number {
+  return roundToTenth((STANDARD_SLOPE / tee.slopeRating) * (adjustedGrossScore - tee.courseRating - pcc));
+}
+
+/**
+ * Expected score differential for nine holes not played, based on the handicap index
+ */
+export function expectedNineHoleDifferential(handicapIndex: number): number {
+  return handicapIndex * 0.52 + 1.197;
+}
+
+/**
+ * Expected score differential for one hole not played
+ */
+export function expectedHoleDifferential(handicapIndex: number): number {
+  return expectedNineHoleDifferential(handicapIndex) / 9;
+}
+
+/**
+ * Evaluates a player's round for handicap posting
+ *
+ * @param player - Player and their hole scores
+ * @param holes - Holes of the round (9 or 18), with stroke indexes in `handicap`
+ * @param tee - Ratings of the tee (9-hole ratings for a 9-hole round)
+ * @param handicapIndex - Player's handicap index, if they have one
+ * @param pcc - Playing conditions calculation adjustment (default 0)
+ */
+export function evaluateHandicapRound(
+  player: PlayerInfo,
+  holes: HoleInfo[],
+  tee: TeeRating,
+  handicapIndex?: number | null,
+  pcc = 0
+): HandicapRound {
+  const nineHole = holes.length <= 9;
+  const hasIndex = handicapIndex !== undefined && handicapIndex !== null;
+  const notes: string[] = [];
+
+  const courseHandicap = hasIndex ? calculateCourseHandicap(handicapIndex, tee, nineHole) : null;
+  const strokes = courseHandicap !== null ? allocateHandicapStrokes(courseHandicap, holes) : null;
+
+  if (!hasIndex) {
+    notes.push('No handicap index: hole scores are capped at par + 5');
+  }
+
+  const adjusted: AdjustedHoleScore[] = holes.map((hole) => {
+    const score = player.scores.find((s) => s.holeNumber === hole.holeNumber)?.score ?? null;
+    const strokesReceived = strokes?.get(hole.holeNumber) ?? 0;
+    const maxScore = netDoubleBogey(hole.par, strokes ? strokesReceived : null);
+
+    // Holes not played are covered by the expected score in the differential
+    const adjustedScore = score === null ? null : Math.min(score, maxScore);
+
+    if (score !== null && score > maxScore) {
+      notes.push(`Hole ${hole.holeNumber}: ${score} adjusted to ${maxScore}`);
+    }
+
+    return { holeNumber: hole.holeNumber, score, strokesReceived, maxScore, adjustedScore };
+  });
+
+  const holesPlayed = adjusted.filter((h) => h.score !== null).length;
+  const adjustedGrossScore = adjusted.reduce((sum, h) => sum + (h.adjustedScore ?? 0), 0);
+  const minimumHoles = nineHole ? MIN_HOLES_9 : MIN_HOLES_18;
+  const acceptable = holesPlayed >= minimumHoles;
+
+  if (holesPlayed < holes.length && acceptable) {
+    notes.push(`${holes.length - holesPlayed} hole(s) not played, scored with the expected score`);
+  }
+  if (!acceptable) {
+    notes.push(`Only ${holesPlayed} hole(s) played - at least ${minimumHoles} are needed to post a score`);
+  }
+
+  let scoreDifferential: number | null = null;
+  if (acceptable) {
+    if (!nineHole && holesPlayed === holes.length) {
+      scoreDifferential = calculateScoreDifferential(adjustedGrossScore, tee, pcc);
+    } else if (hasIndex) {
+      // Differential of the holes played plus the expected differential for the rest of 18 holes
+      const share = holesPlayed / holes.length;
+      const played =
+        (STANDARD_SLOPE / tee.slopeRating) * (adjustedGrossScore - tee.courseRating * share - (pcc * holesPlayed) / 18);
+      scoreDifferential = roundToTenth(played + expectedHoleDifferential(handicapIndex) * (18 - holesPlayed));
+    } else {
+      notes.push(
+        nineHole
+          ? 'A 9-hole score needs a handicap index to produce an 18-hole differential'
+          : 'Holes not played are scored with the expected score, which needs a handicap index'
+      );
+    }
+  }
+
+  return {
+    playerName: player.name,
+    holesPlayed,
+    nineHole,
+    courseHandicap,
+    adjustedGrossScore,
+    holes: adjusted,
+    scoreDifferential,
+    acceptable,
+    notes,
+  };
+}
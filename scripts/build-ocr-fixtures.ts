@@ -0,0 +1,237 @@
+/**
+ * Hand-built OCR fixtures
+ *
+ * Writes Textract and Vision fixtures (lib/ocrFixtures.ts) for
+ * test-images/9hole-standard-D-M-X-J.jpeg from a transcription of the card,
+ * so the hybrid and adaptive pipelines run end to end in tests without
+ * credentials. The Textract blocks carry the typical mistakes of a live
+ * response: a circled score misread, an overwritten score left blank and low
+ * word confidence on handwriting. Vision replies are what a correct reader
+ * would return for each prompt.
+ *
+ * Vision fixtures are keyed by prompt, so rerun this after changing a prompt:
+ *   npx tsx scripts/build-ocr-fixtures.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Block } from '@aws-sdk/client-textract';
+import { analyzeWithHybridOcr } from '../lib/hybridOcr';
+import { analyzeWithAdaptiveOcr } from '../lib/adaptiveOcr';
+import { createFixtureTransport, getFixtureDir, hashImage } from '../lib/ocrFixtures';
+import type { OcrTransport, VisionRequest } from '../lib/ocrTransport';
+
+const IMAGE = path.join(process.cwd(), 'test-images', '9hole-standard-D-M-X-J.jpeg');
+
+const HOLES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const PARS = [4, 4, 5, 4, 3, 4, 3, 5, 4];
+
+// What is written on the card
+const PLAYERS: Record<string, number[]> = {
+  D: [8, 7, 8, 7, 4, 6, 4, 7, 6],
+  M: [6, 4, 7, 5, 4, 5, 4, 7, 5],
+  X: [8, 7, 8, 6, 7, 5, 6, 7, 7],
+  J: [5, 6, 6, 4, 4, 6, 3, 6, 6],
+};
+
+// What Textract reads differently: X's circled 6 as an 8, the overwritten 7 not at all
+const TEXTRACT_MISREADS: Record<string, Record<number, string>> = {
+  X: { 7: '8', 9: '' },
+};
+
+// Rows of the card's table (label column, holes 1-9, OUT) with their top edge in the photo
+const ROWS: { cells: string[]; top: number; handwritten?: boolean }[] = [
+  { cells: ['HOLE', ...HOLES.map(String), 'OUT'], top: 0.295 },
+  { cells: ['Black', '410', '355', '549', '356', '165', '440', '200', '492', '336', '3303'], top: 0.3175 },
+  { cells: ['Blue', '396', '350', '539', '351', '160', '431', '195', '483', '331', '3236'], top: 0.339 },
+  { cells: ['White', '302', '339', '530', '339', '151', '420', '185', '461', '322', '3049'], top: 0.36 },
+  { cells: ['Gold', '293', '329', '522', '325', '141', '410', '175', '392', '312', '2899'], top: 0.3815 },
+  { cells: ["Men's Par", ...PARS.map(String), '36'], top: 0.403 },
+  { cells: ["Men's Handicap", '4', '12', '10', '16', '18', '2', '8', '6', '14', ''], top: 0.425 },
+  ...Object.entries(PLAYERS).map(([name, scores], i) => ({
+    cells: [name, ...scores.map((score, h) => TEXTRACT_MISREADS[name]?.[h + 1] ?? String(score)), ''],
+    top: 0.4465 + i * 0.029,
+    handwritten: true,
+  })),
+  { cells: Array(11).fill(''), top: 0.5625 },
+  { cells: Array(11).fill(''), top: 0.5925 },
+  { cells: Array(11).fill(''), top: 0.6225 },
+  { cells: ['Red', '275', '324', '517', '322', '136', '405', '170', '384', '307', '2840'], top: 0.6525 },
+  { cells: ["Ladies' Par", '4', '4', '5', '4', '3', '5', '3', '4', '4', '36'], top: 0.675 },
+  { cells: ["Ladies' Handicap", '11', '7', '1', '9', '17', '5', '15', '3', '13', ''], top: 0.6975 },
+];
+const TABLE_BOTTOM = 0.72;
+
+// Left edge of each column: label, holes 1-9, OUT
+const COLUMN_LEFT = [0.067, 0.333, ...HOLES.slice(1).map((h) => 0.333 + (h - 1) * 0.0511), 0.793];
+const TABLE_RIGHT = 0.86;
+
+const LINES = ['2 For 1 Wine Tasting', '8361 Sheldon Road', 'Elk Grove, Ca 95624'];
+
+/**
+ * Textract blocks for the card: LINE blocks for the printed text around the
+ * table, one TABLE with a CELL per row and column and a WORD per cell value
+ */
+function buildTextractBlocks(): Block[] {
+  const blocks: Block[] = [];
+  let nextId = 0;
+  const id = (kind: string) => `${kind}-${++nextId}`;
+  const box = (left: number, top: number, width: number, height: number) => ({
+    BoundingBox: { Left: left, Top: top, Width: width, Height: height },
+  });
+
+  LINES.forEach((text, i) => {
+    blocks.push({ BlockType: 'LINE', Id: id('line'), Text: text, Confidence: 98, Geometry: box(0.14, 0.225 + i * 0.012, 0.17, 0.01) });
+  });
+
+  const cellIds: string[] = [];
+  ROWS.forEach((row, r) => {
+    const bottom = ROWS[r + 1]?.top ?? TABLE_BOTTOM;
+    row.cells.forEach((text, c) => {
+      const left = COLUMN_LEFT[c];
+      const right = COLUMN_LEFT[c + 1] ?? TABLE_RIGHT;
+      const geometry = box(left, row.top, right - left, bottom - row.top);
+      const cellId = id('cell');
+      const wordIds: string[] = [];
+
+      text.split(' ').filter(Boolean).forEach((word) => {
+        const wordId = id('word');
+        wordIds.push(wordId);
+        const handwrittenScore = row.handwritten && c > 0;
+        const misread = handwrittenScore && TEXTRACT_MISREADS[row.cells[0]]?.[c] !== undefined;
+        blocks.push({
+          BlockType: 'WORD',
+          Id: wordId,
+          Text: word,
+          TextType: handwrittenScore ? 'HANDWRITING' : 'PRINTED',
+          Confidence: misread ? 41.5 : handwrittenScore ? 83.2 : 99.1,
+          Geometry: geometry,
+        });
+      });
+
+      blocks.push({
+        BlockType: 'CELL',
+        Id: cellId,
+        RowIndex: r + 1,
+        ColumnIndex: c + 1,
+        RowSpan: 1,
+        ColumnSpan: 1,
+        Confidence: 90,
+        Geometry: geometry,
+        ...(wordIds.length > 0 ? { Relationships: [{ Type: 'CHILD', Ids: wordIds }] } : {}),
+      });
+      cellIds.push(cellId);
+    });
+  });
+
+  blocks.push({
+    BlockType: 'TABLE',
+    Id: id('table'),
+    Confidence: 95,
+    Geometry: box(COLUMN_LEFT[0], ROWS[0].top, TABLE_RIGHT - COLUMN_LEFT[0], TABLE_BOTTOM - ROWS[0].top),
+    Relationships: [{ Type: 'CHILD', Ids: cellIds }],
+  });
+
+  return blocks;
+}
+
+const playerScores = (name: string) =>
+  PLAYERS[name].map((score, i) => ({ holeNumber: i + 1, score }));
+
+const holesWithPar = () => HOLES.map((holeNumber, i) => ({ holeNumber, par: PARS[i] }));
+
+/**
+ * Reply a careful reader would give to each Vision prompt of the pipelines
+ */
+function visionReply(request: VisionRequest): string {
+  const { prompt } = request;
+
+  // Hybrid: first pass over every cell, names as Textract read them
+  if (prompt.startsWith('You are an expert at reading golf scorecards with handwritten scores')) {
+    const names = Array.from(prompt.matchAll(/"playerName": "([^"]+)"/g), (m) => m[1]);
+    return JSON.stringify({
+      scores: names
+        .filter((name) => PLAYERS[name])
+        .map((name) => ({
+          playerName: name,
+          holeScores: [
+            ...PLAYERS[name].map((score, i) => ({ hole: i + 1, score })),
+            { hole: 'OUT', score: PLAYERS[name].reduce((sum, s) => sum + s, 0) },
+            { hole: 'TOTAL', score: null },
+          ],
+        })),
+    });
+  }
+
+  // Hybrid: second pass over the cells Textract and Vision disagree on
+  if (prompt.startsWith('Two readers disagreed')) {
+    const cells = Array.from(prompt.matchAll(/- Player "([^"]+)", hole (\d+)/g), (m) => ({
+      playerName: m[1],
+      hole: Number(m[2]),
+      score: PLAYERS[m[1]] ? String(PLAYERS[m[1]][Number(m[2]) - 1]) : null,
+    }));
+    return JSON.stringify({ cells });
+  }
+
+  // Adaptive: layout detection
+  if (prompt.startsWith('Analyze this golf scorecard layout')) {
+    return JSON.stringify({
+      holeCount: 9,
+      layoutType: 'standard-9',
+      hasOutInTotal: true,
+      hasPlayerInitials: false,
+      rowOriented: true,
+      notes: 'Players written as single initials; tee rows above and below the player rows',
+    });
+  }
+
+  // Adaptive: Vision-first extraction
+  if (prompt.startsWith('You are an expert at reading golf scorecards with high accuracy')) {
+    return JSON.stringify({
+      courseName: null,
+      holes: holesWithPar(),
+      players: Object.keys(PLAYERS).map((name) => ({ name, scores: playerScores(name) })),
+    });
+  }
+
+  // Adaptive: hybrid merge over the Textract structure
+  if (prompt.startsWith('Read handwritten scores from this')) {
+    return JSON.stringify({
+      players: Object.keys(PLAYERS).map((name) => ({ name, scores: playerScores(name) })),
+    });
+  }
+
+  throw new Error(`No hand-built reply for Vision prompt: ${prompt.slice(0, 80)}...`);
+}
+
+const handBuiltTransport: OcrTransport = {
+  async analyzeDocument() {
+    return buildTextractBlocks();
+  },
+  async completeVision(_imageBuffer, request) {
+    return visionReply(request);
+  },
+};
+
+async function main() {
+  const imageBuffer = fs.readFileSync(IMAGE);
+  const fixtureDir = path.join(getFixtureDir(), hashImage(imageBuffer));
+
+  // Start over so replies for prompts that no longer exist don't linger
+  fs.rmSync(fixtureDir, { recursive: true, force: true });
+
+  const transport = createFixtureTransport('record', handBuiltTransport);
+  const hybrid = await analyzeWithHybridOcr(imageBuffer, {}, transport);
+  const adaptive = await analyzeWithAdaptiveOcr(imageBuffer, {}, transport);
+
+  const summary = (scorecard: typeof hybrid) =>
+    scorecard.players.map((p) => `${p.name}: ${p.scores.map((s) => s.score ?? '-').join(' ')}`).join('\n  ');
+  console.log(`\nFixtures written to ${fixtureDir}`);
+  console.log(`Hybrid (${hybrid.holes.length} holes):\n  ${summary(hybrid)}`);
+  console.log(`Adaptive (${adaptive.holes.length} holes):\n  ${summary(adaptive)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
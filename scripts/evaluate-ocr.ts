@@ -0,0 +1,127 @@
+/**
+ * OCR accuracy evaluation
+ *
+ * Runs one or more OCR strategies over a directory of scorecard images, each
+ * paired with a hand-verified ground-truth ExtractedScorecard, and prints
+ * per-field accuracy and the most common digit confusions per strategy. When a
+ * strategy fails on a card, accuracy is also reported with that card's fields
+ * counted as wrong.
+ *
+ * USAGE:
+ *   npm run evaluate-ocr -- <dir> [--strategy hybrid,adaptive] [--json]
+ *
+ * Every image (<name>.jpg / .jpeg / .png) needs a ground truth file <name>.json
+ * next to it; images without one are skipped. Set OCR_FIXTURE_MODE=replay to
+ * evaluate against recorded responses without calling Textract or OpenAI.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ExtractedScorecard } from '../lib/types';
+import { resolveOcrProvider, DEFAULT_OCR_PROVIDER } from '../lib/ocrRegistry';
+import {
+  evaluateScorecard,
+  evaluateFailedCard,
+  aggregateEvaluations,
+  formatEvaluationReport,
+  type ScorecardEvaluation,
+  type StrategyEvaluation,
+} from '../lib/ocrEvaluation';
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+
+interface EvaluationCase {
+  name: string;
+  imagePath: string;
+  truth: ExtractedScorecard;
+}
+
+function parseArgs(argv: string[]): { dir: string; strategies: string[]; json: boolean } {
+  let dir = '';
+  let strategies = [DEFAULT_OCR_PROVIDER];
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--strategy' || arg === '--strategies') {
+      strategies = (argv[++i] || '').split(',').map((s) => s.trim()).filter(Boolean);
+    } else if (arg === '--json') {
+      json = true;
+    } else if (!dir) {
+      dir = arg;
+    }
+  }
+
+  if (!dir) {
+    console.error('Usage: npm run evaluate-ocr -- <dir> [--strategy hybrid,adaptive] [--json]');
+    process.exit(1);
+  }
+
+  return { dir, strategies, json };
+}
+
+function loadCases(dir: string): EvaluationCase[] {
+  const cases: EvaluationCase[] = [];
+
+  fs.readdirSync(dir)
+    .filter((file) => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort()
+    .forEach((file) => {
+      const name = path.basename(file, path.extname(file));
+      const truthPath = path.join(dir, `${name}.json`);
+
+      if (!fs.existsSync(truthPath)) {
+        console.warn(`[Evaluate OCR] Skipping ${file}: no ground truth at ${truthPath}`);
+        return;
+      }
+
+      cases.push({
+        name,
+        imagePath: path.join(dir, file),
+        truth: JSON.parse(fs.readFileSync(truthPath, 'utf-8')),
+      });
+    });
+
+  return cases;
+}
+
+async function evaluateStrategy(strategy: string, cases: EvaluationCase[]): Promise<StrategyEvaluation> {
+  const provider = resolveOcrProvider(strategy);
+  const evaluations: ScorecardEvaluation[] = [];
+  const failed: ScorecardEvaluation[] = [];
+
+  for (const testCase of cases) {
+    try {
+      const imageBuffer = fs.readFileSync(testCase.imagePath);
+      const { scorecard } = await provider.analyze(imageBuffer);
+      evaluations.push(evaluateScorecard(scorecard, testCase.truth));
+    } catch (error) {
+      failed.push(evaluateFailedCard(testCase.truth));
+      console.error(`[Evaluate OCR] ${provider.name} failed on ${testCase.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return aggregateEvaluations(provider.name, evaluations, failed);
+}
+
+async function main() {
+  const { dir, strategies, json } = parseArgs(process.argv.slice(2));
+  const cases = loadCases(dir);
+
+  if (cases.length === 0) {
+    console.error(`[Evaluate OCR] No images with ground truth found in ${dir}`);
+    process.exit(1);
+  }
+
+  const results: StrategyEvaluation[] = [];
+  for (const strategy of strategies) {
+    results.push(await evaluateStrategy(strategy, cases));
+  }
+
+  console.log(json ? JSON.stringify(results, null, 2) : formatEvaluationReport(results));
+}
+
+main().catch((error) => {
+  console.error('[Evaluate OCR] Error:', error);
+  process.exit(1);
+});